@@ -0,0 +1,165 @@
+import React, { useRef, useState } from 'react';
+import { ImagePlus, Loader2, Sparkles, X } from 'lucide-react';
+import { SrtEntry } from '../utils/srt';
+import { DialogueGap } from '../utils/voiceActivity';
+import { SpeechRateModel } from '../utils/speechRateModel';
+import { DraftScriptClient, Keyframe, freeGaps, gapWordBudgets, draftToEntries } from '../utils/draftScript';
+import { arrayBufferToBase64 } from '../utils/audio';
+import { parseTimeInput, formatTimeInput } from '../utils/scriptEditor';
+
+const MAX_KEYFRAMES = 16; // O pedido leva as imagens inline: manter abaixo do limite do modelo
+
+interface DraftGeneratorProps {
+  client: DraftScriptClient | null;   // Null sem chave da API
+  title: string;
+  synopsis: string;
+  lang: string;                       // Língua da faixa ativa
+  entries: SrtEntry[];                // Linhas já escritas (as lacunas ocupadas ficam de fora)
+  currentTime: number | null;         // Tempo do guião agora, para as imagens novas
+  model: SpeechRateModel;
+  rate: number;
+  findGaps: () => Promise<DialogueGap[]>; // Lacunas de diálogo no tempo do guião
+  onSynopsisChange: (synopsis: string) => void;
+  onDraft: (drafts: SrtEntry[]) => void;
+}
+
+interface KeyframeInput extends Keyframe {
+  name: string;
+}
+
+const DraftGenerator: React.FC<DraftGeneratorProps> = ({
+    client,
+    title,
+    synopsis,
+    lang,
+    entries,
+    currentTime,
+    model,
+    rate,
+    findGaps,
+    onSynopsisChange,
+    onDraft
+}) => {
+  const [notes, setNotes] = useState('');
+  const [keyframes, setKeyframes] = useState<KeyframeInput[]>([]);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const addKeyframes = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = Array.from<File>(e.target.files ?? []).slice(0, MAX_KEYFRAMES - keyframes.length);
+      e.target.value = '';
+      const added = await Promise.all(files.map(async file => ({
+          name: file.name,
+          time: currentTime ?? 0,
+          mimeType: file.type || 'image/jpeg',
+          data: arrayBufferToBase64(await file.arrayBuffer())
+      })));
+      setKeyframes(prev => [...prev, ...added]);
+  };
+
+  const setKeyframeTime = (index: number, value: string) => {
+      const time = parseTimeInput(value);
+      if (time !== null) setKeyframes(prev => prev.map((k, i) => i === index ? { ...k, time } : k));
+  };
+
+  const generate = async () => {
+      if (!client) return;
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setError(null);
+      setStatus(null);
+      try {
+          setProgress('A procurar pausas no diálogo...');
+          const gaps = freeGaps(await findGaps(), entries);
+          if (gaps.length === 0) throw new Error('Não há pausas de diálogo livres no guião');
+
+          setProgress(`A gerar descrições para ${gaps.length} pausas...`);
+          const cues = await client.generateDraft({
+              title,
+              synopsis,
+              lang,
+              gaps,
+              wordBudgets: gapWordBudgets(gaps, model, rate),
+              notes: notes.trim() || undefined,
+              keyframes: keyframes.map(({ time, mimeType, data }) => ({ time, mimeType, data }))
+          }, controller.signal);
+          if (controller.signal.aborted) return;
+
+          const result = draftToEntries(cues, gaps, entries);
+          if (result.entries.length > 0) onDraft(result.entries);
+          setStatus(`${result.entries.length} linhas de rascunho por rever` + (result.rejected > 0 ? ` (${result.rejected} fora das pausas, ignoradas)` : ''));
+      } catch (e) {
+          if (controller.signal.aborted) return;
+          console.error(e);
+          setError((e as Error).message || 'Falha ao gerar o rascunho');
+      } finally {
+          if (abortRef.current === controller) abortRef.current = null;
+          setProgress(null);
+      }
+  };
+
+  const cancel = () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+      setProgress(null);
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-slate-200";
+
+  return (
+    <div className="mx-2 mt-2 p-2 rounded-lg bg-slate-950/60 border border-slate-800 text-xs space-y-2">
+        <div className="flex items-center gap-2 text-slate-300">
+            <Sparkles size={14} className="text-purple-400" />
+            <span className="font-medium">Rascunho com IA</span>
+            <span className="text-slate-500 font-mono">{lang}</span>
+        </div>
+        <textarea value={synopsis} onChange={(e) => onSynopsisChange(e.target.value)} placeholder="Sinopse do filme" rows={2} className={`${inputClass} resize-y`} />
+        <textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notas do audiodescritor (opcional): personagens, cenários, o que evitar..." rows={2} className={`${inputClass} resize-y`} />
+
+        <div className="space-y-1">
+            {keyframes.map((k, i) => (
+                <div key={`${k.name}-${i}`} className="flex items-center gap-2 text-slate-400">
+                    <input
+                        defaultValue={formatTimeInput(k.time)}
+                        onBlur={(e) => setKeyframeTime(i, e.currentTarget.value)}
+                        className="w-24 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 font-mono text-slate-300"
+                    />
+                    <span className="truncate flex-1">{k.name}</span>
+                    <button onClick={() => setKeyframes(prev => prev.filter((_, j) => j !== i))} className="hover:text-red-400"><X size={12} /></button>
+                </div>
+            ))}
+            {keyframes.length < MAX_KEYFRAMES && (
+                <label className="flex items-center gap-1 text-slate-400 hover:text-white cursor-pointer w-fit">
+                    <ImagePlus size={12} /> Imagens-chave (opcional)
+                    <input type="file" accept="image/*" multiple className="hidden" onChange={addKeyframes} />
+                </label>
+            )}
+        </div>
+
+        <div className="flex items-center gap-2">
+            {progress ? (
+                <>
+                    <Loader2 size={12} className="animate-spin text-purple-400" />
+                    <span className="text-slate-400 flex-1">{progress}</span>
+                    <button onClick={cancel} className="text-slate-400 hover:text-white">Cancelar</button>
+                </>
+            ) : (
+                <button
+                    onClick={generate}
+                    disabled={!client}
+                    className="ml-auto px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded"
+                    title={client ? 'Preenche as pausas de diálogo livres' : 'Sem chave da API Gemini'}
+                >
+                    Gerar rascunho
+                </button>
+            )}
+        </div>
+        {status && <div className="text-amber-400">{status}</div>}
+        {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default DraftGenerator;
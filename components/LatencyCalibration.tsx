@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { Loader2, RefreshCw, Timer, X } from 'lucide-react';
+import { calibrateLatency, CalibrationStep } from '../utils/latencyCalibration';
+import { LatencyProfile, saveLatencyProfile, deleteLatencyProfile } from '../utils/latencyProfiles';
+
+interface LatencyCalibrationProps {
+  deviceId: string;
+  profile: LatencyProfile | null;
+  defaultCaptureLatency: number;
+  createUtterance: (text: string) => SpeechSynthesisUtterance;
+  onProfileChange: (profile: LatencyProfile | null) => void;
+  disabled?: boolean;
+}
+
+const STEP_LABELS: Record<CalibrationStep, string> = {
+  roundtrip: 'A medir o microfone (chirp)...',
+  speech: 'A medir o arranque da voz...'
+};
+
+const LatencyCalibration: React.FC<LatencyCalibrationProps> = ({
+    deviceId,
+    profile,
+    defaultCaptureLatency,
+    createUtterance,
+    onProfileChange,
+    disabled
+}) => {
+  const [step, setStep] = useState<CalibrationStep | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const runCalibration = async () => {
+      setError(null);
+      try {
+          const result = await calibrateLatency(deviceId, createUtterance, setStep);
+          saveLatencyProfile(deviceId, result);
+          onProfileChange(result);
+      } catch (e) {
+          console.error(e);
+          setError((e as Error).message || 'Falha na calibração');
+      } finally {
+          setStep(null);
+      }
+  };
+
+  const resetCalibration = () => {
+      deleteLatencyProfile(deviceId);
+      onProfileChange(null);
+  };
+
+  const ms = (seconds: number) => `${Math.round(seconds * 1000)} ms`;
+
+  return (
+    <div className="mt-6 pt-6 border-t border-slate-800 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="text-sm">
+            <div className="text-slate-400 mb-1 flex items-center gap-2"><Timer size={14}/> Latência</div>
+            {profile ? (
+                <div className="text-white">
+                    Microfone <span className="font-mono text-emerald-400">{ms(profile.captureLatency)}</span>
+                    {' · '}Voz <span className="font-mono text-emerald-400">{ms(profile.speechOnset)}</span>
+                    <span className="text-slate-500 text-xs ml-2">(calibrado em {new Date(profile.measuredAt).toLocaleDateString()})</span>
+                </div>
+            ) : (
+                <div className="text-slate-500">Sem calibração para este microfone (usa {ms(defaultCaptureLatency)}).</div>
+            )}
+            {step && <div className="text-blue-400 text-xs mt-1">{STEP_LABELS[step]}</div>}
+            {error && <div className="text-red-400 text-xs mt-1">{error}</div>}
+            {!step && !error && <div className="text-slate-600 text-xs mt-1">Coloque o microfone junto às colunas, em silêncio, antes de calibrar.</div>}
+        </div>
+        <div className="flex gap-2">
+            {profile && !step && (
+                <button onClick={resetCalibration} className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg" title="Apagar calibração">
+                    <X size={16} />
+                </button>
+            )}
+            <button
+                onClick={runCalibration}
+                disabled={disabled || step !== null}
+                className="bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white font-bold py-2 px-4 rounded-lg flex items-center gap-2"
+            >
+                {step ? <Loader2 size={16} className="animate-spin" /> : <RefreshCw size={16} />} {profile ? 'Recalibrar' : 'Calibrar Latência'}
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default LatencyCalibration;
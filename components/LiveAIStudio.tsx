@@ -0,0 +1,256 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, CameraOff, Loader2, Megaphone, Play, Radio, StopCircle } from 'lucide-react';
+import { downsampleTo16k, PCM_SAMPLE_RATE_INPUT, PCM_SAMPLE_RATE_OUTPUT } from '../utils/audio';
+import { detectVoiceActivity } from '../utils/voiceActivity';
+import { LiveTransport } from '../utils/liveTransport';
+import { LiveDescriptionSession, LiveSessionStatus } from '../utils/liveDescriptionSession';
+import { DescriptionPacer } from '../utils/descriptionPacer';
+import { COMMON_TRACK_LANGS, DEFAULT_TRACK_LANG } from '../utils/scriptTracks';
+import AudioVisualizer from './AudioVisualizer';
+
+// Configuração do Modo ao Vivo
+const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+const MIC_BUFFER_SIZE = 4096;       // ScriptProcessor: ~85ms a 48kHz por envio
+const DIALOGUE_WINDOW_SECONDS = 2;  // Janela do VAD (o ruído de fundo é estimado nela)
+const DIALOGUE_RECENT_FRAMES = 3;   // Últimos 300ms decidem se há diálogo agora
+const DIALOGUE_THRESHOLD = 0.5;
+const PACER_TICK_MS = 100;
+const FRAME_INTERVAL_MS = 1000;     // Imagens da TV: 1 por segundo (o limite do Live)
+const FRAME_WIDTH = 640;
+const MAX_TRANSCRIPTS = 6;
+
+const STATUS_LABELS: Record<LiveSessionStatus, string> = {
+  connecting: 'A LIGAR',
+  live: 'AO VIVO',
+  reconnecting: 'A RELIGAR',
+  closed: 'PARADO',
+  failed: 'SEM LIGAÇÃO'
+};
+
+function liveInstruction(lang: string): string {
+  return [
+    'You are a live audio describer for blind and low-vision viewers watching a film or TV show.',
+    'The audio you receive is the soundtrack captured by a microphone in the room; it is not a person talking to you.',
+    'Never answer, repeat or comment on the dialogue. Speak only in pauses of the dialogue.',
+    'When camera frames of the screen arrive, describe in one short sentence what matters visually: actions, settings, expressions, on-screen text.',
+    'Without frames, describe only meaningful non-dialogue sounds, sparingly. If there is nothing useful to add, stay silent.',
+    `Speak in the language with BCP-47 tag "${lang}", in the present tense, calmly and briefly.`
+  ].join('\n');
+}
+
+interface LiveAIStudioProps {
+  transport: LiveTransport | null; // Null sem chave da API nem servidor local
+  deviceId: string;
+  onLog: (message: string, type?: 'info' | 'error' | 'success') => void;
+}
+
+/**
+ * Modo sem guião: o micro (e, opcionalmente, a câmara apontada à TV) vai para uma sessão
+ * Gemini Live e as descrições devolvidas são tocadas nas pausas do diálogo.
+ */
+const LiveAIStudio: React.FC<LiveAIStudioProps> = ({ transport, deviceId, onLog }) => {
+  const [lang, setLang] = useState(DEFAULT_TRACK_LANG);
+  const [status, setStatus] = useState<LiveSessionStatus>('closed');
+  const [useCamera, setUseCamera] = useState(false);
+  const [isDescribing, setIsDescribing] = useState(false);
+  const [transcripts, setTranscripts] = useState<string[]>([]);
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+
+  const sessionRef = useRef<LiveDescriptionSession | null>(null);
+  const ctxRef = useRef<AudioContext | null>(null);
+  const streamsRef = useRef<MediaStream[]>([]);
+  const processorRef = useRef<ScriptProcessorNode | null>(null);
+  const playingRef = useRef<AudioBufferSourceNode | null>(null);
+  const timersRef = useRef<number[]>([]);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const dialogueWindowRef = useRef(new Float32Array(DIALOGUE_WINDOW_SECONDS * PCM_SAMPLE_RATE_INPUT));
+  const pacerRef = useRef(new DescriptionPacer(PCM_SAMPLE_RATE_OUTPUT, (d, reason) =>
+      onLog(`Descrição descartada (${reason}): "${d.transcript.substring(0, 30)}..."`, 'info')
+  ));
+
+  useEffect(() => () => stop(), []);
+
+  const start = async () => {
+      if (!transport) return;
+      stop();
+      try {
+          const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+          ctxRef.current = ctx;
+          // Cancelamento de eco: o micro não deve devolver ao modelo as próprias descrições
+          const mic = await navigator.mediaDevices.getUserMedia({
+              audio: { channelCount: 1, echoCancellation: true, noiseSuppression: false, autoGainControl: true, deviceId: deviceId ? { exact: deviceId } : undefined }
+          });
+          streamsRef.current.push(mic);
+          if (ctx.state === 'suspended') await ctx.resume();
+
+          const session = new LiveDescriptionSession(transport, {
+              model: LIVE_MODEL,
+              systemInstruction: liveInstruction(lang),
+              languageCode: lang
+          }, {
+              onStatus: setStatus,
+              onAudio: (pcm) => pacerRef.current.push(pcm),
+              onTurnComplete: (transcript) => {
+                  pacerRef.current.complete(transcript, ctx.currentTime);
+                  if (transcript) setTranscripts(prev => [transcript, ...prev].slice(0, MAX_TRANSCRIPTS));
+              },
+              onInterrupted: () => pacerRef.current.discardPartial(),
+              onLog: (message, type) => onLog(message, type)
+          });
+          sessionRef.current = session;
+
+          const source = ctx.createMediaStreamSource(mic);
+          const micAnalyser = ctx.createAnalyser();
+          micAnalyser.fftSize = 256;
+          source.connect(micAnalyser);
+          setAnalyser(micAnalyser);
+
+          const processor = ctx.createScriptProcessor(MIC_BUFFER_SIZE, 1, 1);
+          processor.onaudioprocess = (e) => {
+              const pcm16k = downsampleTo16k(e.inputBuffer.getChannelData(0), ctx.sampleRate);
+              session.sendAudio(pcm16k);
+              // Janela deslizante com os últimos segundos, para o VAD do ritmo
+              const dialogueWindow = dialogueWindowRef.current;
+              const keep = Math.max(0, dialogueWindow.length - pcm16k.length);
+              dialogueWindow.copyWithin(0, dialogueWindow.length - keep);
+              dialogueWindow.set(pcm16k.subarray(Math.max(0, pcm16k.length - dialogueWindow.length)), keep);
+              e.outputBuffer.getChannelData(0).fill(0);
+          };
+          source.connect(processor);
+          processor.connect(ctx.destination);
+          processorRef.current = processor;
+
+          timersRef.current.push(window.setInterval(() => pace(ctx), PACER_TICK_MS));
+          if (useCamera) await startCamera(session);
+          session.start();
+          onLog(`Modo ao vivo (${transport.name}, ${lang})`, 'info');
+      } catch (e) {
+          console.error(e);
+          onLog('Erro no modo ao vivo: ' + (e as Error).message, 'error');
+          stop();
+      }
+  };
+
+  // Diálogo no micro → ritmo; descrição pronta e pausa no diálogo → tocar
+  const pace = (ctx: AudioContext) => {
+      const now = ctx.currentTime;
+      const pacer = pacerRef.current;
+      const activity = detectVoiceActivity(dialogueWindowRef.current, PCM_SAMPLE_RATE_INPUT);
+      const recent = activity.subarray(Math.max(0, activity.length - DIALOGUE_RECENT_FRAMES));
+      const level = recent.reduce((sum, v) => sum + v, 0) / Math.max(1, recent.length);
+      pacer.observeDialogue(level > DIALOGUE_THRESHOLD, now);
+
+      const description = pacer.next(now);
+      if (!description) {
+          if (!pacer.isPlaying(now)) setIsDescribing(false);
+          return;
+      }
+      const buffer = ctx.createBuffer(1, description.pcm.length, description.sampleRate);
+      const channel = buffer.getChannelData(0);
+      for (let i = 0; i < description.pcm.length; i++) channel[i] = description.pcm[i] / 32768;
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.start();
+      playingRef.current = source;
+      setIsDescribing(true);
+  };
+
+  const startCamera = async (session: LiveDescriptionSession) => {
+      const camera = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      streamsRef.current.push(camera);
+      const video = videoRef.current;
+      if (!video) return;
+      video.srcObject = camera;
+      await video.play();
+
+      const canvas = document.createElement('canvas');
+      timersRef.current.push(window.setInterval(() => {
+          if (!video.videoWidth) return;
+          canvas.width = FRAME_WIDTH;
+          canvas.height = Math.round(FRAME_WIDTH * video.videoHeight / video.videoWidth);
+          canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height);
+          session.sendFrame(canvas.toDataURL('image/jpeg', 0.6).split(',')[1]);
+      }, FRAME_INTERVAL_MS));
+  };
+
+  const stop = () => {
+      sessionRef.current?.stop();
+      sessionRef.current = null;
+      timersRef.current.forEach(id => window.clearInterval(id));
+      timersRef.current = [];
+      try { playingRef.current?.stop(); } catch { /* Já terminou */ }
+      playingRef.current = null;
+      if (processorRef.current) processorRef.current.onaudioprocess = null;
+      processorRef.current = null;
+      streamsRef.current.forEach(s => s.getTracks().forEach(t => t.stop()));
+      streamsRef.current = [];
+      if (videoRef.current) videoRef.current.srcObject = null;
+      ctxRef.current?.close();
+      ctxRef.current = null;
+      pacerRef.current.reset();
+      dialogueWindowRef.current.fill(0);
+      setAnalyser(null);
+      setIsDescribing(false);
+      setStatus('closed');
+  };
+
+  const running = status !== 'closed' && status !== 'failed';
+
+  return (
+    <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-3 bg-slate-800 p-4 rounded-xl border border-slate-700">
+            <Radio size={20} className={status === 'live' ? 'text-red-400 animate-pulse' : 'text-slate-500'} />
+            <span className={`text-xs font-bold px-2 py-1 rounded-full border ${status === 'live' ? 'bg-red-500/20 text-red-300 border-red-500/40' : status === 'failed' ? 'bg-amber-500/20 text-amber-300 border-amber-500/40' : 'bg-slate-900 text-slate-400 border-slate-700'}`}>
+                {(status === 'connecting' || status === 'reconnecting') && <Loader2 size={12} className="inline animate-spin mr-1" />}
+                {STATUS_LABELS[status]}
+            </span>
+            <select value={lang} onChange={(e) => setLang(e.target.value)} disabled={running} className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200" title="Língua das descrições">
+                {COMMON_TRACK_LANGS.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+            <button
+                onClick={() => setUseCamera(!useCamera)}
+                disabled={running}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm ${useCamera ? 'bg-blue-600 text-white' : 'bg-slate-900 text-slate-400 border border-slate-700'} disabled:opacity-50`}
+                title="Enviar imagens da TV (câmara traseira) ao modelo"
+            >
+                {useCamera ? <Camera size={16} /> : <CameraOff size={16} />} Câmara
+            </button>
+            <div className="flex-1" />
+            {running ? (
+                <button onClick={stop} className="bg-red-500/10 hover:bg-red-500/20 border border-red-500/50 text-red-400 px-6 py-2 rounded-lg font-bold flex items-center gap-2">
+                    <StopCircle size={18} /> Parar
+                </button>
+            ) : (
+                <button onClick={start} disabled={!transport} className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white px-6 py-2 rounded-lg font-bold flex items-center gap-2" title={transport ? '' : 'Sem chave da API Gemini'}>
+                    <Play size={18} /> Iniciar
+                </button>
+            )}
+        </div>
+
+        <div className="grid md:grid-cols-2 gap-4">
+            <div className="relative bg-black rounded-xl overflow-hidden border border-slate-700 h-48">
+                <AudioVisualizer isActive={running} isSpeaking={isDescribing} analyser={analyser} label="Entrada (Microfone)" colorTheme="purple" />
+                {isDescribing && (
+                    <div className="absolute top-3 right-3 bg-purple-600/20 text-purple-300 border border-purple-500/50 px-3 py-1.5 rounded-full text-xs font-bold flex items-center gap-2 animate-pulse">
+                        <Megaphone size={14} /> A DESCREVER
+                    </div>
+                )}
+            </div>
+            <div className="bg-black rounded-xl overflow-hidden border border-slate-700 h-48 flex items-center justify-center">
+                <video ref={videoRef} muted playsInline className={`h-full w-full object-cover ${useCamera && running ? '' : 'hidden'}`} />
+                {!(useCamera && running) && <span className="text-xs text-slate-600">Sem imagem: só o som do filme</span>}
+            </div>
+        </div>
+
+        <div className="bg-slate-900 border border-slate-800 rounded-xl p-3 space-y-2 text-sm">
+            {transcripts.length === 0 && <span className="text-slate-600 italic text-xs">As descrições geradas aparecerão aqui...</span>}
+            {transcripts.map((t, i) => (
+                <p key={`${i}-${t}`} className={i === 0 ? 'text-white' : 'text-slate-500'}>{t}</p>
+            ))}
+        </div>
+    </div>
+  );
+};
+
+export default LiveAIStudio;
@@ -1,21 +1,83 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Type, Modality } from '@google/genai';
-import { Mic, MicOff, Film, Plus, Play, Trash2, StopCircle, Volume2, Loader2, Activity, Settings, FileAudio, RefreshCw, ArrowLeft, FileText, CheckCircle, Pause, Keyboard, Zap, X, Terminal, BrainCircuit, Waveform, Lock, Unlock, Megaphone } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Mic, MicOff, Film, Plus, Play, Trash2, StopCircle, Volume2, Loader2, Activity, Settings, FileAudio, RefreshCw, ArrowLeft, FileText, CheckCircle, Pause, Keyboard, Zap, X, Terminal, BrainCircuit, Waveform, Lock, Unlock, Megaphone, Pencil, Clock, AlertTriangle, Radio } from 'lucide-react';
 import { createPcmBlob, downsampleTo16k, base64ToUint8Array, decodeAudioData } from '../utils/audio';
-import { parseSRT, formatTime, SrtEntry } from '../utils/srt';
-import { AudioMatcher, MatchResult } from '../utils/audioMatcher';
+import { formatTime, SrtEntry, SpeechPriority } from '../utils/srt';
+import { importScriptFile, ScriptImport, SCRIPT_FILE_ACCEPT } from '../utils/scriptImport';
+import { MatchResult, MatchMethod, MIN_MATCH_CONFIDENCE, DIALOGUE_MIN_SECONDS } from '../utils/audioMatcher';
+import { WorkerAudioMatcher, MatcherCancelledError } from '../utils/workerAudioMatcher';
+import { SyncTracker, MIN_TRACKING_CONFIDENCE } from '../utils/syncTracker';
+import { SyncVerifier } from '../utils/syncVerifier';
+import { LiveSignalMonitor, LiveSignalState } from '../utils/liveSignalMonitor';
+import { AlignmentMap, identityAlignment, translateEntries, mapReferenceTime, removeScriptRange, restoreScriptRange, removedScriptRanges } from '../utils/alignmentMap';
+import { SPECTRAL_SAMPLE_RATE } from '../utils/spectralFingerprint';
+import { loadLatencyProfile, LatencyProfile } from '../utils/latencyProfiles';
+import { createLiveCapture, LiveCapture } from '../utils/audioCapture';
+import { VAD_SAMPLE_RATE, DialogueGap, detectVoiceActivity, subtitleActivity, findDialogueGaps } from '../utils/voiceActivity';
+import { VirtualClock } from '../utils/virtualClock';
+import { ScriptHistory } from '../utils/scriptEditor';
+import { SpeechAttributes, formatSpeechTag } from '../utils/speechAttributes';
+import { analyzeTimingFit, describeFit, CueFit } from '../utils/timingFit';
+import { SpeechRateModel, loadSpeechRateModels, speechRateModelFor } from '../utils/speechRateModel';
+import { ScriptTrack, COMMON_TRACK_LANGS, DEFAULT_TRACK_LANG, createScriptTrack, findTrack, replaceTrackEntries, normalizeLanguageTag } from '../utils/scriptTracks';
+import { pickVoice, voiceWarning } from '../utils/voiceSelection';
+import { GeminiDraftClient } from '../utils/draftScript';
+import { GeminiTranslationClient } from '../utils/scriptTranslation';
+import { GeminiLiveTransport, WebSocketLiveTransport } from '../utils/liveTransport';
+import { SpeechEngine, SpeechEngineKind, WebSpeechEngine, ClipSpeechEngine, DEFAULT_SPEECH_RATE } from '../utils/speechEngine';
+import { GeminiTtsRenderer, cachedClipSource, renderingClipSource } from '../utils/speechClips';
+import { hashFile, getCachedFingerprint, putCachedFingerprint, deleteCachedFingerprint } from '../utils/fingerprintCache';
 import AudioVisualizer from './AudioVisualizer';
+import LatencyCalibration from './LatencyCalibration';
+import ScriptEditor from './ScriptEditor';
+import ScriptImportReport from './ScriptImportReport';
+import TimingFitPanel from './TimingFitPanel';
+import DraftGenerator from './DraftGenerator';
+import LiveAIStudio from './LiveAIStudio';
+import RetimingPanel from './RetimingPanel';
+import ScriptTrackList from './ScriptTrackList';
+import SpeechEnginePanel from './SpeechEnginePanel';
+import StyleLintPanel from './StyleLintPanel';
+import TranslationPanel from './TranslationPanel';
+
+// --- Sync Constants ---
+
+const LATENCY_COMPENSATION = 0.5; // Segundos entre o som na TV e a chegada ao buffer do micro (sem calibração)
+const RATE_UPDATE_THRESHOLD = 0.001; // 0.1%: ~3.6s de drift por hora
+const MAX_MANUAL_OFFSET = 10; // Ajustes manuais até 10s durante o rastreio são tratados como offset
+const INTERRUPTION_GLOBAL_EVERY = 5; // Durante uma interrupção, 1 em cada 5 checks é um scan global
+const RUNTIME_CUT_UNCERTAINTY = 12; // Incerteza (s) do início de um corte visto em runtime (2 checks + janela)
+const MAX_RUNTIME_CUT = 600; // Saltos maiores são tratados como navegação do utilizador, não cortes
+const RUNTIME_CUT_CONFIRM_SECONDS = 20; // Rastreio contínuo depois do salto antes de o registar como corte
+const LIVE_BUFFER_SECONDS = 8; // Áudio do micro mantido no ring buffer
+const MIN_CAPTURE_SECONDS = 2.5; // Abaixo disto não há amostra suficiente para o match
+const DIALOGUE_BUFFER_SECONDS = 60; // Sync por diálogo: janelas longas, captura a 8kHz
+const DIALOGUE_TAIL_SECONDS = 60; // Relógio virtual continua um pouco além da última legenda
+const DRAFT_MIN_GAP_SECONDS = 2.5; // Rascunhos: pausas de diálogo mais curtas não levam descrição
+const DRAFT_GAP_MARGIN = 0.3;      // Afastamento da descrição em relação às falas
 
 // --- Types ---
 
 interface Movie {
   id: string;
   title: string;
-  srtEntries: SrtEntry[];
+  synopsis: string;                      // Enviada ao modelo nos rascunhos gerados
+  tracks: ScriptTrack[];                 // Versões do guião (uma por língua/variante)
+  activeTrackId: string;                 // Faixa lida no estúdio
   referenceAudioName: string;
   referenceAudioFile: File | null; 
+  scriptReferenceAudioName: string;
+  scriptReferenceAudioFile: File | null; // Versão do filme para a qual o guião foi escrito (se diferente)
+  alignmentMap: AlignmentMap | null;     // Guião → referência (null = mesma versão, sem cortes conhecidos)
+  dialogueSrtName: string;
+  dialogueEntries: SrtEntry[] | null;    // Legendas de diálogo: sincronização sem áudio de referência
 }
 
+/**
+ * Sem áudio de referência, o filme é sincronizado pela voz no micro contra as legendas de diálogo.
+ */
+const usesDialogueSync = (movie: Movie | null): boolean =>
+  !!movie && !movie.referenceAudioFile && !!movie.dialogueEntries && movie.dialogueEntries.length > 0;
+
 interface LiveDescriberProps {
   apiKey: string;
 }
@@ -29,15 +91,24 @@ interface AudioDevice {
 
 const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
   // UI State
-  const [view, setView] = useState<'library' | 'studio'>('library');
+  const [view, setView] = useState<'library' | 'studio' | 'live'>('library');
   const [movies, setMovies] = useState<Movie[]>([]);
   const [selectedMovie, setSelectedMovie] = useState<Movie | null>(null);
   
   // Creation State
   const [newMovieTitle, setNewMovieTitle] = useState('');
   const [tempSrt, setTempSrt] = useState<SrtEntry[]>([]);
+  const [tempSrtLang, setTempSrtLang] = useState(DEFAULT_TRACK_LANG);
   const [tempAudioName, setTempAudioName] = useState<string>('');
   const [tempAudioFile, setTempAudioFile] = useState<File | null>(null);
+  const [tempScriptAudioName, setTempScriptAudioName] = useState<string>('');
+  const [tempScriptAudioFile, setTempScriptAudioFile] = useState<File | null>(null);
+  const [tempDialogueName, setTempDialogueName] = useState<string>('');
+  const [tempDialogueEntries, setTempDialogueEntries] = useState<SrtEntry[]>([]);
+  const [importReport, setImportReport] = useState<(ScriptImport & { fileName: string; movieId?: string }) | null>(null); // Último ficheiro importado (movieId: nova faixa)
+  const [retimingTarget, setRetimingTarget] = useState<'new' | { movieId: string; trackId: string } | null>(null);
+  const [lintTarget, setLintTarget] = useState<{ movieId: string; trackId: string } | null>(null); // Faixa acabada de adicionar
+  const [translationTarget, setTranslationTarget] = useState<{ movieId: string; trackId: string } | null>(null);
 
   // Audio Config State
   const [audioDevices, setAudioDevices] = useState<AudioDevice[]>([]);
@@ -58,19 +129,29 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
   const [isPlayingRef, setIsPlayingRef] = useState(false); 
   
   // Mathematical Sync State
-  const [audioMatcher] = useState(() => new AudioMatcher());
+  const [audioMatcher] = useState(() => new WorkerAudioMatcher());
+  const [matchMethod, setMatchMethod] = useState<MatchMethod>('envelope');
   const [isProcessingMatrix, setIsProcessingMatrix] = useState(false);
+  const [matrixProgress, setMatrixProgress] = useState(0);
   const [isSyncActive, setIsSyncActive] = useState(false);
   const [syncConfidence, setSyncConfidence] = useState(0);
   const [lastSyncUpdate, setLastSyncUpdate] = useState<string>('');
   const [isLocked, setIsLocked] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [signalState, setSignalState] = useState<LiveSignalState>('matching');
 
   // AI State (Optional/Debug)
   const [aiDebugLog, setAiDebugLog] = useState<string[]>([]);
   const [isSpeaking, setIsSpeaking] = useState(false); 
   const [currentMovieTime, setCurrentMovieTime] = useState(0);
   const [lastSpokenText, setLastSpokenText] = useState<string>('');
+  const [speechModels, setSpeechModels] = useState<Record<string, SpeechRateModel>>(() => loadSpeechRateModels()); // Por nome de voz
+  const speakingCueRef = useRef<{ priority: SpeechPriority } | null>(null); // Linha a ser lida (para a prioridade)
+  const [webSpeech] = useState(() => new WebSpeechEngine(() => speechLangRef.current)); // Também o recurso dos motores de clips
+  const [speechEngineKind, setSpeechEngineKind] = useState<SpeechEngineKind>('webSpeech');
+  const speechEngineRef = useRef<SpeechEngine>(webSpeech); // Lido pelo speak/checkTTS (closures antigas)
   const [availableVoices, setAvailableVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [latencyProfile, setLatencyProfile] = useState<LatencyProfile | null>(null);
   
   // Refs
   const preFlightContextRef = useRef<AudioContext | null>(null);
@@ -78,11 +159,11 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
   // Studio Refs
   const studioContextRef = useRef<AudioContext | null>(null);
   const studioSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
-  const studioProcessorRef = useRef<ScriptProcessorNode | null>(null);
+  const liveCaptureRef = useRef<LiveCapture | null>(null); // Ring buffer com os últimos segundos do micro
   const studioGainRef = useRef<GainNode | null>(null);
   
   // Reference Audio Refs
-  const refAudioElementRef = useRef<HTMLAudioElement | null>(null);
+  const refAudioElementRef = useRef<HTMLAudioElement | VirtualClock | null>(null); // Relógio virtual no sync por diálogo
   const refSourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
   const highPrecisionLoopRef = useRef<number | undefined>(undefined);
 
@@ -91,13 +172,50 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
   const scriptContainerRef = useRef<HTMLDivElement | null>(null); // NEW: Container Ref
   const activeSrtRef = useRef<HTMLDivElement | null>(null);
   const currentMovieTimeRef = useRef<number>(0); 
-  const liveBufferRef = useRef<Float32Array[]>([]); 
+  const captureScratchRef = useRef<Float32Array | null>(null); // Reutilizado entre checks (vai e volta do worker)
   const syncIntervalRef = useRef<number | undefined>(undefined);
+  const isSyncCheckRunningRef = useRef<boolean>(false); // Evita checks sobrepostos enquanto o worker responde
+  const masterSourceFileRef = useRef<File | null>(null); // Ficheiro de referência que gerou a matriz atual
+  const dialogueSourceRef = useRef<SrtEntry[] | null>(null); // Legendas carregadas no worker (sync por diálogo)
   
   // Sync Stabilization Refs
-  const potentialSyncRef = useRef<{time: number, timestamp: number, count: number} | null>(null);
+  const verifierRef = useRef(new SyncVerifier()); // Verificação cruzada dos candidatos antes do lock
   const syncLockUntilRef = useRef<number>(0); 
   const isGlobalScanNeeded = useRef<boolean>(true); // Start needing a global scan
+  const playbackRateRef = useRef<number>(1); // Velocidade do filme face à matriz (PAL ≈ 1.0417)
+  const trackerRef = useRef(new SyncTracker());
+  const pendingCutRef = useRef<{ from: number; to: number } | null>(null); // Salto em frente à espera de confirmação
+  const isTrackingRef = useRef<boolean>(false); // Lock confirmado: checks locais contínuos
+  const manualOffsetRef = useRef<number>(0); // Ajuste fino do utilizador durante o rastreio
+  const signalMonitorRef = useRef(new LiveSignalMonitor()); // Pausas / anúncios no sinal live
+  const interruptionChecksRef = useRef<number>(0);
+  const currentCueIdRef = useRef<string | null>(null); // Última linha enviada para o TTS
+  const captureLatencyRef = useRef<number>(LATENCY_COMPENSATION); // Calibrada por microfone
+  const speechLeadRef = useRef<number>(0); // Antecipação do TTS (atraso de arranque da voz)
+  const [alignment, setAlignment] = useState<AlignmentMap>(identityAlignment());
+  const alignmentRef = useRef<AlignmentMap>(alignment); // Lido pelo loop de sync (closures antigas)
+  const playbackEntriesRef = useRef<SrtEntry[]>([]); // Linhas no tempo da referência (após o mapa de alinhamento)
+
+  // Faixa de guião ativa: a língua da faixa é a língua da leitura (salvo etiqueta `lang` na linha)
+  const activeTrack = selectedMovie ? findTrack(selectedMovie.tracks, selectedMovie.activeTrackId) : null;
+  const scriptEntries = activeTrack?.entries ?? [];
+  const speechLang = activeTrack?.lang ?? DEFAULT_TRACK_LANG;
+  const speechLangRef = useRef<string>(speechLang); // Lido pelo speak (closure com dependências próprias)
+  useEffect(() => { speechLangRef.current = speechLang; }, [speechLang]);
+
+  // O estúdio segue a referência: as linhas do guião passam pelo mapa de alinhamento
+  const playbackEntries = useMemo(
+      () => translateEntries(scriptEntries, alignment),
+      [scriptEntries, alignment]
+  );
+  useEffect(() => { playbackEntriesRef.current = playbackEntries; }, [playbackEntries]);
+
+  // Edição do guião no estúdio (tempos do guião, antes do mapa de alinhamento)
+  const [isEditingScript, setIsEditingScript] = useState(false);
+  const scriptHistoryRef = useRef(new ScriptHistory());
+  const currentScriptTime = mapReferenceTime(alignment, currentMovieTime);
+  const editingEntryId = currentScriptTime === null ? null
+      : scriptEntries.find(e => currentScriptTime >= e.startTime && currentScriptTime < e.endTime)?.id ?? null;
 
   // --- Init ---
 
@@ -129,19 +247,20 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
         cleanupStudioAudio();
         stopHighPrecisionLoop();
         if (syncIntervalRef.current) clearInterval(syncIntervalRef.current);
+        audioMatcher.terminate();
+        webSpeech.dispose();
     };
   }, []);
 
-  // --- TTS Watchdog (Chrome Fix) ---
+  // --- Latency Profile (por microfone) ---
   useEffect(() => {
-      const interval = setInterval(() => {
-          if (window.speechSynthesis.speaking) {
-              window.speechSynthesis.pause();
-              window.speechSynthesis.resume();
-          }
-      }, 5000); // Keep alive every 5s
-      return () => clearInterval(interval);
-  }, []);
+      setLatencyProfile(loadLatencyProfile(selectedDeviceId));
+  }, [selectedDeviceId]);
+
+  useEffect(() => {
+      captureLatencyRef.current = latencyProfile ? latencyProfile.captureLatency : LATENCY_COMPENSATION;
+      speechLeadRef.current = latencyProfile ? latencyProfile.speechOnset : 0;
+  }, [latencyProfile]);
 
   // --- Keyboard Shortcuts ---
   
@@ -154,11 +273,11 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
           const JUMP_SECONDS = 1;
           if (e.key === 'ArrowLeft') {
               e.preventDefault();
-              seekTo(Math.max(0, refAudioElementRef.current.currentTime - JUMP_SECONDS));
+              manualSeek(Math.max(0, refAudioElementRef.current.currentTime - JUMP_SECONDS));
           } 
           else if (e.key === 'ArrowRight') {
               e.preventDefault();
-              seekTo(Math.min(refAudioDuration || 99999, refAudioElementRef.current.currentTime + JUMP_SECONDS));
+              manualSeek(Math.min(refAudioDuration || 99999, refAudioElementRef.current.currentTime + JUMP_SECONDS));
           }
       };
       window.addEventListener('keydown', handleKeyDown);
@@ -172,27 +291,41 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
           if (!selectedDeviceId && audioDevices.length > 0) setSelectedDeviceId(audioDevices[0].deviceId);
           
           processedEntryIds.current = new Set();
+          alignmentRef.current = selectedMovie?.alignmentMap ?? identityAlignment();
+          setAlignment(alignmentRef.current);
           setCurrentMovieTime(0);
           currentMovieTimeRef.current = 0;
           setIsSyncActive(false);
           setSyncConfidence(0);
           setIsLocked(false);
-          liveBufferRef.current = [];
-          potentialSyncRef.current = null;
+          liveCaptureRef.current?.ring.clear();
+          verifierRef.current.reset();
           syncLockUntilRef.current = 0;
           isGlobalScanNeeded.current = true; // Reset to global scan on entry
+          isTrackingRef.current = false;
+          manualOffsetRef.current = 0;
+          signalMonitorRef.current.reset();
+          setSignalState('matching');
+          playbackRateRef.current = 1;
+          setPlaybackRate(1);
           setLastSpokenText(''); // Reset speech memory
+          setIsEditingScript(false);
+          scriptHistoryRef.current.clear();
+          // Sem áudio de referência só o diálogo é possível; com ele, o diálogo não se aplica
+          if (usesDialogueSync(selectedMovie)) changeMatchMethod('dialogue');
+          else if (matchMethod === 'dialogue') changeMatchMethod('envelope');
           
           initStudioAudio();
           initReferenceAudio();
           unlockTTS(); // Pre-warm the TTS engine
       } else {
           stopSync();
+          audioMatcher.cancel(); // Aborta matriz/matches em curso no worker
           cleanupStudioAudio();
           stopHighPrecisionLoop();
           // We do not auto-start preflight to avoid auth issues, wait for user click
           stopPreFlightTest();
-          window.speechSynthesis.cancel();
+          speechEngineRef.current.cancel();
       }
   }, [view]);
 
@@ -256,36 +389,243 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
           return false;
       }
       
+      const referenceFile = selectedMovie.referenceAudioFile;
       setIsProcessingMatrix(true);
-      appendLog("A construir modelo matemático...", 'info');
+      setMatrixProgress(0);
 
       try {
-          const arrayBuffer = await selectedMovie.referenceAudioFile.arrayBuffer();
+          // 1. Cache persistente (IndexedDB), indexada pelo hash do conteúdo
+          let cacheKey: string | null = null;
+          try {
+              cacheKey = await hashFile(referenceFile);
+              const cached = await getCachedFingerprint(cacheKey);
+              if (cached) {
+                  try {
+                      await audioMatcher.importMasterFingerprint(cached);
+                      masterSourceFileRef.current = referenceFile;
+                      appendLog("Modelo carregado da cache.", 'success');
+                      setIsProcessingMatrix(false);
+                      return true;
+                  } catch (e) {
+                      if (e instanceof MatcherCancelledError) throw e;
+                      appendLog("Cache inválida (" + (e as Error).message + "). A reconstruir...", 'info');
+                      await deleteCachedFingerprint(cacheKey);
+                  }
+              }
+          } catch (e) {
+              if (e instanceof MatcherCancelledError) throw e;
+              console.warn("[FingerprintCache]", e); // Sem IndexedDB: seguimos sem cache
+          }
+
+          // 2. Construção completa
+          appendLog("A construir modelo matemático...", 'info');
+          const arrayBuffer = await referenceFile.arrayBuffer();
           const tempCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
           const audioBuffer = await tempCtx.decodeAudioData(arrayBuffer);
+          tempCtx.close();
           
-          audioMatcher.generateMasterFingerprint(audioBuffer);
-          
+          await audioMatcher.generateMasterFingerprint(audioBuffer, setMatrixProgress);
+          masterSourceFileRef.current = referenceFile;
           appendLog("Modelo Construído com Sucesso.", 'success');
           setIsProcessingMatrix(false);
-          tempCtx.close();
+
+          if (cacheKey) {
+              const key = cacheKey;
+              audioMatcher.exportMasterFingerprint()
+                  .then(data => putCachedFingerprint(key, data))
+                  .catch(e => console.warn("[FingerprintCache]", e));
+          }
+          return true;
+      } catch (e) {
+          if (e instanceof MatcherCancelledError) {
+              appendLog("Construção do modelo cancelada.", 'info');
+          } else {
+              console.error(e);
+              appendLog("Erro ao processar matriz: " + (e as Error).message, 'error');
+          }
+          setIsProcessingMatrix(false);
+          return false;
+      }
+  };
+
+  /**
+   * Decodifica um ficheiro de áudio para mono a `sampleRate` (o browser reamostra).
+   */
+  const decodeFileAt = async (file: File, sampleRate: number): Promise<Float32Array> => {
+      const offlineCtx = new OfflineAudioContext(1, 1, sampleRate);
+      const audioBuffer = await offlineCtx.decodeAudioData(await file.arrayBuffer());
+      return audioBuffer.getChannelData(0);
+  };
+
+  /**
+   * Pausas de diálogo no tempo do guião, para os rascunhos: pela voz no áudio da versão do guião
+   * (ou da referência, passado pelo mapa de alinhamento) ou, sem áudio, pelas legendas de diálogo.
+   */
+  const findScriptGaps = async (): Promise<DialogueGap[]> => {
+      const movie = selectedMovie;
+      if (!movie) return [];
+      const audioFile = movie.scriptReferenceAudioFile ?? movie.referenceAudioFile;
+      if (!audioFile) {
+          if (!movie.dialogueEntries?.length) throw new Error('Sem áudio nem legendas de diálogo para encontrar as pausas');
+          return findDialogueGaps(subtitleActivity(movie.dialogueEntries), DRAFT_MIN_GAP_SECONDS, DRAFT_GAP_MARGIN);
+      }
+
+      const pcm = await decodeFileAt(audioFile, VAD_SAMPLE_RATE);
+      const gaps = findDialogueGaps(detectVoiceActivity(pcm, VAD_SAMPLE_RATE), DRAFT_MIN_GAP_SECONDS, DRAFT_GAP_MARGIN);
+      if (movie.scriptReferenceAudioFile) return gaps;
+
+      // Pausas da referência: só as que existem inteiras no guião (não atravessam cortes)
+      return gaps.flatMap(gap => {
+          const startTime = mapReferenceTime(alignmentRef.current, gap.startTime);
+          const endTime = mapReferenceTime(alignmentRef.current, gap.endTime);
+          if (startTime === null || endTime === null || Math.abs((endTime - startTime) - (gap.endTime - gap.startTime)) > 0.01) return [];
+          return [{ startTime, endTime }];
+      });
+  };
+
+  /**
+   * Versão alternativa: alinha a referência do espectador com a versão do guião
+   * e guarda o mapa no filme (as linhas passam a ser traduzidas para a referência).
+   */
+  const alignScriptVersion = async () => {
+      const movie = selectedMovie;
+      if (!movie?.scriptReferenceAudioFile || !movie.referenceAudioFile) return false;
+
+      setIsProcessingMatrix(true);
+      setMatrixProgress(0);
+      appendLog("A alinhar a versão do guião com a referência...", 'info');
+      try {
+          // 8kHz chega para o envelope e reduz a memória das duas versões
+          const scriptPcm = await decodeFileAt(movie.scriptReferenceAudioFile, SPECTRAL_SAMPLE_RATE);
+          const referencePcm = await decodeFileAt(movie.referenceAudioFile, SPECTRAL_SAMPLE_RATE);
+          const map = await audioMatcher.buildAlignmentMap(scriptPcm, referencePcm, SPECTRAL_SAMPLE_RATE, setMatrixProgress);
+
+          const removed = removedScriptRanges(map);
+          const removedSeconds = removed.reduce((sum, r) => sum + (r.end - r.start), 0);
+          appendLog(`Versões alinhadas: ${map.segments.length} segmentos, ${removed.length} cenas ausentes (${formatTime(removedSeconds)}).`, 'success');
+
+          updateAlignment(movie.id, map);
+          setIsProcessingMatrix(false);
           return true;
       } catch (e) {
-          console.error(e);
-          appendLog("Erro ao processar matriz: " + (e as Error).message, 'error');
+          if (e instanceof MatcherCancelledError) {
+              appendLog("Alinhamento cancelado.", 'info');
+          } else {
+              console.error(e);
+              appendLog("Erro ao alinhar versões: " + (e as Error).message, 'error');
+          }
           setIsProcessingMatrix(false);
           return false;
       }
   };
 
+  const updateAlignment = (movieId: string, map: AlignmentMap) => {
+      alignmentRef.current = map;
+      setAlignment(map);
+      setMovies(prev => prev.map(m => m.id === movieId ? { ...m, alignmentMap: map } : m));
+      setSelectedMovie(prev => prev && prev.id === movieId ? { ...prev, alignmentMap: map } : prev);
+  };
+
+  const updateTrackEntries = (movieId: string, trackId: string, entries: SrtEntry[]) => {
+      setMovies(prev => prev.map(m => m.id === movieId ? { ...m, tracks: replaceTrackEntries(m.tracks, trackId, entries) } : m));
+      setSelectedMovie(prev => prev && prev.id === movieId ? { ...prev, tracks: replaceTrackEntries(prev.tracks, trackId, entries) } : prev);
+  };
+
+  const updateMovie = (movieId: string, update: (movie: Movie) => Movie) => {
+      setMovies(prev => prev.map(m => m.id === movieId ? update(m) : m));
+      setSelectedMovie(prev => prev && prev.id === movieId ? update(prev) : prev);
+  };
+
+  /**
+   * Troca a faixa lida, também a meio da sessão: a leitura atual é interrompida e a nova faixa
+   * continua a partir da linha seguinte (as linhas já começadas não são lidas a meio).
+   */
+  const switchTrack = (movieId: string, trackId: string) => {
+      updateMovie(movieId, m => ({ ...m, activeTrackId: trackId }));
+      if (view !== 'studio' || selectedMovie?.id !== movieId) return;
+
+      const track = findTrack(selectedMovie.tracks, trackId);
+      if (!track) return;
+      speechEngineRef.current.cancel();
+      const now = currentMovieTimeRef.current + speechLeadRef.current;
+      processedEntryIds.current = new Set(translateEntries(track.entries, alignmentRef.current).filter(e => e.startTime <= now).map(e => e.id));
+      setIsEditingScript(false);
+      scriptHistoryRef.current.clear();
+
+      appendLog(`Faixa: ${track.name} (${track.lang})`, 'info');
+      const warning = voiceWarning(pickVoice(availableVoices, track.lang), track.lang);
+      if (warning) appendLog(warning, 'error');
+  };
+
+  /**
+   * Tempos do guião reajustados na biblioteca. O mapa de alinhamento estava no tempo antigo
+   * do guião: é descartado (o de referência volta a ser calculado ao entrar no estúdio).
+   */
+  const applyRetiming = (entries: SrtEntry[]) => {
+      if (retimingTarget === 'new') setTempSrt(entries);
+      else if (retimingTarget) {
+          const { movieId, trackId } = retimingTarget;
+          setMovies(prev => prev.map(m => m.id === movieId ? { ...m, tracks: replaceTrackEntries(m.tracks, trackId, entries), alignmentMap: null } : m));
+      }
+      setRetimingTarget(null);
+  };
+
+  /**
+   * Sem referência do guião, a referência É a versão do guião: um salto em frente
+   * durante o rastreio pode ser um corte desta versão ou o utilizador a avançar o filme.
+   * Fica pendente até o rastreio seguir o filme depois do salto (`confirmRuntimePosition`).
+   */
+  const recordRuntimeJump = (fromTime: number, toTime: number) => {
+      if (!selectedMovie || selectedMovie.scriptReferenceAudioFile) return;
+      const cutLength = toTime - fromTime;
+      if (cutLength <= RUNTIME_CUT_UNCERTAINTY || cutLength > MAX_RUNTIME_CUT) return;
+      pendingCutRef.current = { from: fromTime, to: toTime };
+  };
+
+  /**
+   * Corte confirmado: regista a parte certamente removida, para que as linhas
+   * dessa cena sejam saltadas daqui em diante.
+   */
+  const recordRuntimeCut = (fromTime: number, toTime: number) => {
+      if (!selectedMovie) return;
+      const map = removeScriptRange(alignmentRef.current, fromTime, toTime - RUNTIME_CUT_UNCERTAINTY);
+      updateAlignment(selectedMovie.id, map);
+      appendLog(`Corte nesta versão: ${formatTime(fromTime)} → ${formatTime(toTime)}`, 'info');
+  };
+
+  /**
+   * Rastreio confirmado em `time`. Um salto pendente passa a corte quando o filme continua
+   * depois dele e é descartado se o rastreio voltar para trás; uma zona marcada como corte
+   * em runtime onde o filme está a passar afinal existe.
+   */
+  const confirmRuntimePosition = (time: number) => {
+      const pending = pendingCutRef.current;
+      if (pending && time < pending.to) pendingCutRef.current = null;
+      else if (pending && time >= pending.to + RUNTIME_CUT_CONFIRM_SECONDS) {
+          pendingCutRef.current = null;
+          recordRuntimeCut(pending.from, pending.to);
+      }
+
+      const current = alignmentRef.current;
+      if (!selectedMovie || current.source !== 'runtime') return;
+      if (!removedScriptRanges(current).some(r => time >= r.start && time < r.end)) return;
+      updateAlignment(selectedMovie.id, restoreScriptRange(current, time));
+      appendLog(`Cena em ${formatTime(time)} existe nesta versão. Corte removido.`, 'info');
+  };
+
   // --- Audio Logic: Studio ---
 
   const initReferenceAudio = () => {
+      if (usesDialogueSync(selectedMovie)) {
+          initVirtualClock();
+          return;
+      }
       if (!selectedMovie?.referenceAudioFile) return;
       const fileUrl = URL.createObjectURL(selectedMovie.referenceAudioFile);
       const audio = new Audio(fileUrl);
       audio.crossOrigin = "anonymous";
       audio.loop = false;
+      audio.playbackRate = playbackRateRef.current;
       
       audio.onloadedmetadata = () => setRefAudioDuration(audio.duration);
       audio.onplay = () => { setIsPlayingRef(true); startHighPrecisionLoop(); };
@@ -295,6 +635,22 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
       refAudioElementRef.current = audio;
   };
 
+  /**
+   * Sync por diálogo: não há áudio para tocar, o relógio do filme é virtual.
+   */
+  const initVirtualClock = () => {
+      const entries = [...(selectedMovie?.dialogueEntries ?? []), ...(selectedMovie?.tracks.flatMap(t => t.entries) ?? [])];
+      const duration = entries.reduce((max, e) => Math.max(max, e.endTime), 0) + DIALOGUE_TAIL_SECONDS;
+      const clock = new VirtualClock(duration);
+      clock.playbackRate = playbackRateRef.current;
+      clock.onplay = () => { setIsPlayingRef(true); startHighPrecisionLoop(); };
+      clock.onpause = () => setIsPlayingRef(false);
+
+      setRefAudioDuration(duration);
+      startHighPrecisionLoop();
+      refAudioElementRef.current = clock;
+  };
+
   const startHighPrecisionLoop = () => {
       stopHighPrecisionLoop();
       const loop = () => {
@@ -341,26 +697,19 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
           const micAnalyser = ctx.createAnalyser();
           micAnalyser.fftSize = 256;
           setStudioAnalyser(micAnalyser);
-          const processor = ctx.createScriptProcessor(4096, 1, 1);
-          
-          processor.onaudioprocess = (e) => {
-              const input = e.inputBuffer.getChannelData(0);
-              const chunk = new Float32Array(input);
-              liveBufferRef.current.push(chunk);
-              if (liveBufferRef.current.length > 90) { // Keep ~8 sec
-                  liveBufferRef.current.shift();
-              }
-              const output = e.outputBuffer.getChannelData(0);
-              for (let i = 0; i < output.length; i++) output[i] = 0;
-          };
 
           micSource.connect(booster);
           booster.connect(micAnalyser);
-          booster.connect(processor);
-          processor.connect(ctx.destination);
-          studioProcessorRef.current = processor;
-
-          if (refAudioElementRef.current) {
+          // Envelope/espectral sem downsampling: a matriz de envelope é calculada sobre a banda completa
+          // da referência. O diálogo só precisa da banda da voz, mas de uma janela muito mais longa.
+          const capture = usesDialogueSync(selectedMovie)
+              ? await createLiveCapture(ctx, booster, DIALOGUE_BUFFER_SECONDS, { targetSampleRate: VAD_SAMPLE_RATE })
+              : await createLiveCapture(ctx, booster, LIVE_BUFFER_SECONDS);
+          liveCaptureRef.current = capture;
+          captureScratchRef.current = null;
+          appendLog(`Captura do micro: ${capture.mode} (${capture.sampleRate}Hz)`, 'info');
+
+          if (refAudioElementRef.current instanceof HTMLAudioElement) {
               try {
                   const refSource = ctx.createMediaElementSource(refAudioElementRef.current);
                   refSourceNodeRef.current = refSource;
@@ -393,7 +742,7 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
   };
 
   const cleanupStudioAudio = () => {
-      if (studioProcessorRef.current) { studioProcessorRef.current.disconnect(); studioProcessorRef.current = null; }
+      if (liveCaptureRef.current) { liveCaptureRef.current.disconnect(); liveCaptureRef.current = null; }
       if (studioSourceRef.current) { studioSourceRef.current.disconnect(); studioSourceRef.current = null; }
       if (studioGainRef.current) { studioGainRef.current.disconnect(); studioGainRef.current = null; }
       if (studioStream) { studioStream.getTracks().forEach(t => t.stop()); setStudioStream(null); }
@@ -420,83 +769,136 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
   // --- TTS Logic ---
 
   const unlockTTS = () => {
-      // Create a dummy utterance to unlock speech synthesis on iOS/Safari/Chrome
-      if (window.speechSynthesis) {
-          window.speechSynthesis.resume(); // Ensure not paused
-          const utterance = new SpeechSynthesisUtterance("Ativado");
-          utterance.volume = 0; // Silent unlock
-          window.speechSynthesis.speak(utterance);
-      }
+      // Os browsers só deixam tocar depois de um gesto do utilizador (iOS/Safari/Chrome)
+      speechEngineRef.current.unlock();
   };
 
+  // Use stored voices state or get fresh
+  const installedVoices = () => availableVoices.length > 0 ? availableVoices : window.speechSynthesis.getVoices();
+
+  /**
+   * Utterance da voz do browser, como na leitura (partilhada com o teste e a calibração).
+   */
+  const createUtterance = (text: string, attributes: SpeechAttributes = {}) => webSpeech.createUtterance(text, attributes);
+
+  // Motor de voz: os de clips tocam num AudioContext e recorrem à voz do browser para as linhas sem clip
+  const ttsRenderer = useMemo(() => apiKey ? new GeminiTtsRenderer(apiKey) : null, [apiKey]);
+  const clipNamespace = selectedMovie?.id ?? ''; // Pelo id: filmes com o mesmo título não partilham clips
+  const speechEngine = useMemo<SpeechEngine>(() => {
+      if (speechEngineKind === 'webSpeech' || (speechEngineKind === 'gemini' && !ttsRenderer)) return webSpeech;
+      const onFallback = (text: string, reason: string) => appendLog(`Voz do browser (${reason}): "${text.substring(0, 30)}..."`, 'info');
+      return speechEngineKind === 'gemini'
+          ? new ClipSpeechEngine('gemini', 'Gemini TTS', renderingClipSource(clipNamespace, ttsRenderer!), webSpeech, () => speechLangRef.current, onFallback)
+          : new ClipSpeechEngine('clips', 'Clips pré-gerados', cachedClipSource(clipNamespace), webSpeech, () => speechLangRef.current, onFallback);
+  }, [speechEngineKind, ttsRenderer, clipNamespace]);
+  useEffect(() => {
+      speechEngineRef.current = speechEngine;
+      return () => { if (speechEngine !== webSpeech) speechEngine.dispose(); };
+  }, [speechEngine]);
+  const speechCues = useMemo(() => scriptEntries.map(e => ({ text: e.text, attributes: e })), [scriptEntries]);
+
+  // Voz da faixa ativa; sem voz da língua, um aviso permanente no estúdio
+  const trackVoice = useMemo(() => pickVoice(availableVoices, speechLang), [availableVoices, speechLang]);
+  const trackVoiceWarning = availableVoices.length > 0 ? voiceWarning(trackVoice, speechLang) : null;
+
+  const draftClient = useMemo(() => apiKey ? new GeminiDraftClient(apiKey) : null, [apiKey]);
+  const translationClient = useMemo(() => apiKey ? new GeminiTranslationClient(apiKey) : null, [apiKey]);
+  // Modo ao vivo: LIVE_WS_URL aponta para um servidor local que imita o Gemini Live (testes)
+  const liveTransport = useMemo(
+      () => process.env.LIVE_WS_URL ? new WebSocketLiveTransport(process.env.LIVE_WS_URL) : apiKey ? new GeminiLiveTransport(apiKey) : null,
+      [apiKey]
+  );
+
+  // Encaixe das linhas no tempo disponível, com o modelo de velocidade da voz que lê cada uma
+  const defaultVoiceName = trackVoice.voice?.name;
+  const timingFits = useMemo(() => {
+      const modelFor = (entry: SrtEntry) => {
+          const voiceName = entry.voice || entry.lang ? pickVoice(availableVoices, entry.lang ?? speechLang, entry.voice).voice?.name : defaultVoiceName;
+          return speechRateModelFor(speechModels, voiceName);
+      };
+      const fits = analyzeTimingFit(scriptEntries, { defaultRate: DEFAULT_SPEECH_RATE, modelFor });
+      return new Map<string, CueFit>(fits.map(fit => [fit.id, fit]));
+  }, [scriptEntries, speechLang, speechModels, availableVoices, defaultVoiceName]);
+
   const manualTestVoice = () => {
-      window.speechSynthesis.cancel();
-      window.speechSynthesis.resume();
-      const utterance = new SpeechSynthesisUtterance("Isto é um teste de voz.");
-      utterance.lang = 'pt-PT';
-      utterance.rate = 1.25;
-      const voices = window.speechSynthesis.getVoices();
-      const ptVoice = voices.find(v => v.lang === 'pt-PT') || voices.find(v => v.lang.includes('pt'));
-      if (ptVoice) utterance.voice = ptVoice;
-      window.speechSynthesis.speak(utterance);
+      speechEngineRef.current.cancel();
+      speechEngineRef.current.speak("Isto é um teste de voz.", {});
   };
 
-  const speak = useCallback((text: string) => {
-    if (!window.speechSynthesis) {
-        appendLog("TTS não suportado no browser", 'error');
-        return;
-    }
-    
+  /**
+   * @param delay Segundos até ao início da linha (os motores de clips agendam a leitura para esse instante)
+   */
+  const speak = useCallback((text: string, attributes: SpeechAttributes = {}, delay = 0) => {
+    const engine = speechEngineRef.current;
+
     // Safety check: if currently speaking exactly the same text, don't restart
     // But if text is different (or last spoke finished), allow it
-    if (window.speechSynthesis.speaking && text === lastSpokenText) return;
-    
-    // Ensure engine is running
-    window.speechSynthesis.resume();
-    
-    // Important: Cancel any pending/current speech to prioritize the new sync point
-    window.speechSynthesis.cancel();
-
-    const utterance = new SpeechSynthesisUtterance(text);
-    utterance.lang = 'pt-PT'; 
-    utterance.rate = 1.25; 
-    utterance.volume = 1.0;
-    
-    // Use stored voices state or get fresh
-    let voices = availableVoices;
-    if (voices.length === 0) voices = window.speechSynthesis.getVoices();
-
-    const ptVoice = voices.find(v => v.lang === 'pt-PT') || voices.find(v => v.lang.includes('pt'));
-    if (ptVoice) utterance.voice = ptVoice;
-    else appendLog("Voz PT não encontrada, usando padrão", 'info');
-    
-    utterance.onstart = () => {
-        setIsSpeaking(true);
-        appendLog(`Lendo: "${text.substring(0, 30)}..."`, 'info');
-    };
-    utterance.onend = () => setIsSpeaking(false);
-    utterance.onerror = (e) => {
+    if (engine.speaking && text === lastSpokenText) return;
+
+    // Prioridade: 'low' não interrompe nada; 'normal' não interrompe uma linha 'high'
+    const priority = attributes.priority ?? 'normal';
+    if (engine.speaking && (priority === 'low' || (priority === 'normal' && speakingCueRef.current?.priority === 'high'))) {
+        appendLog(`Linha saltada (prioridade ${priority}): "${text.substring(0, 30)}..."`, 'info');
+        return;
+    }
+
+    // A falta de voz para a faixa está sempre visível no estúdio; aqui só as linhas com voz/língua próprias
+    if (engine.kind === 'webSpeech' && (attributes.voice || attributes.lang)) {
+        const lang = attributes.lang ?? speechLangRef.current;
+        const warning = voiceWarning(pickVoice(installedVoices(), lang, attributes.voice), lang, attributes.voice);
+        if (warning) appendLog(warning, 'info');
+    }
+
+    // O fim de uma linha cancelada pode chegar depois de a seguinte começar
+    const cue = { priority };
+    const finished = () => {
+        if (speakingCueRef.current !== cue) return;
+        speakingCueRef.current = null;
         setIsSpeaking(false);
-        console.error("TTS Error", e);
     };
-    
+    speakingCueRef.current = cue;
+
     setLastSpokenText(text);
-    window.speechSynthesis.speak(utterance);
+    engine.speak(text, attributes, {
+        onStart: () => {
+            setIsSpeaking(true);
+            appendLog(`Lendo: "${text.substring(0, 30)}..."`, 'info');
+        },
+        onEnd: finished,
+        onError: (message) => {
+            console.error("TTS Error", message);
+            appendLog(message, 'error');
+        }
+    }, delay);
   }, [lastSpokenText, availableVoices]);
 
+  // Os motores de clips preparam as próximas linhas (leitura e descodificação) para arrancarem a tempo
+  const prefetchSpeech = (time: number) => {
+      const upcoming = playbackEntriesRef.current.filter(e => e.startTime > time && !processedEntryIds.current.has(e.id));
+      speechEngineRef.current.prefetch(upcoming.map(e => ({ text: e.text, attributes: e })));
+  };
+
   const checkTTS = (time: number) => {
       if (!selectedMovie) return;
-      
-      const entryToPlay = selectedMovie.srtEntries.find(entry => {
+
+      // A voz do browser demora a arrancar (medido na calibração): disparar mais cedo para soar
+      // no início da linha. Os motores de clips agendam a leitura com uma antecedência fixa.
+      const engine = speechEngineRef.current;
+      const speechTime = time + (engine.lookahead ?? speechLeadRef.current);
+
+      const entryToPlay = playbackEntriesRef.current.find(entry => {
         // Broadened check: is the current time ANYWHERE inside the entry window?
-        const isWithinWindow = time >= entry.startTime && time < entry.endTime;
+        const isWithinWindow = speechTime >= entry.startTime && speechTime < entry.endTime;
         const isNotPlayed = !processedEntryIds.current.has(entry.id);
         return isWithinWindow && isNotPlayed;
       });
 
       if (entryToPlay) {
         processedEntryIds.current.add(entryToPlay.id);
-        speak(entryToPlay.text);
+        currentCueIdRef.current = entryToPlay.id;
+        // Tempo real até ao início da linha (o filme pode correr mais depressa do que a referência)
+        speak(entryToPlay.text, entryToPlay, Math.max(0, (entryToPlay.startTime - time) / playbackRateRef.current));
+        prefetchSpeech(entryToPlay.startTime);
       }
   };
 
@@ -524,12 +926,17 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
     }
   }, [currentMovieTime]);
 
-  const seekTo = (time: number) => {
+  /**
+   * @param opts.keepTracking Correções do rastreio não reiniciam o lock
+   * @param opts.keepSpoken Não repetir a linha atual (pequenas correções)
+   */
+  const seekTo = (time: number, opts: { keepTracking?: boolean; keepSpoken?: boolean } = {}) => {
       if (refAudioElementRef.current) {
           const safeTime = Math.max(0, Math.min(refAudioDuration || 9999, time));
           const diff = Math.abs(refAudioElementRef.current.currentTime - safeTime);
           if (diff > 0.5) { 
               refAudioElementRef.current.currentTime = safeTime;
+              refAudioElementRef.current.playbackRate = playbackRateRef.current;
               if (refAudioElementRef.current.paused) refAudioElementRef.current.play();
           }
       }
@@ -541,48 +948,95 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
       // We only keep IDs of entries that have ended before the new time
       // This allows re-playing entries if we seek back, and ensures current entry plays if we seek into it
       const newProcessed = new Set<string>();
-      selectedMovie?.srtEntries.forEach(entry => {
+      playbackEntriesRef.current.forEach(entry => {
           if (entry.endTime < time) {
               newProcessed.add(entry.id);
+          } else if (opts.keepSpoken && processedEntryIds.current.has(entry.id) && entry.startTime <= time) {
+              newProcessed.add(entry.id);
           }
       });
       processedEntryIds.current = newProcessed;
       // Reset Last Spoken text so we can repeat a line if we seeked back to it
-      setLastSpokenText('');
+      if (!opts.keepSpoken) setLastSpokenText('');
 
       // Immediately check TTS for the new time
       checkTTS(time);
+      prefetchSpeech(time);
+
+      if (opts.keepTracking) return;
 
       // Reset lock to verify new position
       setIsLocked(false);
+      isTrackingRef.current = false;
       syncLockUntilRef.current = Date.now() + 5000; 
   };
+
+  /**
+   * Seeks do utilizador (setas, ±5s, slider). Durante o rastreio, pequenos ajustes
+   * passam a ser um offset permanente em vez de serem desfeitos pelo tracker.
+   */
+  const manualSeek = (time: number) => {
+      const delta = time - currentMovieTimeRef.current;
+      if (isTrackingRef.current && Math.abs(delta) <= MAX_MANUAL_OFFSET) {
+          manualOffsetRef.current += delta;
+          trackerRef.current.shift(delta);
+          seekTo(time, { keepTracking: true, keepSpoken: true });
+          return;
+      }
+      seekTo(time);
+  };
   
+  /**
+   * O relógio do estúdio (elemento de referência) passa a avançar à velocidade do filme,
+   * para que os tempos do SRT continuem alinhados durante toda a sessão.
+   */
+  const applyPlaybackRate = (rate: number) => {
+      playbackRateRef.current = rate;
+      setPlaybackRate(rate);
+      if (refAudioElementRef.current) refAudioElementRef.current.playbackRate = rate;
+  };
+
   const forceResync = () => {
+      isTrackingRef.current = false;
+      signalMonitorRef.current.reset();
+      setSignalState('matching');
       setIsLocked(false);
       syncLockUntilRef.current = 0;
-      potentialSyncRef.current = null;
+      verifierRef.current.reset();
       isGlobalScanNeeded.current = true; // FORCE FULL SCAN
       // IMPORTANT: Clear buffer to avoid matching old audio data
-      liveBufferRef.current = [];
+      liveCaptureRef.current?.ring.clear();
       setLastSyncUpdate("A analisar filme completo...");
       setSyncConfidence(0);
       appendLog("Scan Global Solicitado", 'info');
   };
 
+  const changeMatchMethod = (method: MatchMethod) => {
+      audioMatcher.setMethod(method);
+      setMatchMethod(method);
+      appendLog(`Método de match: ${method === 'spectral' ? 'Espectral (hashes)' : method === 'dialogue' ? 'Diálogo (voz + legendas)' : 'Envelope (RMS)'}`, 'info');
+  };
+
   // --- MATHEMATICAL SYNC ENGINE ---
 
   const startSync = async () => {
-      if (!audioMatcher['masterEnvelope']) {
+      if (usesDialogueSync(selectedMovie)) {
+           const success = await loadDialogueTrack();
+           if (!success) return;
+      } else if (!audioMatcher.hasMasterFingerprint() || masterSourceFileRef.current !== selectedMovie?.referenceAudioFile) {
            const success = await processReferenceFile();
            if (!success) return;
       }
+      if (selectedMovie?.scriptReferenceAudioFile && selectedMovie.alignmentMap?.source !== 'reference') {
+           const success = await alignScriptVersion();
+           if (!success) return;
+      }
 
       setIsSyncActive(true);
       setIsLocked(false);
       isGlobalScanNeeded.current = true; // Always start with global
       // Clear buffer on start to avoid noise at beginning matching wrong part
-      liveBufferRef.current = [];
+      liveCaptureRef.current?.ring.clear();
       
       appendLog("A iniciar motor de correlação...", 'info');
       unlockTTS(); // Ensure TTS is ready
@@ -594,134 +1048,257 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
       }, 2000); 
   };
 
+  /**
+   * Modelo do sync por diálogo: os tempos das legendas de diálogo, carregados no worker.
+   */
+  const loadDialogueTrack = async () => {
+      const entries = selectedMovie?.dialogueEntries;
+      if (!entries) return false;
+      if (audioMatcher.hasDialogueTrack() && dialogueSourceRef.current === entries) return true;
+      try {
+          await audioMatcher.loadDialogueTrack(entries);
+          dialogueSourceRef.current = entries;
+          appendLog(`Sync por diálogo: ${entries.length} legendas. Sem áudio de referência.`, 'success');
+          return true;
+      } catch (e) {
+          if (!(e instanceof MatcherCancelledError)) appendLog("Erro ao carregar legendas de diálogo: " + (e as Error).message, 'error');
+          return false;
+      }
+  };
+
   const stopSync = () => {
       setIsSyncActive(false);
+      isSyncCheckRunningRef.current = false;
       setSyncConfidence(0);
-      potentialSyncRef.current = null;
+      verifierRef.current.reset();
       syncLockUntilRef.current = 0;
+      isTrackingRef.current = false;
+      signalMonitorRef.current.reset();
+      setSignalState('matching');
       setIsLocked(false);
       if (syncIntervalRef.current) clearInterval(syncIntervalRef.current);
+      syncIntervalRef.current = undefined;
       appendLog("Sincronização parada", 'info');
   };
 
-  const runSyncCheck = () => {
+  const runSyncCheck = async () => {
+      if (isSyncCheckRunningRef.current) return;
+      isSyncCheckRunningRef.current = true;
+      try {
+          await runSyncCheckStep();
+      } catch (e) {
+          if (!(e instanceof MatcherCancelledError)) appendLog("Erro no matcher: " + (e as Error).message, 'error');
+      } finally {
+          isSyncCheckRunningRef.current = false;
+      }
+  };
+
+  const runSyncCheckStep = async () => {
       const now = Date.now();
       
-      if (syncLockUntilRef.current === Infinity) {
-          setIsLocked(true);
-          setLastSyncUpdate("🔒 MODO CRUZEIRO");
-          setSyncConfidence(100); 
-          return;
-      } else {
-          setIsLocked(false);
-      }
+      // Após o lock, os checks continuam (locais) e passam pelo tracker
+      const isTracking = isTrackingRef.current;
+      setIsLocked(isTracking);
 
-      if (!studioContextRef.current || liveBufferRef.current.length < 30) {
+      const capture = liveCaptureRef.current;
+      const minSeconds = audioMatcher.getMethod() === 'dialogue' ? DIALOGUE_MIN_SECONDS : MIN_CAPTURE_SECONDS;
+      if (!studioContextRef.current || !capture || capture.ring.available() < minSeconds * capture.sampleRate) {
           if (isGlobalScanNeeded.current) {
               setLastSyncUpdate("A recolher amostra...");
           }
           return;
       }
 
-      if (now < syncLockUntilRef.current) {
+      if (!isTracking && now < syncLockUntilRef.current) {
            const remaining = Math.ceil((syncLockUntilRef.current - now) / 1000);
            setLastSyncUpdate(`Estabilizando (${remaining}s)`);
            return;
       }
 
-      // 1. Merge buffers
-      const totalLen = liveBufferRef.current.reduce((acc, b) => acc + b.length, 0);
-      const combined = new Float32Array(totalLen);
-      let offset = 0;
-      for (const buf of liveBufferRef.current) {
-          combined.set(buf, offset);
-          offset += buf.length;
-      }
+      // 1. Copia os últimos segundos do ring buffer
+      // O scratch fica vazio (detached) se um pedido ao worker foi cancelado a meio
+      const studioTimeAtCapture = currentMovieTimeRef.current;
+      let scratch = captureScratchRef.current;
+      if (!scratch || scratch.length !== capture.ring.capacity) scratch = new Float32Array(capture.ring.capacity);
+      const captured = capture.ring.readLatest(scratch);
+      captureScratchRef.current = null;
 
-      // 2. Generate Live Fingerprint
-      const liveFingerprint = audioMatcher.createLiveFingerprint(combined, studioContextRef.current.sampleRate);
+      // 2. Generate Live Fingerprint (no worker; o scratch é transferido e devolvido)
+      const { live: liveFingerprint, pcm } = await audioMatcher.createLiveFingerprintReusing(scratch.subarray(0, captured), capture.sampleRate);
+      captureScratchRef.current = new Float32Array(pcm.buffer);
 
       // 3. Search for Match
       // FORCE GLOBAL SCAN UNTIL LOCKED to prevent local traps
-      const isGlobal = isGlobalScanNeeded.current;
+      // Durante uma interrupção o filme deve voltar onde parou, mas de vez em quando
+      // procuramos no filme todo (o utilizador pode ter mudado de posição entretanto)
+      const isInterrupted = isTracking && signalMonitorRef.current.getState() !== 'matching';
+      const isGlobal = isGlobalScanNeeded.current
+          || (isInterrupted && ++interruptionChecksRef.current % INTERRUPTION_GLOBAL_EVERY === 0);
       const searchHint = isGlobal ? -1 : currentMovieTimeRef.current;
       const scanWindow = isGlobal ? -1 : 120; // 2 min window if local
       
       if (isGlobal) setLastSyncUpdate("🔎 SCAN GLOBAL...");
 
-      const result = audioMatcher.findMatch(liveFingerprint, searchHint, scanWindow);
+      const result = await audioMatcher.findMatch(liveFingerprint, searchHint, scanWindow, playbackRateRef.current);
+
+      // A sincronização pode ter parado enquanto o worker calculava
+      if (!syncIntervalRef.current) return;
+      // O match refere-se ao fim do buffer lido em `now`; o filme avançou entretanto
+      const processingDelay = ((Date.now() - now) / 1000) * result.playbackRate;
+      const matchClock = now / 1000;
+
+      if (isTracking) {
+          handleTrackingResult(matchClock, studioTimeAtCapture, processingDelay, result);
+          return;
+      }
       
       setSyncConfidence(Math.round(result.confidence));
-      const MIN_CONFIDENCE = isGlobal ? 30 : 40; // Lower threshold for initial discovery
-
-      if (result.confidence > MIN_CONFIDENCE) { 
-          // Latency Compensation
-          const LATENCY_COMPENSATION = 0.5;
-          const adjustedTime = Math.max(0, result.currentTime - LATENCY_COMPENSATION);
-
-          const diff = adjustedTime - currentMovieTimeRef.current;
-          const absDiff = Math.abs(diff);
-
-          // TRIPLE CHECK LOGIC -> NOW DOUBLE CHECK
-          // If we found a candidate (Global or Drift > 3s)
-          if (absDiff > 3.0 || isGlobal) { 
-               if (potentialSyncRef.current) {
-                   const expectedTime = potentialSyncRef.current.time + ((now - potentialSyncRef.current.timestamp) / 1000);
-                   const driftFromExpected = Math.abs(adjustedTime - expectedTime);
-
-                   if (driftFromExpected < 2.0) {
-                       const newCount = potentialSyncRef.current.count + 1;
-                       potentialSyncRef.current = { 
-                           time: adjustedTime, 
-                           timestamp: now,
-                           count: newCount
-                       };
-                       setLastSyncUpdate(`Verificação ${newCount}/2`);
-                       
-                       if (newCount >= 2) {
-                           seekTo(adjustedTime);
-                           setLastSyncUpdate(`Bloqueado em ${formatTime(adjustedTime)}`);
-                           potentialSyncRef.current = null;
-                           isGlobalScanNeeded.current = false; // Scan complete AND verified
-                           
-                           // ENGAGE ETERNAL CRUISE CONTROL
-                           syncLockUntilRef.current = Infinity;
-                           appendLog(`Sincronização confirmada (${formatTime(adjustedTime)}). Cruzeiro Ativo.`, 'success');
-                           return;
-                       }
-                       return;
-                   } else {
-                       // Drastic change during verification? Reset.
-                       // Keep Global Scan needed because we failed verification
-                       potentialSyncRef.current = { time: adjustedTime, timestamp: now, count: 1 };
-                       setLastSyncUpdate("Verificação 1/2 (Reset)");
-                   }
-               } else {
-                   // First hit
-                   potentialSyncRef.current = { time: adjustedTime, timestamp: now, count: 1 };
-                   setLastSyncUpdate("Verificação 1/2");
-                   // DO NOT disable Global Scan here. Must prove 2 times.
-               }
-          } else {
-              // Stable.
-              potentialSyncRef.current = null;
-              setLastSyncUpdate("Monitorizando...");
-          }
-          
-          // Ensure playback if we are close
-          if (refAudioElementRef.current?.paused && !isGlobal) {
+
+      // Latency Compensation (em todos os candidatos, para a verificação cruzada)
+      const candidates = result.candidates.map(c => ({ ...c, currentTime: Math.max(0, c.currentTime - captureLatencyRef.current + processingDelay) }));
+      const best = candidates[0];
+
+      // Stable: match local inequívoco perto do relógio do estúdio
+      if (!isGlobal && best && result.confidence > MIN_MATCH_CONFIDENCE && Math.abs(best.currentTime - currentMovieTimeRef.current) <= 3.0) {
+          verifierRef.current.reset();
+          setLastSyncUpdate("Monitorizando...");
+          if (refAudioElementRef.current?.paused) {
               refAudioElementRef.current.play();
           }
+          return;
+      }
+
+      // VERIFICATION: candidatos do check atual contra os do anterior (Global ou Drift > 3s)
+      const verification = verifierRef.current.observe(candidates, result.confidence, matchClock, result.playbackRate);
+
+      if (verification.status === 'locked') {
+          const adjustedTime = verification.time;
+          if (Math.abs(result.playbackRate - playbackRateRef.current) > 1e-4) {
+              appendLog(`Velocidade detetada: ×${result.playbackRate.toFixed(4)}`, 'info');
+          }
+          applyPlaybackRate(result.playbackRate);
+          seekTo(adjustedTime);
+          setLastSyncUpdate(`Bloqueado em ${formatTime(adjustedTime)}`);
+          isGlobalScanNeeded.current = false; // Scan complete AND verified
+
+          // ENGAGE CONTINUOUS TRACKING
+          trackerRef.current.reset(adjustedTime - processingDelay, matchClock, result.playbackRate);
+          manualOffsetRef.current = 0;
+          pendingCutRef.current = null;
+          isTrackingRef.current = true;
+          setIsLocked(true);
+          appendLog(`Sincronização confirmada (${formatTime(adjustedTime)}, ${result.method}). Rastreamento Ativo.`, 'success');
+          return;
+      }
+
+      if (verification.confirmations >= 2) {
+          setLastSyncUpdate(`Ambíguo: ${candidates.length} posições possíveis (×${result.peakRatio.toFixed(2)})`);
+      } else if (verification.confirmations === 1) {
+          setLastSyncUpdate(result.confidence > MIN_MATCH_CONFIDENCE ? "Verificação 1/2" : "Verificação 1/2 (pico ambíguo)");
       } else {
           setLastSyncUpdate(isGlobal ? "A pesquisar filme..." : "Sinal fraco...");
-          // If verification fails or confidence drops, reset potential
-          if (potentialSyncRef.current) {
-              potentialSyncRef.current = null;
-              setLastSyncUpdate("Verificação falhou. Reiniciando...");
+      }
+  };
+
+
+  /**
+   * Rastreamento: cada match local passa pelo SyncTracker, que decide se o relógio
+   * se mantém, é corrigido, salta (com histerese) ou se o lock foi perdido.
+   */
+  const handleTrackingResult = (matchClock: number, studioTimeAtCapture: number, processingDelay: number, result: MatchResult) => {
+      setSyncConfidence(Math.round(result.confidence));
+
+      // Pausas e interrupções: o tracker só é alimentado enquanto o sinal é o filme
+      const previousState = signalMonitorRef.current.getState();
+      // A voz não distingue o filme de anúncios: no diálogo só a pausa (silêncio) é detetada
+      const isFilmSignal = result.method === 'dialogue' || result.confidence > MIN_TRACKING_CONFIDENCE;
+      const state = signalMonitorRef.current.update(result, isFilmSignal, matchClock);
+      if (state !== previousState) {
+          setSignalState(state);
+          if (state === 'matching') {
+              resumeAfterInterruption(Math.max(0, result.currentTime - captureLatencyRef.current) + manualOffsetRef.current, matchClock, processingDelay, result.playbackRate);
+          } else {
+              enterInterruption(state);
           }
+          return;
+      }
+      if (state !== 'matching') {
+          setLastSyncUpdate(state === 'silent' ? "⏸ Em pausa. A aguardar o filme..." : "📺 Interrupção. A aguardar o filme...");
+          return;
+      }
+
+      const decision = trackerRef.current.update({
+          clock: matchClock,
+          time: Math.max(0, result.currentTime - captureLatencyRef.current) + manualOffsetRef.current,
+          confidence: result.confidence
+      }, studioTimeAtCapture);
+
+      const rate = trackerRef.current.getRate();
+      if (Math.abs(rate - playbackRateRef.current) > RATE_UPDATE_THRESHOLD) {
+          applyPlaybackRate(rate);
+          appendLog(`Drift corrigido: velocidade ×${rate.toFixed(4)}`, 'info');
+      }
+
+      switch (decision.action) {
+          case 'hold':
+              if (result.confidence > MIN_TRACKING_CONFIDENCE) confirmRuntimePosition(decision.estimate);
+              setLastSyncUpdate("🔒 Rastreamento");
+              break;
+          case 'correct':
+              confirmRuntimePosition(decision.time);
+              seekTo(decision.time + processingDelay, { keepTracking: true, keepSpoken: true });
+              setLastSyncUpdate(`Correção para ${formatTime(decision.time)}`);
+              break;
+          case 'jump':
+              pendingCutRef.current = null; // Um novo salto substitui o anterior por confirmar
+              if (decision.time > studioTimeAtCapture) recordRuntimeJump(studioTimeAtCapture, decision.time);
+              else confirmRuntimePosition(decision.time);
+              seekTo(decision.time + processingDelay, { keepTracking: true });
+              setLastSyncUpdate(`Salto para ${formatTime(decision.time)}`);
+              appendLog(`Salto detetado na TV → ${formatTime(decision.time)}`, 'info');
+              break;
+          case 'lost':
+              isTrackingRef.current = false;
+              pendingCutRef.current = null;
+              setIsLocked(false);
+              verifierRef.current.reset();
+              isGlobalScanNeeded.current = true;
+              setLastSyncUpdate("Rastreio perdido. A pesquisar...");
+              appendLog("Rastreio perdido. Scan global...", 'info');
+              break;
       }
   };
 
+  /**
+   * Pausa/anúncios: congela o relógio de referência e a fala, e anuncia o estado.
+   * A linha que estava a ser lida volta a ficar pendente para ser repetida no regresso.
+   */
+  const enterInterruption = (state: LiveSignalState) => {
+      interruptionChecksRef.current = 0;
+      pendingCutRef.current = null; // O salto já não é seguido de rastreio contínuo
+      refAudioElementRef.current?.pause();
+
+      if (speechEngineRef.current.speaking && currentCueIdRef.current) {
+          processedEntryIds.current.delete(currentCueIdRef.current);
+      }
+      speechEngineRef.current.cancel();
+
+      const message = state === 'silent' ? "Pausa detetada." : "Interrupção detetada. A aguardar o regresso do filme.";
+      appendLog(message, 'info');
+      speak(message, { priority: 'high' });
+  };
+
+  /**
+   * Regresso do filme (já confirmado pelo monitor): reposiciona no match local e retoma.
+   */
+  const resumeAfterInterruption = (time: number, matchClock: number, processingDelay: number, rate: number) => {
+      trackerRef.current.reset(time, matchClock, rate);
+      speechEngineRef.current.cancel();
+      seekTo(time + processingDelay, { keepTracking: true });
+      refAudioElementRef.current?.play();
+      setLastSyncUpdate(`Retomado em ${formatTime(time)}`);
+      appendLog(`Filme retomado em ${formatTime(time)}`, 'success');
+  };
 
   const appendLog = (msg: string, type: 'info' | 'error' | 'success' = 'info') => {
       const color = type === 'error' ? '🔴 ' : type === 'success' ? '🟢 ' : 'ℹ️ ';
@@ -731,24 +1308,81 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
   // --- Helpers ---
 
   const handleAddMovie = () => {
-    if (!newMovieTitle || tempSrt.length === 0) return;
+    if (!newMovieTitle || tempSrt.length === 0 || !normalizeLanguageTag(tempSrtLang)) return;
+    const track = createScriptTrack('', tempSrtLang, tempSrt);
     const newMovie: Movie = {
       id: crypto.randomUUID(),
       title: newMovieTitle,
-      srtEntries: tempSrt,
+      synopsis: '',
+      tracks: [track],
+      activeTrackId: track.id,
       referenceAudioName: tempAudioName || 'Sem áudio',
-      referenceAudioFile: tempAudioFile
+      referenceAudioFile: tempAudioFile,
+      scriptReferenceAudioName: tempScriptAudioName,
+      scriptReferenceAudioFile: tempScriptAudioFile,
+      alignmentMap: null,
+      dialogueSrtName: tempDialogueName,
+      dialogueEntries: tempDialogueEntries.length > 0 ? tempDialogueEntries : null
     };
     setMovies([...movies, newMovie]);
-    setNewMovieTitle(''); setTempSrt([]); setTempAudioName(''); setTempAudioFile(null);
+    setNewMovieTitle(''); setTempSrt([]); setTempSrtLang(DEFAULT_TRACK_LANG); setTempAudioName(''); setTempAudioFile(null);
+    setTempScriptAudioName(''); setTempScriptAudioFile(null);
+    setTempDialogueName(''); setTempDialogueEntries([]); setImportReport(null); setRetimingTarget(null); setLintTarget(null);
+  };
+
+  /**
+   * Lê um guião/legendas em qualquer formato e codificação suportados; o relatório de validação fica visível no painel.
+   */
+  const readScriptFile = async (file: File, onImported: (result: ScriptImport) => void, movieId?: string) => {
+    try {
+      const result = await importScriptFile(file);
+      setImportReport({ ...result, fileName: file.name, movieId });
+      onImported(result);
+    } catch (e) {
+      console.error(e);
+      appendLog("Erro ao ler guião: " + (e as Error).message, 'error');
+    }
   };
 
   const handleSrtUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      const reader = new FileReader();
-      reader.onload = (ev) => setTempSrt(parseSRT(ev.target?.result as string));
-      reader.readAsText(file);
+      readScriptFile(file, result => {
+        setTempSrt(result.entries);
+        setRetimingTarget(prev => prev === 'new' ? null : prev);
+      });
+    }
+  };
+
+  // Nova faixa num filme da biblioteca
+  const handleAddTrack = (movieId: string, file: File, name: string, lang: string) => {
+    readScriptFile(file, result => {
+      const track = createScriptTrack(name || file.name.replace(/\.[^.]+$/, ''), lang, result.entries);
+      updateMovie(movieId, m => ({ ...m, tracks: [...m.tracks, track] }));
+      setLintTarget({ movieId, trackId: track.id });
+    }, movieId);
+  };
+
+  const handleRemoveTrack = (movieId: string, trackId: string) => {
+    updateMovie(movieId, m => m.tracks.length > 1 ? { ...m, tracks: m.tracks.filter(t => t.id !== trackId) } : m);
+    setRetimingTarget(prev => prev !== 'new' && prev?.trackId === trackId ? null : prev);
+    setLintTarget(prev => prev?.trackId === trackId ? null : prev);
+    setTranslationTarget(prev => prev?.trackId === trackId ? null : prev);
+  };
+
+  // Faixa traduzida: entra a seguir às outras, com a revisão de estilo aberta
+  const handleTranslatedTrack = (movieId: string, track: ScriptTrack) => {
+    updateMovie(movieId, m => ({ ...m, tracks: [...m.tracks, track] }));
+    setLintTarget({ movieId, trackId: track.id });
+  };
+
+  const handleDialogueSrtUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      readScriptFile(file, result => {
+        setTempDialogueName(file.name);
+        setTempDialogueEntries(result.entries);
+      });
     }
   };
 
@@ -757,8 +1391,41 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
       if (file) { setTempAudioName(file.name); setTempAudioFile(file); }
   }
 
+  const handleScriptAudioUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (file) { setTempScriptAudioName(file.name); setTempScriptAudioFile(file); }
+  }
+
   // --- Render ---
 
+  // Debug Log (estúdio e modo ao vivo)
+  const debugLogPanel = (
+      <div className="bg-black/40 border border-slate-800 rounded-lg p-3 h-32 overflow-y-auto font-mono text-xs space-y-1">
+          {aiDebugLog.length === 0 && <span className="text-slate-600 italic">Logs do sistema aparecerão aqui...</span>}
+          {aiDebugLog.map((log, i) => (
+              <div key={i} className="text-slate-400 border-b border-slate-800/30 last:border-0 pb-1">{log}</div>
+          ))}
+      </div>
+  );
+
+  if (view === 'live') {
+    return (
+      <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="flex items-center gap-4 bg-slate-800 p-4 rounded-xl border border-slate-700 shadow-lg">
+           <button onClick={() => setView('library')} className="p-2 hover:bg-slate-700 rounded-lg text-slate-400 hover:text-white transition-colors">
+              <ArrowLeft size={20} />
+           </button>
+           <div>
+               <h2 className="text-xl font-bold text-white leading-none">Descrição ao Vivo</h2>
+               <span className="text-xs text-slate-400">Sem guião: descrições geradas pelo Gemini Live</span>
+           </div>
+        </div>
+        <LiveAIStudio transport={liveTransport} deviceId={selectedDeviceId} onLog={appendLog} />
+        {debugLogPanel}
+      </div>
+    );
+  }
+
   if (view === 'library') {
     return (
       <div className="space-y-8 animate-in fade-in">
@@ -794,43 +1461,153 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
                     )}
                 </div>
             </div>
+            <LatencyCalibration
+                deviceId={selectedDeviceId}
+                profile={latencyProfile}
+                defaultCaptureLatency={LATENCY_COMPENSATION}
+                createUtterance={createUtterance}
+                onProfileChange={setLatencyProfile}
+                disabled={isPreFlightTesting}
+            />
+        </div>
+
+        <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 shadow-lg flex items-center gap-4">
+            <Radio size={24} className="text-purple-400 shrink-0" />
+            <div className="flex-1">
+                <h2 className="text-lg font-bold text-white">Descrição ao Vivo (IA)</h2>
+                <p className="text-sm text-slate-400">Sem guião: o Gemini ouve o filme (e vê a TV pela câmara) e descreve nas pausas do diálogo.</p>
+            </div>
+            <button
+                onClick={() => { stopPreFlightTest(); setView('live'); }}
+                disabled={!liveTransport}
+                title={liveTransport ? undefined : 'Sem chave da API Gemini'}
+                className="bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white font-bold py-2 px-6 rounded-lg flex items-center gap-2"
+            >
+                <Play size={16} /> Abrir
+            </button>
         </div>
 
         <div className="bg-slate-800/50 border border-slate-700 rounded-xl p-6">
             <h2 className="text-xl font-bold text-white mb-4 flex items-center gap-2"><Plus className="text-blue-400" size={20}/> Adicionar Filme</h2>
             <div className="grid md:grid-cols-2 gap-6">
                 <div className="space-y-4">
-                    <input type="text" className="w-full bg-slate-900 border border-slate-700 rounded-lg p-3 text-white" placeholder="Título do Filme" value={newMovieTitle} onChange={(e) => setNewMovieTitle(e.target.value)} />
+                    <div className="flex gap-2">
+                        <input type="text" className="flex-1 bg-slate-900 border border-slate-700 rounded-lg p-3 text-white" placeholder="Título do Filme" value={newMovieTitle} onChange={(e) => setNewMovieTitle(e.target.value)} />
+                        <input
+                            type="text"
+                            list="new-movie-langs"
+                            className={`w-28 bg-slate-900 border rounded-lg p-3 text-white font-mono ${normalizeLanguageTag(tempSrtLang) ? 'border-slate-700' : 'border-red-500'}`}
+                            title="Língua do guião (BCP-47)"
+                            value={tempSrtLang}
+                            onChange={(e) => setTempSrtLang(e.target.value)}
+                        />
+                        <datalist id="new-movie-langs">
+                            {COMMON_TRACK_LANGS.map(l => <option key={l} value={l} />)}
+                        </datalist>
+                    </div>
                     <div className="flex gap-4">
                         <label className="flex-1 flex flex-col items-center justify-center h-24 border-2 border-dashed border-slate-700 rounded-lg cursor-pointer hover:bg-slate-800">
                             <FileText className="h-6 w-6 text-slate-500 mb-1" />
-                            <span className="text-xs text-slate-400">{tempSrt.length > 0 ? `${tempSrt.length} linhas` : 'Upload SRT'}</span>
-                            <input type="file" accept=".srt" className="hidden" onChange={handleSrtUpload} />
+                            <span className="text-xs text-slate-400">{tempSrt.length > 0 ? `${tempSrt.length} linhas` : 'Upload Guião'}</span>
+                            <input type="file" accept={SCRIPT_FILE_ACCEPT} className="hidden" onChange={handleSrtUpload} />
                         </label>
                         <label className="flex-1 flex flex-col items-center justify-center h-24 border-2 border-dashed border-slate-700 rounded-lg cursor-pointer hover:bg-slate-800">
                             <FileAudio className="h-6 w-6 text-slate-500 mb-1" />
                             <span className="text-xs text-slate-400 truncate max-w-[100px]">{tempAudioName || 'Upload Áudio'}</span>
                             <input type="file" accept="audio/*" className="hidden" onChange={handleAudioUpload} />
                         </label>
+                        <label className="flex-1 flex flex-col items-center justify-center h-24 border-2 border-dashed border-slate-700 rounded-lg cursor-pointer hover:bg-slate-800" title="Opcional: áudio da versão para a qual o guião foi escrito, se for diferente da sua">
+                            <Film className="h-6 w-6 text-slate-500 mb-1" />
+                            <span className="text-xs text-slate-400 truncate max-w-[100px]">{tempScriptAudioName || 'Versão do Guião'}</span>
+                            <input type="file" accept="audio/*" className="hidden" onChange={handleScriptAudioUpload} />
+                        </label>
+                        <label className="flex-1 flex flex-col items-center justify-center h-24 border-2 border-dashed border-slate-700 rounded-lg cursor-pointer hover:bg-slate-800" title="Sem áudio de referência: as legendas de diálogo do filme permitem sincronizar pela voz captada no micro">
+                            <Megaphone className="h-6 w-6 text-slate-500 mb-1" />
+                            <span className="text-xs text-slate-400 truncate max-w-[100px]">{tempDialogueEntries.length > 0 ? `${tempDialogueEntries.length} falas` : 'Legendas Diálogo'}</span>
+                            <input type="file" accept={SCRIPT_FILE_ACCEPT} className="hidden" onChange={handleDialogueSrtUpload} />
+                        </label>
                     </div>
+                    {importReport && !importReport.movieId && (
+                        <ScriptImportReport fileName={importReport.fileName} report={importReport} onDismiss={() => setImportReport(null)} />
+                    )}
+                    {tempSrt.length > 0 && (
+                        <StyleLintPanel entries={tempSrt} lang={tempSrtLang} title={newMovieTitle} dialogue={tempDialogueEntries} onApplyFixes={setTempSrt} />
+                    )}
+                    {tempSrt.length > 0 && retimingTarget !== 'new' && (
+                        <button onClick={() => setRetimingTarget('new')} className="flex items-center gap-2 text-xs text-slate-400 hover:text-white"><Clock size={14} /> Reajustar tempos do guião</button>
+                    )}
+                    {retimingTarget === 'new' && (
+                        <RetimingPanel entries={tempSrt} onApply={applyRetiming} onCancel={() => setRetimingTarget(null)} />
+                    )}
                 </div>
                 <div className="flex items-end">
-                    <button onClick={handleAddMovie} disabled={!newMovieTitle || tempSrt.length === 0} className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white font-bold py-3 px-6 rounded-lg transition-all">Criar Filme</button>
+                    <button onClick={handleAddMovie} disabled={!newMovieTitle || tempSrt.length === 0 || !normalizeLanguageTag(tempSrtLang)} className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white font-bold py-3 px-6 rounded-lg transition-all">Criar Filme</button>
                 </div>
             </div>
         </div>
 
         <div className="grid gap-4">
             {movies.map(movie => (
-                <div key={movie.id} className="flex items-center justify-between p-4 bg-slate-800 rounded-lg border border-slate-700">
+                <div key={movie.id} className="p-4 bg-slate-800 rounded-lg border border-slate-700">
+                <div className="flex items-center justify-between">
                     <div className="flex items-center gap-4">
                         <div className="bg-blue-900/30 p-3 rounded-full text-blue-400"><Film size={24} /></div>
-                        <div><h4 className="font-bold text-white text-lg">{movie.title}</h4><div className="flex gap-3 text-xs text-slate-400"><span>{movie.srtEntries.length} linhas</span></div></div>
+                        <div><h4 className="font-bold text-white text-lg">{movie.title}</h4><div className="flex gap-3 text-xs text-slate-400"><span>{movie.tracks.length} {movie.tracks.length === 1 ? 'faixa' : 'faixas'}</span>{movie.scriptReferenceAudioFile && <span className="text-amber-400">Versão alternativa</span>}{movie.alignmentMap && <span>{removedScriptRanges(movie.alignmentMap).length} cortes</span>}{usesDialogueSync(movie) && <span className="text-purple-400">Sync por diálogo</span>}</div></div>
                     </div>
                     <div className="flex items-center gap-2">
                         <button onClick={() => { setSelectedMovie(movie); setView('studio'); }} className="flex items-center gap-2 bg-emerald-600 hover:bg-emerald-500 text-white px-4 py-2 rounded-lg font-medium">Entrar no Estúdio</button>
                     </div>
                 </div>
+                <ScriptTrackList
+                    movieId={movie.id}
+                    tracks={movie.tracks}
+                    activeTrackId={movie.activeTrackId}
+                    voices={availableVoices}
+                    retimingTrackId={retimingTarget !== 'new' && retimingTarget?.movieId === movie.id ? retimingTarget.trackId : null}
+                    onSelect={(trackId) => switchTrack(movie.id, trackId)}
+                    translatingTrackId={translationTarget?.movieId === movie.id ? translationTarget.trackId : null}
+                    onRetime={(trackId) => setRetimingTarget(prev => prev !== 'new' && prev?.trackId === trackId ? null : { movieId: movie.id, trackId })}
+                    onTranslate={(trackId) => setTranslationTarget(prev => prev?.trackId === trackId ? null : { movieId: movie.id, trackId })}
+                    onRemove={(trackId) => handleRemoveTrack(movie.id, trackId)}
+                    onAdd={(file, name, lang) => handleAddTrack(movie.id, file, name, lang)}
+                />
+                {importReport?.movieId === movie.id && (
+                    <div className="mt-2"><ScriptImportReport fileName={importReport.fileName} report={importReport} onDismiss={() => setImportReport(null)} /></div>
+                )}
+                {movie.tracks.filter(t => translationTarget?.movieId === movie.id && t.id === translationTarget.trackId).map(track => (
+                    <TranslationPanel
+                        key={track.id}
+                        client={translationClient}
+                        movieId={movie.id}
+                        title={movie.title}
+                        source={track}
+                        rate={DEFAULT_SPEECH_RATE}
+                        modelFor={(lang) => speechRateModelFor(speechModels, pickVoice(availableVoices, lang).voice?.name)}
+                        onCreate={(translated) => handleTranslatedTrack(movie.id, translated)}
+                        onClose={() => setTranslationTarget(null)}
+                    />
+                ))}
+                {movie.tracks.filter(t => lintTarget?.movieId === movie.id && t.id === lintTarget.trackId).map(track => (
+                    <div key={track.id} className="mt-2">
+                        <StyleLintPanel
+                            entries={track.entries}
+                            lang={track.lang}
+                            title={`${movie.title}.${track.lang}`}
+                            dialogue={movie.dialogueEntries}
+                            onApplyFixes={(entries) => updateTrackEntries(movie.id, track.id, entries)}
+                            onDismiss={() => setLintTarget(null)}
+                        />
+                    </div>
+                ))}
+                {retimingTarget !== 'new' && retimingTarget?.movieId === movie.id && (
+                    <RetimingPanel
+                        key={retimingTarget.trackId}
+                        entries={findTrack(movie.tracks, retimingTarget.trackId)?.entries ?? []}
+                        onApply={applyRetiming}
+                        onCancel={() => setRetimingTarget(null)}
+                    />
+                )}
+                </div>
             ))}
         </div>
       </div>
@@ -851,6 +1628,7 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
                <h2 className="text-xl font-bold text-white leading-none">{selectedMovie?.title}</h2>
                <div className="text-xs text-slate-400 flex items-center gap-2 mt-1">
                    <span className="flex items-center gap-1"><Mic size={12}/> {audioDevices.find(d => d.deviceId === selectedDeviceId)?.label || 'Mic Padrão'}</span>
+                   <span className={latencyProfile ? 'text-slate-400' : 'text-slate-500'}>Latência {Math.round((latencyProfile?.captureLatency ?? LATENCY_COMPENSATION) * 1000)}ms{latencyProfile ? '' : ' (sem calibração)'}</span>
                    {audioContextState !== 'running' && <span className="text-yellow-500 flex items-center gap-1"><Activity size={12}/> Audio Suspenso</span>}
                </div>
            </div>
@@ -863,6 +1641,18 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
                  </button>
              )}
             
+             <select
+                value={matchMethod}
+                onChange={(e) => changeMatchMethod(e.target.value as MatchMethod)}
+                disabled={isSyncActive || usesDialogueSync(selectedMovie)}
+                title="Método de match"
+                className="bg-slate-900 border border-slate-600 rounded-lg px-3 py-3 text-xs text-slate-300 outline-none disabled:opacity-50"
+             >
+                <option value="envelope">Envelope (RMS)</option>
+                <option value="spectral">Espectral (Hashes)</option>
+                {usesDialogueSync(selectedMovie) && <option value="dialogue">Diálogo (Voz + Legendas)</option>}
+             </select>
+
              {!isSyncActive ? (
                  <button 
                     onClick={startSync} 
@@ -870,7 +1660,7 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
                     className="bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white px-6 py-3 rounded-lg font-bold flex items-center gap-2 shadow-lg shadow-blue-900/20 transition-all hover:scale-105"
                  >
                     {isProcessingMatrix ? <Loader2 className="animate-spin" /> : <BrainCircuit size={20} />}
-                    {isProcessingMatrix ? "A Processar Matriz..." : "Iniciar Sincronização"}
+                    {isProcessingMatrix ? `A Processar Matriz... ${Math.round(matrixProgress * 100)}%` : "Iniciar Sincronização"}
                  </button>
              ) : (
                  <button onClick={stopSync} className="bg-red-500/10 hover:bg-red-500/20 border border-red-500/50 text-red-400 px-6 py-3 rounded-lg font-bold flex items-center gap-2">
@@ -887,11 +1677,87 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
           <div ref={scriptContainerRef} className="lg:col-span-1 bg-slate-900 border border-slate-800 rounded-xl flex flex-col h-[500px] shadow-inner relative overflow-y-auto scrollbar-thin scrollbar-thumb-slate-700 scrollbar-track-transparent">
               <div className="sticky top-0 z-20 p-4 border-b border-slate-800 bg-slate-950/95 backdrop-blur rounded-t-xl flex justify-between items-center shadow-md">
                   <span className="font-bold text-slate-400 text-sm tracking-wider uppercase">Guião Audiodescrição</span>
-                  <span className="text-xs bg-slate-800 px-2 py-1 rounded text-slate-500">{selectedMovie?.srtEntries.length} linhas</span>
+                  <div className="flex items-center gap-2">
+                      {selectedMovie && selectedMovie.tracks.length > 1 && (
+                          <select
+                            value={activeTrack?.id}
+                            onChange={(e) => switchTrack(selectedMovie.id, e.target.value)}
+                            className="bg-slate-800 border border-slate-700 rounded px-1 py-1 text-xs text-slate-300"
+                            title="Faixa do guião"
+                          >
+                              {selectedMovie.tracks.map(t => <option key={t.id} value={t.id}>{t.name} ({t.lang})</option>)}
+                          </select>
+                      )}
+                      <span className="text-xs bg-slate-800 px-2 py-1 rounded text-slate-500">{isEditingScript ? scriptEntries.length : playbackEntries.length} linhas</span>
+                      <button
+                        onClick={() => setIsEditingScript(!isEditingScript)}
+                        className={`p-1.5 rounded ${isEditingScript ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white hover:bg-slate-800'}`}
+                        title={isEditingScript ? 'Terminar edição' : 'Editar guião'}
+                      >
+                          <Pencil size={14} />
+                      </button>
+                  </div>
               </div>
+              {selectedMovie && (
+                  <SpeechEnginePanel
+                    kind={speechEngine.kind}
+                    namespace={clipNamespace}
+                    cues={speechCues}
+                    lang={speechLang}
+                    renderer={ttsRenderer}
+                    disabled={isSyncActive}
+                    onKindChange={setSpeechEngineKind}
+                  />
+              )}
+              {trackVoiceWarning && speechEngine.kind === 'webSpeech' && (
+                  <div className="mx-2 mt-2 p-2 rounded-lg bg-amber-500/10 border border-amber-500/30 text-xs text-amber-400 flex items-center gap-2">
+                      <AlertTriangle size={14} className="shrink-0" /> {trackVoiceWarning}
+                  </div>
+              )}
+              {selectedMovie && (
+                  <TimingFitPanel
+                    entries={scriptEntries}
+                    fits={Array.from(timingFits.values())}
+                    voiceName={defaultVoiceName}
+                    model={speechRateModelFor(speechModels, defaultVoiceName)}
+                    title={selectedMovie.title}
+                    createUtterance={createUtterance}
+                    onModelChange={() => setSpeechModels(loadSpeechRateModels())}
+                  />
+              )}
+              {isEditingScript && selectedMovie && activeTrack && (
+                  <DraftGenerator
+                    client={draftClient}
+                    title={selectedMovie.title}
+                    synopsis={selectedMovie.synopsis}
+                    lang={activeTrack.lang}
+                    entries={scriptEntries}
+                    currentTime={currentScriptTime}
+                    model={speechRateModelFor(speechModels, defaultVoiceName)}
+                    rate={DEFAULT_SPEECH_RATE}
+                    findGaps={findScriptGaps}
+                    onSynopsisChange={(synopsis) => updateMovie(selectedMovie.id, m => ({ ...m, synopsis }))}
+                    onDraft={(drafts) => {
+                        scriptHistoryRef.current.record(scriptEntries);
+                        updateTrackEntries(selectedMovie.id, activeTrack.id, [...scriptEntries, ...drafts].sort((a, b) => a.startTime - b.startTime));
+                    }}
+                  />
+              )}
+              {isEditingScript && selectedMovie && activeTrack ? (
+                  <ScriptEditor
+                    entries={scriptEntries}
+                    history={scriptHistoryRef.current}
+                    currentTime={currentScriptTime}
+                    activeId={editingEntryId}
+                    title={`${selectedMovie.title}.${activeTrack.lang}`}
+                    fits={timingFits}
+                    onChange={(entries) => updateTrackEntries(selectedMovie.id, activeTrack.id, entries)}
+                  />
+              ) : (
               <div className="p-2 space-y-2">
-                  {selectedMovie?.srtEntries.map(entry => {
+                  {playbackEntries.map(entry => {
                       const isActive = processedEntryIds.current.has(entry.id) || (currentMovieTime >= entry.startTime && currentMovieTime < entry.endTime);
+                      const fit = timingFits.get(entry.id);
                       return (
                           <div 
                             key={entry.id} 
@@ -902,11 +1768,19 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
                                   <span>{formatTime(entry.startTime)}</span>
                                   <span>#{entry.id}</span>
                               </div>
+                              {entry.draft && <div className="mb-1 text-[10px] text-amber-400">Rascunho por rever</div>}
+                              {formatSpeechTag(entry) && <div className="mb-1 text-[10px] font-mono text-purple-400/80">{formatSpeechTag(entry)}</div>}
                               <p className={`leading-relaxed ${isActive ? 'text-white font-medium' : ''}`}>{entry.text}</p>
+                              {fit && fit.status !== 'ok' && (
+                                  <div className={`mt-1 text-[10px] ${fit.status === 'overlap' ? 'text-red-400' : 'text-amber-400'}`}>
+                                      {describeFit(fit, formatTime)}
+                                  </div>
+                              )}
                           </div>
                       );
                   })}
               </div>
+              )}
           </div>
 
           {/* Center Column: Visualizer & Status */}
@@ -918,15 +1792,28 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
                   <div className="absolute top-4 right-4 z-20 flex flex-col items-end gap-2 pointer-events-none">
                       <div className={`flex items-center gap-2 px-3 py-1.5 rounded-full text-xs font-bold backdrop-blur-md transition-colors ${isLocked ? 'bg-emerald-500/20 text-emerald-400 border border-emerald-500/30' : isSyncActive ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30' : 'bg-slate-800/80 text-slate-400 border border-slate-700'}`}>
                           {isLocked ? <Lock size={14} /> : <Activity size={14} className={isSyncActive ? "animate-pulse" : ""} />}
-                          {isLocked ? "CRUZEIRO ETERNO" : isSyncActive ? "A SINCRONIZAR" : "AGUARDANDO"}
+                          {isLocked ? "RASTREAMENTO" : isSyncActive ? "A SINCRONIZAR" : "AGUARDANDO"}
                       </div>
                       
-                      {isSyncActive && !isLocked && (
+                      {isSyncActive && (
                         <div className="bg-black/60 backdrop-blur px-3 py-1 rounded text-[10px] text-slate-400 border border-slate-800">
                              Confiança: <span className={`${syncConfidence > 40 ? 'text-green-400' : 'text-yellow-400'}`}>{syncConfidence}%</span>
                         </div>
                       )}
 
+                      {Math.abs(playbackRate - 1) > 1e-4 && (
+                        <div className="bg-black/60 backdrop-blur px-3 py-1 rounded text-[10px] text-slate-400 border border-slate-800">
+                             Velocidade: <span className="text-blue-300 font-mono">×{playbackRate.toFixed(4)}</span>
+                        </div>
+                      )}
+
+                      {/* Interruption Indicator */}
+                      {isSyncActive && signalState !== 'matching' && (
+                          <div className="bg-amber-600/20 text-amber-300 border border-amber-500/50 px-3 py-1.5 rounded-full text-xs font-bold backdrop-blur-md flex items-center gap-2">
+                              <Pause size={14} /> {signalState === 'silent' ? "PAUSA DETETADA" : "INTERRUPÇÃO (ANÚNCIOS?)"}
+                          </div>
+                      )}
+
                       {/* Speaking Indicator */}
                       {isSpeaking && (
                           <div className="bg-purple-600/20 text-purple-300 border border-purple-500/50 px-3 py-1.5 rounded-full text-xs font-bold backdrop-blur-md flex items-center gap-2 animate-pulse">
@@ -989,8 +1876,8 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
                            <button onClick={manualTestVoice} className="p-2 bg-purple-900/40 hover:bg-purple-900/60 border border-purple-500/20 text-purple-300 rounded text-xs font-bold flex items-center gap-1">
                                <Megaphone size={12} /> Testar Voz
                            </button>
-                           <button onClick={() => seekTo(currentMovieTime - 5)} className="p-2 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 text-xs font-mono">-5s</button>
-                           <button onClick={() => seekTo(currentMovieTime + 5)} className="p-2 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 text-xs font-mono">+5s</button>
+                           <button onClick={() => manualSeek(currentMovieTime - 5)} className="p-2 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 text-xs font-mono">-5s</button>
+                           <button onClick={() => manualSeek(currentMovieTime + 5)} className="p-2 bg-slate-700 hover:bg-slate-600 rounded text-slate-300 text-xs font-mono">+5s</button>
                       </div>
                   </div>
                   <input 
@@ -998,7 +1885,7 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
                     min="0" 
                     max={refAudioDuration || 100} 
                     value={currentMovieTime} 
-                    onChange={(e) => seekTo(parseFloat(e.target.value))}
+                    onChange={(e) => manualSeek(parseFloat(e.target.value))}
                     className="w-full h-2 bg-slate-900 rounded-lg appearance-none cursor-pointer accent-blue-500 hover:accent-blue-400"
                   />
                   <div className="flex justify-between mt-2 text-xs text-slate-500 font-mono">
@@ -1008,13 +1895,7 @@ const LiveDescriber: React.FC<LiveDescriberProps> = ({ apiKey }) => {
                   </div>
               </div>
 
-              {/* Debug Log */}
-              <div className="bg-black/40 border border-slate-800 rounded-lg p-3 h-32 overflow-y-auto font-mono text-xs space-y-1">
-                  {aiDebugLog.length === 0 && <span className="text-slate-600 italic">Logs do sistema aparecerão aqui...</span>}
-                  {aiDebugLog.map((log, i) => (
-                      <div key={i} className="text-slate-400 border-b border-slate-800/30 last:border-0 pb-1">{log}</div>
-                  ))}
-              </div>
+              {debugLogPanel}
 
           </div>
       </div>
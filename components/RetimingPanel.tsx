@@ -0,0 +1,187 @@
+import React, { useMemo, useState } from 'react';
+import { Clock } from 'lucide-react';
+import { SrtEntry, formatTime } from '../utils/srt';
+import { Retiming, STANDARD_FRAMERATES, linearRetiming, applyLinearRetiming, retimeEntries } from '../utils/retiming';
+import { parseTimeInput, formatTimeInput } from '../utils/scriptEditor';
+
+interface RetimingPanelProps {
+  entries: SrtEntry[];
+  onApply: (entries: SrtEntry[]) => void;
+  onCancel: () => void;
+}
+
+type RetimingMode = Retiming['kind'];
+
+const PREVIEW_ROWS = 5;
+
+const MODE_LABELS: Record<RetimingMode, string> = {
+  shift: 'Deslocar',
+  framerate: 'Framerate',
+  twoPoint: 'Dois pontos'
+};
+
+// Deslocamento com sinal: "-2.5", "+0:03", "1:02.5"
+function parseOffsetInput(value: string): number | null {
+  const trimmed = value.trim();
+  const sign = trimmed.startsWith('-') ? -1 : 1;
+  const seconds = parseTimeInput(trimmed.replace(/^[-+]/, ''));
+  return seconds === null ? null : sign * seconds;
+}
+
+function formatDelta(seconds: number): string {
+  if (Math.abs(seconds) < 0.0005) return '';
+  return `${seconds > 0 ? '+' : '−'}${Math.abs(seconds).toFixed(2)}s`;
+}
+
+const RetimingPanel: React.FC<RetimingPanelProps> = ({ entries, onApply, onCancel }) => {
+  const sorted = useMemo(() => [...entries].sort((a, b) => a.startTime - b.startTime), [entries]);
+  const [mode, setMode] = useState<RetimingMode>('shift');
+  const [offsetInput, setOffsetInput] = useState('0');
+  const [fromFps, setFromFps] = useState(STANDARD_FRAMERATES[0].fps);
+  const [toFps, setToFps] = useState(STANDARD_FRAMERATES[2].fps);
+  const [firstId, setFirstId] = useState(sorted[0]?.id ?? '');
+  const [secondId, setSecondId] = useState(sorted[sorted.length - 1]?.id ?? '');
+  const [firstInput, setFirstInput] = useState(sorted[0] ? formatTimeInput(sorted[0].startTime) : '');
+  const [secondInput, setSecondInput] = useState(sorted.length > 0 ? formatTimeInput(sorted[sorted.length - 1].startTime) : '');
+
+  const selectCue = (which: 'first' | 'second', id: string) => {
+      const entry = sorted.find(e => e.id === id);
+      if (which === 'first') {
+          setFirstId(id);
+          if (entry) setFirstInput(formatTimeInput(entry.startTime));
+      } else {
+          setSecondId(id);
+          if (entry) setSecondInput(formatTimeInput(entry.startTime));
+      }
+  };
+
+  const retiming = useMemo((): Retiming | null => {
+      switch (mode) {
+          case 'shift': {
+              const offset = parseOffsetInput(offsetInput);
+              return offset === null ? null : { kind: 'shift', offset };
+          }
+          case 'framerate':
+              return { kind: 'framerate', from: fromFps, to: toFps };
+          case 'twoPoint': {
+              const first = parseTimeInput(firstInput);
+              const second = parseTimeInput(secondInput);
+              if (first === null || second === null) return null;
+              return { kind: 'twoPoint', first: { entryId: firstId, time: first }, second: { entryId: secondId, time: second } };
+          }
+      }
+  }, [mode, offsetInput, fromFps, toFps, firstId, secondId, firstInput, secondInput]);
+
+  const linear = retiming ? linearRetiming(sorted, retiming) : null;
+  const result = retiming && linear ? retimeEntries(sorted, retiming) : null;
+
+  // Antes/depois: as primeiras linhas, as linhas de sincronização e a última
+  const previewEntries = useMemo(() => {
+      const picked = new Set<SrtEntry>(sorted.slice(0, PREVIEW_ROWS));
+      if (mode === 'twoPoint') sorted.filter(e => e.id === firstId || e.id === secondId).forEach(e => picked.add(e));
+      if (sorted.length > 0) picked.add(sorted[sorted.length - 1]);
+      return sorted.filter(e => picked.has(e));
+  }, [sorted, mode, firstId, secondId]);
+
+  const error = !retiming
+      ? 'Tempo inválido'
+      : !linear
+          ? (mode === 'twoPoint' ? 'Escolha duas linhas diferentes, com tempos pela mesma ordem' : 'Parâmetros inválidos')
+          : result && result.entries.length === 0
+              ? 'Todas as linhas ficariam antes do início'
+              : null;
+
+  const cueLabel = (entry: SrtEntry) => `#${entry.id} ${formatTime(entry.startTime)} · ${entry.text.slice(0, 40)}`;
+  const inputClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200";
+
+  return (
+    <div className="mt-3 p-4 bg-slate-900/80 border border-slate-700 rounded-lg text-sm space-y-3">
+        <div className="flex items-center gap-2">
+            <Clock size={16} className="text-blue-400" />
+            <span className="font-medium text-white">Reajustar tempos</span>
+            <div className="ml-auto flex gap-1">
+                {(Object.keys(MODE_LABELS) as RetimingMode[]).map(m => (
+                    <button
+                        key={m}
+                        onClick={() => setMode(m)}
+                        className={`px-2 py-1 text-xs rounded ${mode === m ? 'bg-blue-600 text-white' : 'text-slate-400 hover:bg-slate-800'}`}
+                    >
+                        {MODE_LABELS[m]}
+                    </button>
+                ))}
+            </div>
+        </div>
+
+        {mode === 'shift' && (
+            <label className="flex items-center gap-2 text-xs text-slate-400">
+                Deslocamento (s ou mm:ss, negativo para antecipar)
+                <input value={offsetInput} onChange={(e) => setOffsetInput(e.target.value)} className={`${inputClass} w-28 font-mono`} />
+            </label>
+        )}
+
+        {mode === 'framerate' && (
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+                Guião a
+                <select value={fromFps} onChange={(e) => setFromFps(Number(e.target.value))} className={inputClass}>
+                    {STANDARD_FRAMERATES.map(f => <option key={f.label} value={f.fps}>{f.label} fps</option>)}
+                </select>
+                → cópia a
+                <select value={toFps} onChange={(e) => setToFps(Number(e.target.value))} className={inputClass}>
+                    {STANDARD_FRAMERATES.map(f => <option key={f.label} value={f.fps}>{f.label} fps</option>)}
+                </select>
+            </div>
+        )}
+
+        {mode === 'twoPoint' && (
+            <div className="space-y-2 text-xs text-slate-400">
+                {([['first', firstId, firstInput, setFirstInput], ['second', secondId, secondInput, setSecondInput]] as const).map(([which, id, input, setInput]) => (
+                    <div key={which} className="flex items-center gap-2">
+                        <select value={id} onChange={(e) => selectCue(which, e.target.value)} className={`${inputClass} flex-1 min-w-0`}>
+                            {sorted.map(e => <option key={e.id} value={e.id}>{cueLabel(e)}</option>)}
+                        </select>
+                        começa em
+                        <input value={input} onChange={(e) => setInput(e.target.value)} className={`${inputClass} w-28 font-mono`} />
+                    </div>
+                ))}
+            </div>
+        )}
+
+        <table className="w-full text-xs font-mono">
+            <thead className="text-slate-500">
+                <tr><th className="text-left font-normal">#</th><th className="text-left font-normal">Antes</th><th className="text-left font-normal">Depois</th><th /></tr>
+            </thead>
+            <tbody>
+                {previewEntries.map(entry => {
+                    const after = linear ? applyLinearRetiming(entry.startTime, linear) : null;
+                    return (
+                        <tr key={entry.id} className="text-slate-300">
+                            <td className="text-slate-500">{entry.id}</td>
+                            <td>{formatTime(entry.startTime)}</td>
+                            <td className={after === null ? 'text-slate-600' : ''}>{after === null ? '--:--:--' : formatTime(after)}</td>
+                            <td className="text-slate-500">{after === null ? '' : formatDelta(after - entry.startTime)}</td>
+                        </tr>
+                    );
+                })}
+            </tbody>
+        </table>
+
+        {error && <div className="text-xs text-red-400">{error}</div>}
+        {!error && result && result.dropped > 0 && (
+            <div className="text-xs text-amber-400">{result.dropped} linhas ficam antes do início e serão removidas</div>
+        )}
+
+        <div className="flex justify-end gap-2">
+            <button onClick={onCancel} className="px-3 py-1.5 text-xs text-slate-400 hover:text-white">Cancelar</button>
+            <button
+                onClick={() => result && onApply(result.entries)}
+                disabled={!!error || !result}
+                className="px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded"
+            >
+                Aplicar
+            </button>
+        </div>
+    </div>
+  );
+};
+
+export default RetimingPanel;
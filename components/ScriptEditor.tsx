@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { CheckCheck, Combine, Download, ListPlus, Redo2, Scissors, Timer, Trash2, Undo2 } from 'lucide-react';
+import { SrtEntry, serializeSRT } from '../utils/srt';
+import { serializeWebVTT } from '../utils/webvtt';
+import { parseSpeechTag, taggedText } from '../utils/speechAttributes';
+import { downloadText } from '../utils/download';
+import { CueFit, describeFit } from '../utils/timingFit';
+import {
+  ScriptHistory,
+  updateEntryText,
+  retimeEntry,
+  splitEntry,
+  mergeWithNext,
+  insertEntry,
+  deleteEntry,
+  applyFitSuggestion,
+  approveDrafts,
+  parseTimeInput,
+  formatTimeInput
+} from '../utils/scriptEditor';
+
+interface ScriptEditorProps {
+  entries: SrtEntry[];                 // Linhas no tempo do guião
+  history: ScriptHistory;
+  currentTime: number | null;          // Tempo do guião agora (null: cena que não existe no guião)
+  activeId: string | null;
+  title: string;
+  fits: Map<string, CueFit>;           // Análise de encaixe, por id de linha
+  onChange: (entries: SrtEntry[]) => void;
+}
+
+const ScriptEditor: React.FC<ScriptEditorProps> = ({
+    entries,
+    history,
+    currentTime,
+    activeId,
+    title,
+    fits,
+    onChange
+}) => {
+  const [error, setError] = useState<string | null>(null);
+
+  const apply = (next: SrtEntry[] | null, failure: string) => {
+      if (!next) {
+          setError(failure);
+          return;
+      }
+      setError(null);
+      if (next === entries) return;
+      history.record(entries);
+      onChange(next);
+  };
+
+  const undo = () => {
+      const previous = history.undo(entries);
+      if (previous) onChange(previous);
+  };
+
+  const redo = () => {
+      const next = history.redo(entries);
+      if (next) onChange(next);
+  };
+
+  const commitTime = (entry: SrtEntry, field: 'startTime' | 'endTime', input: HTMLInputElement) => {
+      if (input.value.trim() === formatTimeInput(entry[field])) return;
+      const seconds = parseTimeInput(input.value);
+      const next = seconds === null ? null : retimeEntry(entries, entry.id, { [field]: seconds });
+      if (!next || (next === entries && seconds !== entry[field])) {
+          input.value = formatTimeInput(entry[field]);
+          setError(`Tempo inválido na linha #${entry.id}`);
+          return;
+      }
+      apply(next, '');
+  };
+
+  // O texto é editado com a etiqueta de voz à frente, para alterar também os atributos de leitura
+  const commitText = (entry: SrtEntry, input: HTMLTextAreaElement) => {
+      const value = input.value.trim();
+      const current = taggedText(entry);
+      if (value === current) return;
+      const { text, problems } = parseSpeechTag(value);
+      if (problems.length > 0) {
+          setError(`Linha #${entry.id}: ${problems.join('; ')}`); // O texto fica no campo para ser corrigido
+          return;
+      }
+      if (!text.trim()) {
+          input.value = current;
+          setError(`A linha #${entry.id} não pode ficar vazia (use apagar)`);
+          return;
+      }
+      apply(updateEntryText(entries, entry.id, value), '');
+  };
+
+  const insertAfter = (entry: SrtEntry) => {
+      const inserted = insertEntry(entries, entry.endTime);
+      apply(inserted?.entries ?? null, `Sem espaço depois da linha #${entry.id}`);
+  };
+
+  const baseName = title.trim() || 'guiao';
+  const exportAs = (format: 'srt' | 'vtt') => {
+      if (format === 'srt') downloadText(`${baseName}.srt`, serializeSRT(entries), 'application/x-subrip');
+      else downloadText(`${baseName}.vtt`, serializeWebVTT(entries), 'text/vtt');
+  };
+
+  const draftCount = entries.filter(e => e.draft).length;
+
+  const toolButton = "p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded disabled:opacity-30 disabled:hover:bg-transparent";
+
+  return (
+    <div className="flex flex-col">
+        <div className="sticky top-[57px] z-10 px-2 py-2 bg-slate-950/95 border-b border-slate-800 flex items-center gap-1">
+            <button onClick={undo} disabled={!history.canUndo} className={toolButton} title="Desfazer"><Undo2 size={16} /></button>
+            <button onClick={redo} disabled={!history.canRedo} className={toolButton} title="Refazer"><Redo2 size={16} /></button>
+            <div className="flex-1" />
+            {draftCount > 0 && (
+                <button onClick={() => apply(approveDrafts(entries), '')} className="flex items-center gap-1 px-2 py-1 text-xs text-amber-400 hover:bg-slate-800 rounded" title="Aprovar todas as linhas de rascunho">
+                    <CheckCheck size={14} /> {draftCount} por rever
+                </button>
+            )}
+            <button onClick={() => exportAs('srt')} className="flex items-center gap-1 px-2 py-1 text-xs text-slate-300 hover:bg-slate-800 rounded"><Download size={14} /> SRT</button>
+            <button onClick={() => exportAs('vtt')} className="flex items-center gap-1 px-2 py-1 text-xs text-slate-300 hover:bg-slate-800 rounded"><Download size={14} /> WebVTT</button>
+        </div>
+        {error && <div className="mx-2 mt-2 text-xs text-red-400">{error}</div>}
+
+        <div className="p-2 space-y-2">
+            {entries.map((entry, index) => {
+                const isActive = entry.id === activeId;
+                const fit = fits.get(entry.id);
+                const canSplitHere = currentTime !== null && currentTime > entry.startTime && currentTime < entry.endTime;
+                return (
+                    <div key={entry.id} className={`p-2 rounded-lg border text-sm ${isActive ? 'bg-blue-900/20 border-blue-500/50' : entry.draft ? 'bg-slate-800/50 border-amber-700/50 border-dashed' : 'bg-slate-800/50 border-slate-800'}`}>
+                        <div className="flex items-center gap-1 mb-1 text-xs font-mono">
+                            <input
+                                key={`s${entry.startTime}`}
+                                defaultValue={formatTimeInput(entry.startTime)}
+                                onBlur={(e) => commitTime(entry, 'startTime', e.currentTarget)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                className="w-24 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+                            />
+                            <span className="text-slate-600">→</span>
+                            <input
+                                key={`e${entry.endTime}`}
+                                defaultValue={formatTimeInput(entry.endTime)}
+                                onBlur={(e) => commitTime(entry, 'endTime', e.currentTarget)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                                className="w-24 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300"
+                            />
+                            <button
+                                onClick={() => apply(retimeEntry(entries, entry.id, { startTime: currentTime! }), `Tempo inválido na linha #${entry.id}`)}
+                                disabled={currentTime === null}
+                                className={toolButton}
+                                title="Início = agora"
+                            >
+                                <Timer size={14} />
+                            </button>
+                            {entry.draft && (
+                                <button onClick={() => apply(approveDrafts(entries, entry.id), '')} className="ml-auto px-1.5 py-0.5 rounded bg-amber-500/20 text-amber-400 hover:bg-amber-500/30 font-sans" title="Rascunho gerado: aprovar depois de rever">
+                                    Rascunho · aprovar
+                                </button>
+                            )}
+                            <span className={`${entry.draft ? '' : 'ml-auto '}text-slate-500`}>#{entry.id}</span>
+                        </div>
+                        <textarea
+                            key={taggedText(entry)}
+                            defaultValue={taggedText(entry)}
+                            onBlur={(e) => commitText(entry, e.currentTarget)}
+                            rows={2}
+                            className="w-full bg-slate-900 border border-slate-700 rounded p-1.5 text-slate-200 resize-y"
+                        />
+                        {fit && fit.status !== 'ok' && (
+                            <div className={`flex items-center gap-2 text-[11px] ${fit.status === 'overlap' ? 'text-red-400' : 'text-amber-400'}`}>
+                                <span>{describeFit(fit, formatTimeInput)}</span>
+                                {fit.suggestion && fit.suggestion.kind !== 'shorten' && (
+                                    <button
+                                        onClick={() => apply(applyFitSuggestion(entries, entry.id, fit.suggestion!), `Não foi possível aplicar a sugestão à linha #${entry.id}`)}
+                                        className="ml-auto underline hover:text-white"
+                                    >
+                                        Aplicar
+                                    </button>
+                                )}
+                            </div>
+                        )}
+                        <div className="flex gap-1 mt-1">
+                            <button
+                                onClick={() => apply(splitEntry(entries, entry.id, canSplitHere ? currentTime! : undefined), `Linha #${entry.id} curta demais para dividir`)}
+                                className={toolButton}
+                                title={canSplitHere ? 'Dividir no tempo atual' : 'Dividir ao meio'}
+                            >
+                                <Scissors size={14} />
+                            </button>
+                            <button
+                                onClick={() => apply(mergeWithNext(entries, entry.id), 'Não há linha seguinte')}
+                                disabled={index === entries.length - 1}
+                                className={toolButton}
+                                title="Juntar com a seguinte"
+                            >
+                                <Combine size={14} />
+                            </button>
+                            <button onClick={() => insertAfter(entry)} className={toolButton} title="Inserir linha depois"><ListPlus size={14} /></button>
+                            <button onClick={() => apply(deleteEntry(entries, entry.id), '')} className={`${toolButton} ml-auto hover:text-red-400`} title="Apagar"><Trash2 size={14} /></button>
+                        </div>
+                    </div>
+                );
+            })}
+            {entries.length === 0 && (
+                <button
+                    onClick={() => apply(insertEntry(entries, currentTime ?? 0)?.entries ?? null, '')}
+                    className="w-full p-3 border border-dashed border-slate-700 rounded-lg text-xs text-slate-400 hover:bg-slate-800 flex items-center justify-center gap-2"
+                >
+                    <ListPlus size={14} /> Inserir linha
+                </button>
+            )}
+        </div>
+    </div>
+  );
+};
+
+export default ScriptEditor;
@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle, X } from 'lucide-react';
+import { ParseWarningKind } from '../utils/srt';
+import { ScriptImport, formatLabel } from '../utils/scriptImport';
+
+interface ScriptImportReportProps {
+  fileName: string;
+  report: ScriptImport;
+  onDismiss: () => void;
+}
+
+const KIND_LABELS: Record<ParseWarningKind, string> = {
+  malformed: 'Blocos inválidos',
+  unsupported: 'Ignorado',
+  encoding: 'Codificação',
+  duration: 'Duração nula/negativa',
+  order: 'Fora de ordem',
+  overlap: 'Sobreposições'
+};
+
+const KIND_ORDER: ParseWarningKind[] = ['malformed', 'encoding', 'duration', 'order', 'overlap', 'unsupported'];
+
+const ScriptImportReport: React.FC<ScriptImportReportProps> = ({ fileName, report, onDismiss }) => {
+  const [filter, setFilter] = useState<ParseWarningKind | null>(null);
+
+  const counts = new Map<ParseWarningKind, number>();
+  report.warnings.forEach(w => counts.set(w.kind, (counts.get(w.kind) ?? 0) + 1));
+  const shown = filter ? report.warnings.filter(w => w.kind === filter) : report.warnings;
+  const hasWarnings = report.warnings.length > 0;
+
+  return (
+    <div className={`rounded-lg p-3 text-xs border ${hasWarnings ? 'bg-amber-900/20 border-amber-700/50 text-amber-200' : 'bg-emerald-900/20 border-emerald-700/50 text-emerald-200'}`}>
+        <div className="flex items-center gap-2 font-bold">
+            {hasWarnings ? <AlertTriangle size={14} /> : <CheckCircle size={14} />}
+            <span className="truncate">{fileName}</span>
+            <button onClick={onDismiss} className="ml-auto opacity-60 hover:opacity-100" title="Fechar relatório"><X size={14} /></button>
+        </div>
+        <div className="mt-1 opacity-80">
+            {formatLabel(report.format)} · {report.encoding} · {report.entries.length} entradas
+            {!hasWarnings && ' · sem problemas'}
+        </div>
+
+        {hasWarnings && (
+            <>
+                <div className="flex flex-wrap gap-1 mt-2">
+                    {KIND_ORDER.filter(kind => counts.has(kind)).map(kind => (
+                        <button
+                            key={kind}
+                            onClick={() => setFilter(filter === kind ? null : kind)}
+                            className={`px-2 py-0.5 rounded-full border ${filter === kind ? 'bg-amber-500/30 border-amber-400' : 'border-amber-700/60 hover:bg-amber-500/10'}`}
+                        >
+                            {KIND_LABELS[kind]}: {counts.get(kind)}
+                        </button>
+                    ))}
+                </div>
+                <ul className="mt-2 space-y-0.5 max-h-40 overflow-y-auto text-amber-300/80">
+                    {shown.map((w, i) => (
+                        <li key={i}>
+                            {w.line !== undefined && <span className="font-mono text-amber-500">L{w.line} </span>}
+                            {w.message}
+                        </li>
+                    ))}
+                </ul>
+            </>
+        )}
+    </div>
+  );
+};
+
+export default ScriptImportReport;
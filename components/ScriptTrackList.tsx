@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { AlertTriangle, Clock, FileText, Languages, Trash2 } from 'lucide-react';
+import { ScriptTrack, COMMON_TRACK_LANGS, DEFAULT_TRACK_LANG, normalizeLanguageTag } from '../utils/scriptTracks';
+import { pickVoice, voiceWarning } from '../utils/voiceSelection';
+import { SCRIPT_FILE_ACCEPT } from '../utils/scriptImport';
+
+interface ScriptTrackListProps {
+  movieId: string;                   // Prefixo dos ids do formulário (várias listas na biblioteca)
+  tracks: ScriptTrack[];
+  activeTrackId: string;
+  voices: SpeechSynthesisVoice[];
+  retimingTrackId: string | null;    // Faixa com o painel de reajuste aberto
+  translatingTrackId: string | null; // Faixa com o painel de tradução aberto
+  onSelect: (trackId: string) => void;
+  onRetime: (trackId: string) => void;
+  onTranslate: (trackId: string) => void;
+  onRemove: (trackId: string) => void;
+  onAdd: (file: File, name: string, lang: string) => void; // `lang` já normalizado
+}
+
+const ScriptTrackList: React.FC<ScriptTrackListProps> = ({
+    movieId,
+    tracks,
+    activeTrackId,
+    voices,
+    retimingTrackId,
+    translatingTrackId,
+    onSelect,
+    onRetime,
+    onTranslate,
+    onRemove,
+    onAdd
+}) => {
+  const [name, setName] = useState('');
+  const [lang, setLang] = useState(DEFAULT_TRACK_LANG);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = ''; // Permite carregar o mesmo ficheiro outra vez
+      if (!file) return;
+      const canonical = normalizeLanguageTag(lang);
+      if (!canonical) {
+          setError(`Língua inválida: "${lang}" (ex: pt-PT, pt-BR, en-GB)`);
+          return;
+      }
+      setError(null);
+      onAdd(file, name, canonical);
+      setName('');
+  };
+
+  return (
+    <div className="mt-3 space-y-2 text-xs">
+        <div className="flex flex-wrap gap-2">
+            {tracks.map(track => {
+                const isActive = track.id === activeTrackId;
+                const warning = voices.length > 0 ? voiceWarning(pickVoice(voices, track.lang), track.lang) : null;
+                return (
+                    <div key={track.id} className={`flex items-center gap-1 pl-2 pr-1 py-1 rounded-lg border ${isActive ? 'bg-blue-900/30 border-blue-500/50 text-white' : 'bg-slate-900 border-slate-700 text-slate-400'}`}>
+                        <button onClick={() => onSelect(track.id)} className="flex items-center gap-1" title={isActive ? 'Faixa ativa' : 'Usar esta faixa'}>
+                            <span className="font-medium">{track.name}</span>
+                            <span className="font-mono text-slate-500">{track.lang}</span>
+                            <span className="text-slate-500">· {track.entries.length} linhas</span>
+                        </button>
+                        {warning && <span title={warning}><AlertTriangle size={12} className="text-amber-400" /></span>}
+                        <button
+                            onClick={() => onRetime(track.id)}
+                            className={`p-1 rounded ${retimingTrackId === track.id ? 'bg-slate-700 text-white' : 'hover:text-white hover:bg-slate-800'}`}
+                            title="Reajustar tempos"
+                        >
+                            <Clock size={12} />
+                        </button>
+                        <button
+                            onClick={() => onTranslate(track.id)}
+                            className={`p-1 rounded ${translatingTrackId === track.id ? 'bg-slate-700 text-white' : 'hover:text-white hover:bg-slate-800'}`}
+                            title="Traduzir para uma nova faixa"
+                        >
+                            <Languages size={12} />
+                        </button>
+                        <button onClick={() => onRemove(track.id)} disabled={tracks.length === 1} className="p-1 rounded hover:text-red-400 hover:bg-slate-800 disabled:opacity-30 disabled:hover:bg-transparent" title="Remover faixa"><Trash2 size={12} /></button>
+                    </div>
+                );
+            })}
+        </div>
+        <div className="flex items-center gap-2">
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Nova faixa (nome)" className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 w-40" />
+            <input value={lang} onChange={(e) => setLang(e.target.value)} list={`track-langs-${movieId}`} className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200 font-mono w-24" title="Língua (BCP-47)" />
+            <datalist id={`track-langs-${movieId}`}>
+                {COMMON_TRACK_LANGS.map(l => <option key={l} value={l} />)}
+            </datalist>
+            <label className="flex items-center gap-1 px-2 py-1 rounded border border-dashed border-slate-700 text-slate-400 hover:bg-slate-800 cursor-pointer">
+                <FileText size={12} /> Carregar guião
+                <input type="file" accept={SCRIPT_FILE_ACCEPT} className="hidden" onChange={handleUpload} />
+            </label>
+        </div>
+        {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default ScriptTrackList;
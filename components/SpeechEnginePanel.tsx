@@ -0,0 +1,146 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioLines, Loader2, Trash2 } from 'lucide-react';
+import { SpeechCue, SpeechEngineKind } from '../utils/speechEngine';
+import { SpeechClipRenderer, cachedClipKeys, clipKey, deleteCachedClips, prerenderClips } from '../utils/speechClips';
+
+interface SpeechEnginePanelProps {
+  kind: SpeechEngineKind;
+  namespace: string;                     // Id do filme dos clips
+  cues: SpeechCue[];                     // Linhas da faixa ativa
+  lang: string;                          // Língua da faixa ativa (linhas sem `lang`)
+  renderer: SpeechClipRenderer | null;   // Null sem chave da API
+  disabled?: boolean;                    // Sync ativo: o motor não muda a meio
+  onKindChange: (kind: SpeechEngineKind) => void;
+}
+
+const ENGINE_LABELS: Record<SpeechEngineKind, string> = {
+  webSpeech: 'Voz do browser',
+  gemini: 'Gemini TTS (na hora)',
+  clips: 'Clips pré-gerados'
+};
+
+const SpeechEnginePanel: React.FC<SpeechEnginePanelProps> = ({
+    kind,
+    namespace,
+    cues,
+    lang,
+    renderer,
+    disabled,
+    onKindChange
+}) => {
+  const [clipCount, setClipCount] = useState<number | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Linhas da faixa que já têm clip no filme
+  const countClips = async () => {
+      try {
+          const keys = await cachedClipKeys(namespace);
+          setClipCount(cues.filter(c => keys.has(clipKey(c.text, c.attributes, c.attributes.lang ?? lang))).length);
+      } catch (e) {
+          console.error(e);
+          setClipCount(null);
+      }
+  };
+
+  useEffect(() => { countClips(); }, [namespace, cues, lang]);
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const prerender = async () => {
+      if (!renderer) return;
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setError(null);
+      setStatus(null);
+      setProgress('A preparar...');
+      try {
+          const result = await prerenderClips(namespace, cues, lang, renderer, (done, total) => setProgress(`A gerar clips (${done}/${total})...`), controller.signal);
+          if (controller.signal.aborted) return;
+          setStatus(`${result.rendered} clips gerados, ${result.cached} já existiam` + (result.failed > 0 ? `, ${result.failed} falharam` : ''));
+      } catch (e) {
+          console.error(e);
+          setError((e as Error).message || 'Falha ao gerar os clips');
+      } finally {
+          if (abortRef.current === controller) abortRef.current = null;
+          setProgress(null);
+          countClips();
+      }
+  };
+
+  const cancel = () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+      setProgress(null);
+  };
+
+  const removeClips = async () => {
+      try {
+          await deleteCachedClips(namespace);
+          setStatus('Clips apagados');
+      } catch (e) {
+          setError((e as Error).message || 'Falha ao apagar os clips');
+      }
+      countClips();
+  };
+
+  return (
+    <div className="mx-2 mt-2 p-2 rounded-lg bg-slate-950/60 border border-slate-800 text-xs space-y-2">
+        <div className="flex items-center gap-2">
+            <AudioLines size={14} className="text-purple-400" />
+            <select
+                value={kind}
+                onChange={(e) => onKindChange(e.target.value as SpeechEngineKind)}
+                disabled={disabled}
+                className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-300 disabled:opacity-50"
+                title={disabled ? 'Pare o sync para trocar o motor de voz' : 'Motor de voz'}
+            >
+                {(Object.keys(ENGINE_LABELS) as SpeechEngineKind[]).map(k => (
+                    <option key={k} value={k} disabled={k === 'gemini' && !renderer}>{ENGINE_LABELS[k]}</option>
+                ))}
+            </select>
+            {kind !== 'webSpeech' && clipCount !== null && (
+                <span className={clipCount === cues.length ? 'text-emerald-400' : 'text-slate-500'}>{clipCount}/{cues.length} com clip</span>
+            )}
+            {kind !== 'webSpeech' && clipCount !== null && clipCount > 0 && !progress && (
+                <button onClick={removeClips} className="ml-auto text-slate-500 hover:text-red-400" title="Apagar os clips deste filme">
+                    <Trash2 size={12} />
+                </button>
+            )}
+        </div>
+
+        {kind !== 'webSpeech' && (
+            <div className="flex items-center gap-2">
+                {progress ? (
+                    <>
+                        <Loader2 size={12} className="animate-spin text-purple-400" />
+                        <span className="text-slate-400 flex-1">{progress}</span>
+                        <button onClick={cancel} className="text-slate-400 hover:text-white">Cancelar</button>
+                    </>
+                ) : (
+                    <>
+                        <span className="text-slate-500 flex-1">
+                            {kind === 'clips' ? 'Linhas sem clip são lidas pela voz do browser.' : 'Linhas sem clip são geradas ao chegar (com atraso).'}
+                        </span>
+                        {clipCount !== cues.length && (
+                            <button
+                                onClick={prerender}
+                                disabled={!renderer}
+                                className="px-2 py-1 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded"
+                                title={renderer ? 'Gera com o Gemini TTS os clips em falta' : 'Sem chave da API Gemini'}
+                            >
+                                Pré-gerar clips
+                            </button>
+                        )}
+                    </>
+                )}
+            </div>
+        )}
+        {status && <div className="text-slate-400">{status}</div>}
+        {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default SpeechEnginePanel;
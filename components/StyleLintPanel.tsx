@@ -0,0 +1,153 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Download, ListChecks, Settings, Wand2, X } from 'lucide-react';
+import { SrtEntry } from '../utils/srt';
+import {
+  StyleRuleId, StyleSeverity, StyleLintConfig, STYLE_RULES, STYLE_RULE_LABELS,
+  styleLanguageFor, lintScript, applyStyleFixes, countBySeverity, styleLintReport, loadStyleConfig, saveStyleConfig
+} from '../utils/styleLint';
+import { formatTimeInput } from '../utils/scriptEditor';
+import { downloadText } from '../utils/download';
+
+interface StyleLintPanelProps {
+  entries: SrtEntry[];
+  lang: string;                 // Língua do guião (escolhe as regras)
+  title: string;                // Nome do relatório exportado
+  dialogue?: SrtEntry[] | null; // Legendas de diálogo, se houver
+  onApplyFixes?: (entries: SrtEntry[]) => void;
+  onDismiss?: () => void;
+}
+
+const SEVERITY_STYLES: Record<StyleSeverity, string> = {
+  error: 'text-red-400',
+  warning: 'text-amber-400',
+  info: 'text-slate-400'
+};
+
+const SEVERITY_LABELS: Record<StyleSeverity, string> = {
+  error: 'erros',
+  warning: 'avisos',
+  info: 'notas'
+};
+
+/**
+ * Revisão de estilo do guião (regras de audiodescrição da língua), com correções automáticas
+ * e relatório para os revisores.
+ */
+const StyleLintPanel: React.FC<StyleLintPanelProps> = ({ entries, lang, title, dialogue, onApplyFixes, onDismiss }) => {
+  const language = styleLanguageFor(lang);
+  const [config, setConfig] = useState<StyleLintConfig | null>(() => language ? loadStyleConfig(language) : null);
+  const [filter, setFilter] = useState<StyleRuleId | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+
+  useEffect(() => { setConfig(language ? loadStyleConfig(language) : null); }, [language]);
+
+  const diagnostics = useMemo(
+      () => language && config ? lintScript(entries, { language, config, dialogue: dialogue ?? undefined }) : [],
+      [entries, language, config, dialogue]
+  );
+
+  if (!language || !config) {
+      return <div className="rounded-lg p-3 text-xs border border-slate-700 text-slate-500">Sem regras de estilo para {lang} (só português e inglês).</div>;
+  }
+
+  const counts = countBySeverity(diagnostics);
+  const ruleCounts = new Map<StyleRuleId, number>();
+  diagnostics.forEach(d => ruleCounts.set(d.rule, (ruleCounts.get(d.rule) ?? 0) + 1));
+  const shown = filter ? diagnostics.filter(d => d.rule === filter) : diagnostics;
+  const fixable = diagnostics.filter(d => d.fix).length;
+
+  const updateConfig = (next: StyleLintConfig) => {
+      saveStyleConfig(language, next);
+      setConfig(next);
+  };
+
+  const toggleRule = (rule: StyleRuleId) => {
+      updateConfig({ ...config, rules: { ...config.rules, [rule]: { ...config.rules[rule], enabled: !config.rules[rule].enabled } } });
+  };
+
+  const setMaxWordsPerMinute = (value: string) => {
+      const wpm = parseInt(value, 10);
+      if (wpm > 0) updateConfig({ ...config, maxWordsPerMinute: wpm });
+  };
+
+  const exportReport = () => {
+      downloadText(`${title.trim() || 'guiao'}-estilo.csv`, styleLintReport(entries, diagnostics, formatTimeInput), 'text/csv');
+  };
+
+  return (
+    <div className="rounded-lg p-3 text-xs border bg-slate-900/60 border-slate-700 text-slate-300">
+        <div className="flex items-center gap-2 font-bold">
+            {diagnostics.length > 0 ? <ListChecks size={14} className="text-amber-400" /> : <CheckCircle size={14} className="text-emerald-400" />}
+            <span>Revisão de estilo ({language.toUpperCase()})</span>
+            <span className="font-normal text-slate-500">
+                {diagnostics.length === 0 ? 'sem problemas' : (['error', 'warning', 'info'] as StyleSeverity[])
+                    .filter(s => counts[s] > 0).map(s => `${counts[s]} ${SEVERITY_LABELS[s]}`).join(' · ')}
+            </span>
+            <div className="ml-auto flex items-center gap-2">
+                <button onClick={() => setShowSettings(!showSettings)} className={`hover:text-white ${showSettings ? 'text-white' : 'text-slate-500'}`} title="Regras"><Settings size={14} /></button>
+                {diagnostics.length > 0 && <button onClick={exportReport} className="text-slate-500 hover:text-white" title="Exportar relatório (CSV)"><Download size={14} /></button>}
+                {onDismiss && <button onClick={onDismiss} className="text-slate-500 hover:text-white" title="Fechar revisão"><X size={14} /></button>}
+            </div>
+        </div>
+
+        {showSettings && (
+            <div className="mt-2 p-2 rounded bg-slate-950/60 border border-slate-800 space-y-1">
+                {STYLE_RULES.map(rule => (
+                    <label key={rule} className="flex items-center gap-2 cursor-pointer">
+                        <input type="checkbox" checked={config.rules[rule].enabled} onChange={() => toggleRule(rule)} />
+                        {STYLE_RULE_LABELS[rule]}
+                        <span className={SEVERITY_STYLES[config.rules[rule].severity]}>({config.rules[rule].severity})</span>
+                    </label>
+                ))}
+                <label className="flex items-center gap-2">
+                    Máximo
+                    <input
+                        type="number"
+                        min={60}
+                        defaultValue={config.maxWordsPerMinute}
+                        onBlur={(e) => setMaxWordsPerMinute(e.currentTarget.value)}
+                        className="w-16 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-slate-200"
+                    />
+                    palavras por minuto
+                </label>
+            </div>
+        )}
+
+        {diagnostics.length > 0 && (
+            <>
+                <div className="flex flex-wrap gap-1 mt-2">
+                    {STYLE_RULES.filter(rule => ruleCounts.has(rule)).map(rule => (
+                        <button
+                            key={rule}
+                            onClick={() => setFilter(filter === rule ? null : rule)}
+                            className={`px-2 py-0.5 rounded-full border ${filter === rule ? 'bg-slate-600/40 border-slate-400' : 'border-slate-700 hover:bg-slate-700/30'}`}
+                        >
+                            {STYLE_RULE_LABELS[rule]}: {ruleCounts.get(rule)}
+                        </button>
+                    ))}
+                </div>
+                <ul className="mt-2 space-y-0.5 max-h-40 overflow-y-auto">
+                    {shown.map((d, i) => (
+                        <li key={i}>
+                            <span className="font-mono text-slate-500">{formatTimeInput(d.startTime)} </span>
+                            <span className={SEVERITY_STYLES[d.severity]}>{d.message}</span>
+                            {d.suggestion && <span className="text-slate-500"> · {d.suggestion}</span>}
+                        </li>
+                    ))}
+                </ul>
+                {onApplyFixes && fixable > 0 && (
+                    <button
+                        onClick={() => onApplyFixes(applyStyleFixes(entries, diagnostics).entries)}
+                        className="mt-2 flex items-center gap-1 px-2 py-1 bg-slate-700 hover:bg-slate-600 text-white rounded"
+                        title="Tempos verbais e nomes com correção segura"
+                    >
+                        <Wand2 size={12} /> Aplicar {fixable} {fixable === 1 ? 'correção' : 'correções'}
+                    </button>
+                )}
+            </>
+        )}
+    </div>
+  );
+};
+
+export default StyleLintPanel;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { Download, Gauge, Loader2 } from 'lucide-react';
+import { SrtEntry } from '../utils/srt';
+import { CueFit, timingFitReport } from '../utils/timingFit';
+import { SpeechRateModel, calibrateSpeechRate, saveSpeechRateModel, wordsPerMinute } from '../utils/speechRateModel';
+import { formatTimeInput } from '../utils/scriptEditor';
+import { downloadText } from '../utils/download';
+
+interface TimingFitPanelProps {
+  entries: SrtEntry[];
+  fits: CueFit[];
+  voiceName: string | undefined;  // Voz por omissão do estúdio (a que é calibrada)
+  model: SpeechRateModel;
+  title: string;
+  createUtterance: (text: string) => SpeechSynthesisUtterance;
+  onModelChange: () => void; // Modelo novo guardado para `voiceName`
+}
+
+const TimingFitPanel: React.FC<TimingFitPanelProps> = ({
+    entries,
+    fits,
+    voiceName,
+    model,
+    title,
+    createUtterance,
+    onModelChange
+}) => {
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const overlaps = fits.filter(f => f.status === 'overlap').length;
+  const overflows = fits.filter(f => f.status === 'overflow').length;
+
+  const runCalibration = async () => {
+      setError(null);
+      setProgress('A medir a voz...');
+      try {
+          const result = await calibrateSpeechRate(createUtterance, (done, total) => setProgress(`A medir a voz (${done}/${total})...`));
+          saveSpeechRateModel(voiceName, result);
+          onModelChange();
+      } catch (e) {
+          console.error(e);
+          setError((e as Error).message || 'Falha na medição');
+      } finally {
+          setProgress(null);
+      }
+  };
+
+  const exportReport = () => {
+      downloadText(`${title.trim() || 'guiao'}-encaixe.csv`, timingFitReport(entries, fits, formatTimeInput), 'text/csv');
+  };
+
+  return (
+    <div className="mx-2 mt-2 p-2 rounded-lg bg-slate-950/60 border border-slate-800 text-xs">
+        <div className="flex items-center gap-2">
+            <Gauge size={14} className={overlaps > 0 ? 'text-red-400' : overflows > 0 ? 'text-amber-400' : 'text-emerald-400'} />
+            <span className="text-slate-300">
+                {overlaps + overflows === 0 ? 'Todas as linhas cabem' : (
+                    <>
+                        {overlaps > 0 && <span className="text-red-400">{overlaps} cortadas</span>}
+                        {overlaps > 0 && overflows > 0 && ' · '}
+                        {overflows > 0 && <span className="text-amber-400">{overflows} longas</span>}
+                    </>
+                )}
+            </span>
+            <button onClick={exportReport} className="ml-auto p-1 text-slate-400 hover:text-white hover:bg-slate-800 rounded" title="Exportar relatório (CSV)"><Download size={14} /></button>
+        </div>
+        <div className="flex items-center gap-2 mt-1 text-slate-500">
+            <span title={voiceName}>
+                {Math.round(wordsPerMinute(model))} ppm {model.measuredAt ? '(medido)' : '(estimado)'}
+            </span>
+            <button onClick={runCalibration} disabled={progress !== null} className="ml-auto flex items-center gap-1 text-slate-400 hover:text-white disabled:opacity-50">
+                {progress ? <Loader2 size={12} className="animate-spin" /> : null} {progress ?? (model.measuredAt ? 'Medir de novo' : 'Medir voz')}
+            </button>
+        </div>
+        {error && <div className="text-red-400 mt-1">{error}</div>}
+    </div>
+  );
+};
+
+export default TimingFitPanel;
@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Languages, Loader2, X } from 'lucide-react';
+import { ScriptTrack, COMMON_TRACK_LANGS, createScriptTrack, languageLabel, normalizeLanguageTag } from '../utils/scriptTracks';
+import { SpeechRateModel } from '../utils/speechRateModel';
+import { ScriptTranslationClient, translateScript } from '../utils/scriptTranslation';
+
+interface TranslationPanelProps {
+  client: ScriptTranslationClient | null; // Null sem chave da API
+  movieId: string;                        // Prefixo dos ids do formulário
+  title: string;
+  source: ScriptTrack;
+  rate: number;
+  modelFor: (lang: string) => SpeechRateModel; // Velocidade da voz que vai ler a tradução
+  onCreate: (track: ScriptTrack) => void;
+  onClose: () => void;
+}
+
+// Destino sugerido: inglês para guiões portugueses, português para os restantes
+const defaultTargetLang = (sourceLang: string) => sourceLang.startsWith('pt') ? 'en-GB' : 'pt-PT';
+
+/**
+ * Tradução de uma faixa para uma nova faixa do mesmo filme, com cada linha a caber na sua janela.
+ */
+const TranslationPanel: React.FC<TranslationPanelProps> = ({ client, movieId, title, source, rate, modelFor, onCreate, onClose }) => {
+  const [lang, setLang] = useState(() => defaultTargetLang(source.lang));
+  const [name, setName] = useState('');
+  const [notes, setNotes] = useState('');
+  const [progress, setProgress] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const translate = async () => {
+      if (!client) return;
+      const target = normalizeLanguageTag(lang);
+      if (!target) {
+          setError(`Língua inválida: "${lang}" (ex: en-GB, es-ES)`);
+          return;
+      }
+      if (target === source.lang) {
+          setError('A língua de destino é a da faixa original');
+          return;
+      }
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setError(null);
+      setStatus(null);
+      setProgress('A traduzir...');
+      try {
+          const result = await translateScript(source.entries, {
+              client,
+              title,
+              sourceLang: source.lang,
+              targetLang: target,
+              model: modelFor(target),
+              rate,
+              notes: notes.trim() || undefined,
+              onProgress: (done, total, shortening) => setProgress(`${shortening ? 'A encurtar' : 'A traduzir'} (${done}/${total} linhas)...`),
+              signal: controller.signal
+          });
+          if (controller.signal.aborted) return;
+
+          onCreate(createScriptTrack(name || `${source.name} (${languageLabel(target)})`, target, result.entries));
+          setName('');
+          setStatus([
+              `${result.entries.length} linhas traduzidas por rever`,
+              ...(result.shortened > 0 ? [`${result.shortened} encurtadas`] : []),
+              ...(result.overflowing > 0 ? [`${result.overflowing} ainda não cabem`] : []),
+              ...(result.untranslated > 0 ? [`${result.untranslated} ficaram no original`] : [])
+          ].join(', '));
+      } catch (e) {
+          if (controller.signal.aborted) return;
+          console.error(e);
+          setError((e as Error).message || 'Falha na tradução');
+      } finally {
+          if (abortRef.current === controller) abortRef.current = null;
+          setProgress(null);
+      }
+  };
+
+  const cancel = () => {
+      abortRef.current?.abort();
+      abortRef.current = null;
+      setProgress(null);
+  };
+
+  const inputClass = "bg-slate-900 border border-slate-700 rounded px-2 py-1 text-slate-200";
+
+  return (
+    <div className="mt-2 p-3 rounded-lg bg-slate-900/60 border border-slate-700 text-xs space-y-2">
+        <div className="flex items-center gap-2 text-slate-300">
+            <Languages size={14} className="text-purple-400" />
+            <span className="font-medium">Traduzir "{source.name}"</span>
+            <span className="text-slate-500 font-mono">{source.lang} →</span>
+            <input value={lang} onChange={(e) => setLang(e.target.value)} list={`translation-langs-${movieId}`} className={`${inputClass} font-mono w-24`} title="Língua de destino (BCP-47)" />
+            <datalist id={`translation-langs-${movieId}`}>
+                {COMMON_TRACK_LANGS.filter(l => l !== source.lang).map(l => <option key={l} value={l} />)}
+            </datalist>
+            <button onClick={onClose} className="ml-auto text-slate-500 hover:text-white" title="Fechar"><X size={14} /></button>
+        </div>
+        <div className="flex items-center gap-2">
+            <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Nome da nova faixa (opcional)" className={`${inputClass} w-56`} />
+            <input value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Notas: glossário, nomes que não se traduzem..." className={`${inputClass} flex-1`} />
+        </div>
+        <div className="flex items-center gap-2">
+            {progress ? (
+                <>
+                    <Loader2 size={12} className="animate-spin text-purple-400" />
+                    <span className="text-slate-400 flex-1">{progress}</span>
+                    <button onClick={cancel} className="text-slate-400 hover:text-white">Cancelar</button>
+                </>
+            ) : (
+                <>
+                    <span className="text-slate-500 flex-1">Cada linha é traduzida para caber no seu tempo; as que não cabem são pedidas outra vez, mais curtas.</span>
+                    <button
+                        onClick={translate}
+                        disabled={!client || source.entries.length === 0}
+                        className="px-3 py-1.5 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded"
+                        title={client ? 'Cria uma nova faixa com a tradução' : 'Sem chave da API Gemini'}
+                    >
+                        Traduzir
+                    </button>
+                </>
+            )}
+        </div>
+        {status && <div className="text-amber-400">{status}</div>}
+        {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
+
+export default TranslationPanel;
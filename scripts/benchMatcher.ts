@@ -0,0 +1,87 @@
+/**
+ * Benchmark do scan global do AudioMatcher: correlação direta O(N·M) vs FFT.
+ * Verifica também que ambos os métodos dão o mesmo resultado (dentro da tolerância).
+ *
+ * Uso: npm run bench:matcher
+ */
+import { slidingPearsonDirect, slidingPearsonFFT } from '../utils/correlation';
+
+const ENVELOPE_RATE = 20;   // Igual a TARGET_SAMPLE_RATE do AudioMatcher
+const LIVE_SECONDS = 8;     // ~90 chunks de 4096 a 48kHz
+const TOLERANCE = 1e-6;
+
+// Gerador determinístico para resultados reproduzíveis
+let seed = 12345;
+const random = () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+/**
+ * Envelope sintético: "cenas" com nível médio próprio + flutuação rápida.
+ */
+function syntheticEnvelope(points: number): Float32Array {
+  const env = new Float32Array(points);
+  let level = 0.1;
+  for (let i = 0; i < points; i++) {
+    if (i % (ENVELOPE_RATE * 4) === 0) level = 0.02 + random() * 0.3;
+    env[i] = Math.max(0, level + (random() - 0.5) * level);
+  }
+  return env;
+}
+
+function argMax(values: Float64Array): number {
+  let best = -1;
+  let bestValue = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > bestValue) { bestValue = values[i]; best = i; }
+  }
+  return best;
+}
+
+function time<T>(fn: () => T): { value: T; ms: number } {
+  const start = performance.now();
+  const value = fn();
+  return { value, ms: performance.now() - start };
+}
+
+const results = [90, 180].map(minutes => {
+  const master = syntheticEnvelope(minutes * 60 * ENVELOPE_RATE);
+  const N = LIVE_SECONDS * ENVELOPE_RATE;
+  const trueStart = Math.floor(master.length * 0.61);
+  const live = master.slice(trueStart, trueStart + N).map(v => v * 0.7 + random() * 0.01);
+  const endIdx = master.length - N;
+
+  // Aquecimento do JIT
+  slidingPearsonFFT(master, live, 0, endIdx);
+
+  const direct = time(() => slidingPearsonDirect(master, live, 0, endIdx));
+  const viaFFT = time(() => slidingPearsonFFT(master, live, 0, endIdx));
+
+  let maxAbsError = 0;
+  for (let i = 0; i < direct.value.length; i++) {
+    const a = direct.value[i], b = viaFFT.value[i];
+    if (Number.isNaN(a) !== Number.isNaN(b)) { maxAbsError = Infinity; break; }
+    if (!Number.isNaN(a)) maxAbsError = Math.max(maxAbsError, Math.abs(a - b));
+  }
+
+  const bestDirect = argMax(direct.value);
+  const bestFFT = argMax(viaFFT.value);
+
+  return {
+    referenceMinutes: minutes,
+    positions: endIdx,
+    directMs: Math.round(direct.ms),
+    fftMs: Math.round(viaFFT.ms),
+    speedup: Number((direct.ms / viaFFT.ms).toFixed(1)),
+    maxAbsError,
+    sameBestOffset: bestDirect === bestFFT && bestDirect === trueStart,
+    withinTolerance: maxAbsError <= TOLERANCE
+  };
+});
+
+console.log(JSON.stringify(results, null, 2));
+
+if (results.some(r => !r.withinTolerance || !r.sameBestOffset)) {
+  process.exitCode = 1;
+}
@@ -0,0 +1,131 @@
+/**
+ * Degradações sintéticas que imitam a captura pelo micro (sala, TV, portátil).
+ * Todas recebem e devolvem PCM mono; o `random` é injetado para resultados reproduzíveis.
+ */
+import { fft, nextPowerOfTwo } from '../utils/fft';
+
+export type Degradation =
+  | { type: 'noise'; snrDb: number }
+  | { type: 'reverb'; rt60: number }
+  | { type: 'gain'; db: number; wobbleDb?: number }  // wobbleDb: variação lenta (AGC da TV)
+  | { type: 'bandlimit'; lowHz: number; highHz: number }
+  | { type: 'speed'; rate: number };                 // rate > 1: o filme toca mais depressa
+
+const CONVOLUTION_BLOCK = 65536;
+const WOBBLE_PERIOD_SECONDS = 10;
+
+export function applyDegradation(pcm: Float32Array, sampleRate: number, d: Degradation, random: () => number): Float32Array {
+  switch (d.type) {
+    case 'noise': return addNoise(pcm, d.snrDb, random);
+    case 'reverb': return convolve(pcm, impulseResponse(sampleRate, d.rt60, random));
+    case 'gain': return applyGain(pcm, sampleRate, d.db, d.wobbleDb ?? 0);
+    case 'bandlimit': return biquad(biquad(pcm, sampleRate, 'highpass', d.lowHz), sampleRate, 'lowpass', d.highHz);
+    case 'speed': return changeSpeed(pcm, d.rate);
+  }
+}
+
+function rms(pcm: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < pcm.length; i++) sum += pcm[i] * pcm[i];
+  return Math.sqrt(sum / Math.max(1, pcm.length));
+}
+
+function gaussian(random: () => number): number {
+  // Box-Muller
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+function addNoise(pcm: Float32Array, snrDb: number, random: () => number): Float32Array {
+  const noiseRms = rms(pcm) / Math.pow(10, snrDb / 20);
+  const out = new Float32Array(pcm.length);
+  for (let i = 0; i < pcm.length; i++) out[i] = pcm[i] + gaussian(random) * noiseRms;
+  return out;
+}
+
+/**
+ * Resposta impulsional de sala: impulso direto + cauda de ruído com decaimento exponencial.
+ */
+function impulseResponse(sampleRate: number, rt60: number, random: () => number): Float32Array {
+  const length = Math.max(1, Math.floor(rt60 * sampleRate));
+  const ir = new Float32Array(length);
+  ir[0] = 1;
+  for (let i = 1; i < length; i++) {
+    ir[i] = 0.3 * gaussian(random) * Math.exp((-6.9 * i) / (rt60 * sampleRate)); // -60dB em rt60
+  }
+  return ir;
+}
+
+/**
+ * Convolução por blocos (overlap-add com FFT): evita uma FFT do filme inteiro.
+ */
+function convolve(pcm: Float32Array, ir: Float32Array): Float32Array {
+  const n = nextPowerOfTwo(CONVOLUTION_BLOCK + ir.length - 1);
+  const irRe = new Float64Array(n), irIm = new Float64Array(n);
+  irRe.set(ir);
+  fft(irRe, irIm);
+
+  const out = new Float32Array(pcm.length);
+  const re = new Float64Array(n), im = new Float64Array(n);
+  for (let start = 0; start < pcm.length; start += CONVOLUTION_BLOCK) {
+    re.fill(0); im.fill(0);
+    re.set(pcm.subarray(start, start + CONVOLUTION_BLOCK));
+    fft(re, im);
+    for (let k = 0; k < n; k++) {
+      const r = re[k] * irRe[k] - im[k] * irIm[k];
+      im[k] = re[k] * irIm[k] + im[k] * irRe[k];
+      re[k] = r;
+    }
+    fft(re, im, true);
+    const end = Math.min(pcm.length, start + n);
+    for (let i = start; i < end; i++) out[i] += re[i - start];
+  }
+  return out;
+}
+
+function applyGain(pcm: Float32Array, sampleRate: number, db: number, wobbleDb: number): Float32Array {
+  const out = new Float32Array(pcm.length);
+  const omega = (2 * Math.PI) / (WOBBLE_PERIOD_SECONDS * sampleRate);
+  for (let i = 0; i < pcm.length; i++) {
+    const gain = Math.pow(10, (db + wobbleDb * Math.sin(omega * i)) / 20);
+    out[i] = Math.max(-1, Math.min(1, pcm[i] * gain)); // Clipping do ADC
+  }
+  return out;
+}
+
+/**
+ * Filtro biquad (RBJ cookbook), Q = 1/√2.
+ */
+function biquad(pcm: Float32Array, sampleRate: number, kind: 'lowpass' | 'highpass', cutoffHz: number): Float32Array {
+  const w0 = (2 * Math.PI * Math.min(cutoffHz, sampleRate * 0.49)) / sampleRate;
+  const alpha = Math.sin(w0) / Math.SQRT2;
+  const cos = Math.cos(w0);
+  const b1 = kind === 'lowpass' ? 1 - cos : -(1 + cos);
+  const b0 = kind === 'lowpass' ? b1 / 2 : -b1 / 2;
+  const b2 = b0;
+  const a0 = 1 + alpha, a1 = -2 * cos, a2 = 1 - alpha;
+
+  const out = new Float32Array(pcm.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < pcm.length; i++) {
+    const x = pcm[i];
+    const y = (b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2) / a0;
+    x2 = x1; x1 = x; y2 = y1; y1 = y;
+    out[i] = y;
+  }
+  return out;
+}
+
+/**
+ * Reprodução a `rate`× (interpolação linear): a amostra i corresponde a i·rate no original.
+ */
+function changeSpeed(pcm: Float32Array, rate: number): Float32Array {
+  const out = new Float32Array(Math.floor(pcm.length / rate));
+  for (let i = 0; i < out.length; i++) {
+    const pos = i * rate;
+    const i0 = Math.floor(pos);
+    const i1 = Math.min(i0 + 1, pcm.length - 1);
+    const frac = pos - i0;
+    out[i] = pcm[i0] * (1 - frac) + pcm[i1] * frac;
+  }
+  return out;
+}
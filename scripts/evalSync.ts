@@ -0,0 +1,244 @@
+/**
+ * Avaliação offline da sincronização: capturas "de micro" degradadas, tiradas de
+ * posições aleatórias da referência, passam pelo mesmo caminho do estúdio
+ * (createLiveFingerprint → findMatch → SyncVerifier → SyncTracker).
+ * Reporta taxa de lock, tempo até lock, falsos locks e erro de posição em JSON.
+ *
+ * Uso: npm run eval:sync -- [referencia.wav] [--method envelope|spectral] [--trials 20]
+ *        [--checks 10] [--seed 1] [--profiles clean,noise-0db] [--max-minutes 30]
+ *        [--min-lock-rate 0.9] [--max-false-lock 0.05]
+ * Sem ficheiro, usa uma referência sintética (útil em CI, mas menos realista).
+ */
+import { readFileSync } from 'node:fs';
+import { AudioMatcher, MatchMethod } from '../utils/audioMatcher';
+import { resampleAverage } from '../utils/spectralFingerprint';
+import { SyncVerifier } from '../utils/syncVerifier';
+import { SyncTracker } from '../utils/syncTracker';
+import { readWav } from './wav';
+import { Degradation, applyDegradation } from './degradations';
+
+const WORK_SAMPLE_RATE = 16000;   // Reamostragem da referência (chega para os dois métodos)
+const CHECK_INTERVAL = 2;         // Como o setInterval do runSyncCheck
+const MAX_CAPTURE_SECONDS = 8;    // LIVE_BUFFER_SECONDS do estúdio (ring buffer do micro)
+const MIN_CAPTURE_SECONDS = 2.5;  // Abaixo disto o estúdio não faz match
+const LOCAL_SCAN_SECONDS = 120;
+const FALSE_LOCK_TOLERANCE = 2;   // Lock a mais de 2s da posição real conta como falso
+const SYNTHETIC_MINUTES = 10;
+
+interface Profile {
+  name: string;
+  speed: number; // Velocidade do filme face à referência (aplicada antes das outras)
+  steps: Degradation[];
+}
+
+const PROFILES: Profile[] = [
+  { name: 'clean', speed: 1, steps: [] },
+  { name: 'noise-10db', speed: 1, steps: [{ type: 'noise', snrDb: 10 }] },
+  { name: 'noise-0db', speed: 1, steps: [{ type: 'noise', snrDb: 0 }] },
+  { name: 'reverb', speed: 1, steps: [{ type: 'reverb', rt60: 0.6 }] },
+  { name: 'gain', speed: 1, steps: [{ type: 'gain', db: -24, wobbleDb: 6 }] },
+  { name: 'bandlimit', speed: 1, steps: [{ type: 'bandlimit', lowHz: 300, highHz: 3400 }] },
+  { name: 'pal-speedup', speed: 25 / 24, steps: [] },
+  {
+    name: 'living-room',
+    speed: 1,
+    steps: [
+      { type: 'reverb', rt60: 0.4 },
+      { type: 'bandlimit', lowHz: 150, highHz: 6000 },
+      { type: 'gain', db: -12, wobbleDb: 3 },
+      { type: 'noise', snrDb: 5 }
+    ]
+  }
+];
+
+interface TrialResult {
+  locked: boolean;
+  falseLock: boolean;
+  timeToLock: number | null;    // Segundos desde o início da captura
+  lockError: number | null;     // |posição do lock - posição real|
+  trackingErrors: number[];     // Erro do tracker nos checks após o lock
+  confidences: number[];
+}
+
+// --- Argumentos ---
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback: string): string => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && i + 1 < args.length ? args[i + 1] : fallback;
+};
+const referencePath = args.find((a, i) => !a.startsWith('--') && (i === 0 || !args[i - 1].startsWith('--')));
+const methodOption = option('method', 'envelope');
+const trials = Number(option('trials', '20'));
+const checks = Number(option('checks', '10'));
+const maxMinutes = Number(option('max-minutes', '30'));
+const profileFilter = option('profiles', '').split(',').filter(Boolean);
+const minLockRate = Number(option('min-lock-rate', 'NaN'));
+const maxFalseLock = Number(option('max-false-lock', 'NaN'));
+
+const MATCH_METHODS: readonly MatchMethod[] = ['envelope', 'spectral', 'dialogue'];
+const isMatchMethod = (value: string): value is MatchMethod => (MATCH_METHODS as readonly string[]).includes(value);
+if (!isMatchMethod(methodOption)) {
+  console.error(`[evalSync] Método desconhecido: "${methodOption}" (${MATCH_METHODS.join(', ')})`);
+  console.error('Uso: npm run eval:sync -- [referencia.wav] [--method envelope|spectral] [--trials 20] [--checks 10] [--seed 1] [--profiles clean,noise-0db] [--max-minutes 30] [--min-lock-rate 0.9] [--max-false-lock 0.05]');
+  process.exit(2);
+}
+if (methodOption === 'dialogue') {
+  console.error('[evalSync] O método "dialogue" precisa de legendas de diálogo, que esta avaliação não usa: escolha envelope ou spectral');
+  process.exit(2);
+}
+const method: MatchMethod = methodOption;
+
+// Gerador determinístico para resultados reproduzíveis
+let seed = Number(option('seed', '1')) || 1;
+const random = () => {
+  seed = (seed * 16807) % 2147483647;
+  return seed / 2147483647;
+};
+
+// --- Referência ---
+
+/**
+ * "Cenas" com acordes e rajadas de ruído de nível variável: picos espectrais e envelope com estrutura.
+ */
+function syntheticReference(seconds: number): Float32Array {
+  const pcm = new Float32Array(Math.floor(seconds * WORK_SAMPLE_RATE));
+  let i = 0;
+  while (i < pcm.length) {
+    const length = Math.floor((0.3 + random() * 1.7) * WORK_SAMPLE_RATE);
+    const level = 0.02 + random() * 0.3;
+    const noisy = random() < 0.3;
+    const freqs = [0, 1, 2].map(() => 150 + random() * 3000);
+    for (let k = 0; k < length && i < pcm.length; k++, i++) {
+      const t = i / WORK_SAMPLE_RATE;
+      const fade = Math.min(1, k / 400, (length - k) / 400);
+      const tone = freqs.reduce((sum, f) => sum + Math.sin(2 * Math.PI * f * t), 0) / freqs.length;
+      pcm[i] = level * fade * (noisy ? random() * 2 - 1 : tone);
+    }
+  }
+  return pcm;
+}
+
+function loadReference(): { pcm: Float32Array; label: string } {
+  if (!referencePath) {
+    return { pcm: syntheticReference(SYNTHETIC_MINUTES * 60), label: 'synthetic' };
+  }
+  const wav = readWav(readFileSync(referencePath));
+  const pcm = resampleAverage(wav.samples, wav.sampleRate, WORK_SAMPLE_RATE);
+  return { pcm: pcm.subarray(0, Math.min(pcm.length, maxMinutes * 60 * WORK_SAMPLE_RATE)), label: referencePath };
+}
+
+// --- Simulação ---
+
+/**
+ * Uma sessão: captura a crescer até 8s, um check a cada 2s, scan global até ao lock
+ * e scans locais pelo tracker depois dele (estúdio ideal, sem latência).
+ */
+function runTrial(matcher: AudioMatcher, degraded: Float32Array, speed: number): TrialResult {
+  const sessionSeconds = (checks + 1) * CHECK_INTERVAL;
+  const degradedSeconds = degraded.length / WORK_SAMPLE_RATE;
+  const start = random() * Math.max(0, degradedSeconds - sessionSeconds - MAX_CAPTURE_SECONDS);
+
+  const verifier = new SyncVerifier();
+  const tracker = new SyncTracker();
+  const result: TrialResult = { locked: false, falseLock: false, timeToLock: null, lockError: null, trackingErrors: [], confidences: [] };
+
+  for (let k = 1; k <= checks; k++) {
+    const elapsed = k * CHECK_INTERVAL;
+    const capture = Math.min(MAX_CAPTURE_SECONDS, elapsed);
+    if (capture < MIN_CAPTURE_SECONDS) continue;
+
+    const end = start + elapsed; // Segundos na timeline degradada
+    const pcm = degraded.slice(Math.floor((end - capture) * WORK_SAMPLE_RATE), Math.floor(end * WORK_SAMPLE_RATE));
+    const trueTime = end * speed; // Tempo de filme no fim da captura
+
+    const live = matcher.createLiveFingerprint(pcm, WORK_SAMPLE_RATE);
+
+    if (!result.locked) {
+      const match = matcher.findMatch(live, -1, -1, 1);
+      result.confidences.push(match.confidence);
+      const verification = verifier.observe(match.candidates, match.confidence, elapsed, match.playbackRate);
+      if (verification.status === 'locked') {
+        result.locked = true;
+        result.timeToLock = elapsed;
+        result.lockError = Math.abs(verification.time - trueTime);
+        result.falseLock = result.lockError > FALSE_LOCK_TOLERANCE;
+        tracker.reset(verification.time, elapsed, match.playbackRate);
+      }
+      continue;
+    }
+
+    const predicted = tracker.predict(elapsed);
+    const match = matcher.findMatch(live, predicted, LOCAL_SCAN_SECONDS, tracker.getRate());
+    result.confidences.push(match.confidence);
+    tracker.update({ clock: elapsed, time: match.currentTime, confidence: match.confidence }, predicted);
+    result.trackingErrors.push(Math.abs(tracker.predict(elapsed) - trueTime));
+  }
+
+  return result;
+}
+
+function percentile(values: number[], p: number): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return round(sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))]);
+}
+
+function round(value: number): number {
+  return Number(value.toFixed(3));
+}
+
+function summarize(profile: Profile, results: TrialResult[]) {
+  const locked = results.filter(r => r.locked);
+  const correct = locked.filter(r => !r.falseLock);
+  const confidences = results.flatMap(r => r.confidences);
+  return {
+    profile: profile.name,
+    trials: results.length,
+    lockRate: round(correct.length / results.length),
+    falseLockRate: round(locked.filter(r => r.falseLock).length / results.length),
+    timeToLock: { median: percentile(correct.map(r => r.timeToLock!), 0.5), p90: percentile(correct.map(r => r.timeToLock!), 0.9) },
+    lockError: { median: percentile(correct.map(r => r.lockError!), 0.5), p90: percentile(correct.map(r => r.lockError!), 0.9) },
+    trackingError: { median: percentile(correct.flatMap(r => r.trackingErrors), 0.5), p90: percentile(correct.flatMap(r => r.trackingErrors), 0.9) },
+    meanConfidence: confidences.length ? round(confidences.reduce((a, b) => a + b, 0) / confidences.length) : null
+  };
+}
+
+// --- Execução ---
+
+// Os logs do matcher iriam misturar-se com o JSON do stdout
+const log = console.log;
+console.log = (...values: unknown[]) => console.error(...values);
+
+const reference = loadReference();
+const matcher = new AudioMatcher(method);
+matcher.generateMasterFingerprintFromPcm(reference.pcm, WORK_SAMPLE_RATE);
+
+const selected = profileFilter.length ? PROFILES.filter(p => profileFilter.includes(p.name)) : PROFILES;
+const summaries = selected.map(profile => {
+  let degraded = profile.speed !== 1 ? applyDegradation(reference.pcm, WORK_SAMPLE_RATE, { type: 'speed', rate: profile.speed }, random) : reference.pcm;
+  for (const step of profile.steps) degraded = applyDegradation(degraded, WORK_SAMPLE_RATE, step, random);
+
+  const results = Array.from({ length: trials }, () => runTrial(matcher, degraded, profile.speed));
+  const summary = summarize(profile, results);
+  console.error(`[evalSync] ${profile.name}: lock ${summary.lockRate}, falsos ${summary.falseLockRate}`);
+  return summary;
+});
+
+log(JSON.stringify({
+  reference: reference.label,
+  referenceSeconds: round(reference.pcm.length / WORK_SAMPLE_RATE),
+  method,
+  trials,
+  checks,
+  profiles: summaries
+}, null, 2));
+
+const failed = summaries.filter(s =>
+  (!Number.isNaN(minLockRate) && s.lockRate < minLockRate) ||
+  (!Number.isNaN(maxFalseLock) && s.falseLockRate > maxFalseLock)
+);
+if (failed.length > 0) {
+  console.error(`[evalSync] Abaixo dos limites: ${failed.map(s => s.profile).join(', ')}`);
+  process.exitCode = 1;
+}
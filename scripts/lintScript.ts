@@ -0,0 +1,72 @@
+/**
+ * Revisão de estilo de um guião fora do browser (mesmas regras do painel da biblioteca):
+ * presente, interpretação, o que se ouve, nomes das personagens, velocidade e tamanho das linhas.
+ *
+ * Uso: npm run lint:script -- guiao.srt [--lang pt-PT] [--dialogue dialogo.srt] [--config regras.json]
+ *        [--format text|csv|json] [--out relatorio.csv] [--fix guiao-corrigido.srt] [--max-errors 0]
+ * --config: JSON com os campos de StyleLintConfig a mudar (ex: {"maxWordsPerMinute": 160,
+ * "rules": {"cue-length": {"enabled": false}}}). Sai com código 1 se houver mais erros do que --max-errors.
+ * TTML precisa de DOMParser, que o Node não tem: converta para SRT/WebVTT antes.
+ */
+import { readFileSync, writeFileSync } from 'node:fs';
+import { basename } from 'node:path';
+import { decodeScriptBytes, importScript } from '../utils/scriptImport';
+import { SrtEntry, serializeSRT } from '../utils/srt';
+import { formatTimeInput } from '../utils/scriptEditor';
+import { lintScript, mergeStyleConfig, styleLanguageFor, styleLintReport, applyStyleFixes, countBySeverity } from '../utils/styleLint';
+
+// --- Argumentos ---
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback: string): string => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && i + 1 < args.length ? args[i + 1] : fallback;
+};
+const scriptPath = args.find((a, i) => !a.startsWith('--') && (i === 0 || !args[i - 1].startsWith('--')));
+const lang = option('lang', 'pt-PT');
+const dialoguePath = option('dialogue', '');
+const configPath = option('config', '');
+const format = option('format', 'text');
+const outPath = option('out', '');
+const fixPath = option('fix', '');
+const maxErrors = Number(option('max-errors', 'NaN'));
+
+function readScript(path: string): SrtEntry[] {
+  const decoded = decodeScriptBytes(new Uint8Array(readFileSync(path)).buffer);
+  const result = importScript(decoded.text, basename(path), decoded.encoding);
+  for (const warning of [...decoded.warnings, ...result.warnings]) {
+    console.error(`[lintScript] ${basename(path)}${warning.line !== undefined ? `:${warning.line}` : ''}: ${warning.message}`);
+  }
+  return result.entries;
+}
+
+if (!scriptPath) {
+  console.error('Uso: npm run lint:script -- guiao.srt [--lang pt-PT] [--dialogue dialogo.srt] [--config regras.json] [--format text|csv|json] [--out ficheiro] [--fix corrigido.srt] [--max-errors 0]');
+  process.exit(2);
+}
+const language = styleLanguageFor(lang);
+if (!language) {
+  console.error(`[lintScript] Sem regras de estilo para "${lang}" (só português e inglês)`);
+  process.exit(2);
+}
+
+const entries = readScript(scriptPath);
+const dialogue = dialoguePath ? readScript(dialoguePath) : undefined;
+const config = mergeStyleConfig(configPath ? JSON.parse(readFileSync(configPath, 'utf8')) : undefined);
+const diagnostics = lintScript(entries, { language, config, dialogue });
+
+const output = format === 'csv' ? styleLintReport(entries, diagnostics, formatTimeInput)
+  : format === 'json' ? JSON.stringify({ script: basename(scriptPath), lang, entries: entries.length, diagnostics }, null, 2) + '\n'
+  : diagnostics.map(d => `${formatTimeInput(d.startTime)}  #${d.entryId}  ${d.severity.padEnd(7)}  ${d.message}${d.suggestion ? ` → ${d.suggestion}` : ''}`).join('\n') + '\n';
+if (outPath) writeFileSync(outPath, output);
+else process.stdout.write(output);
+
+if (fixPath) {
+  const fixed = applyStyleFixes(entries, diagnostics);
+  writeFileSync(fixPath, serializeSRT(fixed.entries));
+  console.error(`[lintScript] ${fixed.applied} correções aplicadas em ${fixPath}`);
+}
+
+const counts = countBySeverity(diagnostics);
+console.error(`[lintScript] ${entries.length} linhas: ${counts.error} erros, ${counts.warning} avisos, ${counts.info} notas`);
+if (!Number.isNaN(maxErrors) && counts.error > maxErrors) process.exitCode = 1;
@@ -0,0 +1,227 @@
+/**
+ * Servidor local que imita o Gemini Live (protocolo BidiGenerateContent em JSON), para testar
+ * o modo ao vivo sem chave da API: responde ao `setup`, conta o áudio/imagens recebidos e envia
+ * descrições de teste (um tom com transcrição) a intervalos regulares, com handles de retoma.
+ * Com --go-away, avisa o fim da ligação e fecha-a, como no limite de sessão real.
+ *
+ * Uso: npm run live:standin -- [--port 8765] [--interval 8] [--go-away 60]
+ * No browser: LIVE_WS_URL=ws://localhost:8765 no .env.local.
+ */
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { Duplex } from 'node:stream';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const OUTPUT_SAMPLE_RATE = 24000;
+const TONE_SECONDS = 1.5;
+const CHUNK_SECONDS = 0.25;       // O Gemini Live também entrega a fala em pedaços
+const GO_AWAY_GRACE_SECONDS = 5;
+
+const SAMPLE_DESCRIPTIONS = [
+  'Uma mulher abre a janela e olha para a rua.',
+  'O carro afasta-se na estrada de terra.',
+  'Noite. A cidade ilumina-se ao longe.'
+];
+
+// Campos do `setup` do cliente que a imitação usa
+interface SetupMessage {
+  model: string;
+  sessionResumption?: { handle?: string };
+}
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) args[argv[i].slice(2)] = argv[i + 1] ?? '';
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const port = Number(args['port'] ?? 8765);
+const interval = Number(args['interval'] ?? 8);
+const goAwayAfter = args['go-away'] ? Number(args['go-away']) : null;
+
+function toneChunks(index: number): string[] {
+  const frequency = 330 + 110 * (index % 3);
+  const total = Math.round(TONE_SECONDS * OUTPUT_SAMPLE_RATE);
+  const chunkLength = Math.round(CHUNK_SECONDS * OUTPUT_SAMPLE_RATE);
+  const chunks: string[] = [];
+  for (let start = 0; start < total; start += chunkLength) {
+    const pcm = new Int16Array(Math.min(chunkLength, total - start));
+    for (let i = 0; i < pcm.length; i++) {
+      const t = (start + i) / OUTPUT_SAMPLE_RATE;
+      const fade = Math.min(1, t / 0.05, (TONE_SECONDS - t) / 0.05);
+      pcm[i] = Math.round(8000 * fade * Math.sin(2 * Math.PI * frequency * t));
+    }
+    chunks.push(Buffer.from(pcm.buffer).toString('base64'));
+  }
+  return chunks;
+}
+
+// --- WebSocket mínimo (só texto, sem fragmentação: chega para mensagens JSON) ---
+
+function encodeFrame(opcode: number, payload: Buffer): Buffer {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Lê as frames completas do buffer; devolve-as e o resto por ler.
+ */
+function decodeFrames(buffer: Buffer): { frames: { opcode: number; payload: Buffer }[]; rest: Buffer } {
+  const frames: { opcode: number; payload: Buffer }[] = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length - offset < headerLength + maskLength + length) break;
+
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, offset + headerLength + maskLength + length));
+    if (masked) {
+      const mask = buffer.subarray(offset + headerLength, offset + headerLength + 4);
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+    frames.push({ opcode, payload });
+    offset += headerLength + maskLength + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+// --- Sessão imitada ---
+
+let sessionCount = 0;
+
+function handleSession(socket: Duplex): void {
+  const id = ++sessionCount;
+  const timers: NodeJS.Timeout[] = [];
+  let pending: Buffer = Buffer.alloc(0);
+  let audioChunks = 0;
+  let videoFrames = 0;
+  let turn = 0;
+  let closed = false;
+
+  const send = (message: object) => {
+    if (!closed) socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+  };
+  const close = (reason: string) => {
+    if (closed) return;
+    const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+    payload.writeUInt16BE(1000, 0);
+    payload.write(reason, 2);
+    socket.write(encodeFrame(0x8, payload));
+    closed = true;
+    timers.forEach(clearTimeout);
+    socket.end();
+  };
+
+  const sendHandle = () => send({ sessionResumptionUpdate: { newHandle: `standin-${id}-${turn}`, resumable: true } });
+
+  const sendDescription = () => {
+    const text = SAMPLE_DESCRIPTIONS[turn % SAMPLE_DESCRIPTIONS.length];
+    for (const data of toneChunks(turn)) {
+      send({ serverContent: { modelTurn: { parts: [{ inlineData: { mimeType: `audio/pcm;rate=${OUTPUT_SAMPLE_RATE}`, data } }] } } });
+    }
+    send({ serverContent: { outputTranscription: { text } } });
+    send({ serverContent: { generationComplete: true, turnComplete: true } });
+    turn++;
+    sendHandle();
+    console.log(`[${id}] descrição ${turn} enviada (recebidos: ${audioChunks} blocos de áudio, ${videoFrames} imagens)`);
+  };
+
+  const onSetup = (setup: SetupMessage) => {
+    const handle = setup.sessionResumption?.handle;
+    console.log(`[${id}] setup: ${setup.model}${handle ? `, retoma ${handle}` : ''}`);
+    send({ setupComplete: {} });
+    sendHandle();
+    timers.push(setInterval(sendDescription, interval * 1000));
+    if (goAwayAfter !== null) {
+      timers.push(setTimeout(() => {
+        console.log(`[${id}] goAway`);
+        send({ goAway: { timeLeft: `${GO_AWAY_GRACE_SECONDS}s` } });
+        timers.push(setTimeout(() => close('Limite de sessão'), GO_AWAY_GRACE_SECONDS * 1000));
+      }, goAwayAfter * 1000));
+    }
+  };
+
+  socket.on('data', (data: Buffer) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, data]));
+    pending = rest;
+    for (const frame of frames) {
+      if (frame.opcode === 0x8) {
+        close('');
+        return;
+      }
+      if (frame.opcode === 0x9) {
+        socket.write(encodeFrame(0xa, frame.payload));
+        continue;
+      }
+      if (frame.opcode !== 0x1) continue;
+      try {
+        const message = JSON.parse(frame.payload.toString('utf8'));
+        if (message.setup) onSetup(message.setup);
+        if (message.realtimeInput?.audio) audioChunks++;
+        if (message.realtimeInput?.video) videoFrames++;
+        if (message.realtimeInput?.text) console.log(`[${id}] texto: ${message.realtimeInput.text}`);
+      } catch {
+        console.error(`[${id}] mensagem ilegível`);
+      }
+    }
+  });
+  socket.on('close', () => {
+    closed = true;
+    timers.forEach(t => clearTimeout(t));
+    console.log(`[${id}] ligação fechada`);
+  });
+  socket.on('error', () => socket.destroy());
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(426, { 'Content-Type': 'text/plain' });
+  res.end('Só WebSocket\n');
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (typeof key !== 'string') {
+    socket.destroy();
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '', ''
+  ].join('\r\n'));
+  handleSession(socket);
+});
+
+server.listen(port, () => {
+  console.log(`Gemini Live (imitação) em ws://localhost:${port}, descrição a cada ${interval}s` +
+    (goAwayAfter !== null ? `, goAway aos ${goAwayAfter}s` : ''));
+});
@@ -0,0 +1,77 @@
+/**
+ * Leitor WAV mínimo para os scripts (PCM 8/16/24/32 bits e float 32/64 bits).
+ * Os canais são misturados em mono, como no buffer do micro.
+ */
+
+export interface WavAudio {
+  sampleRate: number;
+  channels: number;
+  samples: Float32Array; // Mono, -1 a 1
+}
+
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+export function readWav(bytes: Uint8Array): WavAudio {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tag = (offset: number) => String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+  if (bytes.length < 12 || tag(0) !== 'RIFF' || tag(8) !== 'WAVE') {
+    throw new Error('WAV inválido: cabeçalho RIFF/WAVE em falta');
+  }
+
+  let format = 0, channels = 0, sampleRate = 0, bitsPerSample = 0;
+  let dataOffset = -1, dataLength = 0;
+
+  // Chunks: 'fmt ' e 'data' (os restantes são ignorados)
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const id = tag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channels = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      if (format === WAVE_FORMAT_EXTENSIBLE && size >= 26) format = view.getUint16(body + 24, true);
+    } else if (id === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(size, bytes.length - body);
+    }
+    offset = body + size + (size % 2); // Chunks alinhados a 2 bytes
+  }
+
+  if (dataOffset < 0 || channels === 0) throw new Error('WAV inválido: chunks fmt/data em falta');
+  if (format !== WAVE_FORMAT_PCM && format !== WAVE_FORMAT_IEEE_FLOAT) {
+    throw new Error(`WAV não suportado: formato ${format} (só PCM ou float)`);
+  }
+
+  const bytesPerSample = bitsPerSample / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channels));
+  const samples = new Float32Array(frameCount);
+  const read = sampleReader(view, format, bitsPerSample);
+
+  for (let i = 0; i < frameCount; i++) {
+    let sum = 0;
+    for (let c = 0; c < channels; c++) {
+      sum += read(dataOffset + (i * channels + c) * bytesPerSample);
+    }
+    samples[i] = sum / channels;
+  }
+
+  return { sampleRate, channels, samples };
+}
+
+function sampleReader(view: DataView, format: number, bits: number): (offset: number) => number {
+  if (format === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bits === 32) return o => view.getFloat32(o, true);
+    if (bits === 64) return o => view.getFloat64(o, true);
+  } else {
+    if (bits === 8) return o => (view.getUint8(o) - 128) / 128;
+    if (bits === 16) return o => view.getInt16(o, true) / 32768;
+    if (bits === 24) return o => ((view.getInt8(o + 2) << 16) | (view.getUint8(o + 1) << 8) | view.getUint8(o)) / 8388608;
+    if (bits === 32) return o => view.getInt32(o, true) / 2147483648;
+  }
+  throw new Error(`WAV não suportado: ${bits} bits`);
+}
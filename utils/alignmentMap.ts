@@ -0,0 +1,179 @@
+import { AudioMatcher, MIN_MATCH_CONFIDENCE } from './audioMatcher';
+import { SrtEntry } from './srt';
+
+// Configuração do Alinhamento entre Versões (corte do guião vs. corte do espectador)
+const CHUNK_SECONDS = 10;         // Pedaço da referência procurado na versão do guião
+const CHUNK_HOP_SECONDS = 5;      // Resolução das fronteiras entre segmentos
+const LOCAL_SCAN_SECONDS = 20;    // Largura da procura local à volta do pedaço seguinte
+const OFFSET_TOLERANCE = 0.5;     // Pedaços com offsets mais próximos do que isto pertencem ao mesmo segmento
+const MIN_SEGMENT_CHUNKS = 2;     // Segmentos com menos pedaços são tratados como ruído
+const SAME_RATE: readonly number[] = []; // As duas versões à mesma velocidade: só a rate 1 é testada
+
+/**
+ * Troço contínuo do guião presente na referência: tempoReferência = tempoGuião + offset.
+ */
+export interface AlignmentSegment {
+  scriptStart: number;
+  scriptEnd: number;
+  offset: number;
+}
+
+/**
+ * Mapa do tempo do guião (SRT) para o tempo da referência que o estúdio segue.
+ * Zonas do guião fora de qualquer segmento são cenas que não existem nesta versão.
+ * Segmentos ordenados por `scriptStart` e sem sobreposição.
+ */
+export interface AlignmentMap {
+  segments: AlignmentSegment[];
+  source: 'reference' | 'runtime'; // Construído a partir das duas referências ou de saltos observados
+}
+
+/**
+ * Mapa de uma referência igual à versão do guião (todas as cenas, offset 0).
+ */
+export function identityAlignment(): AlignmentMap {
+  return { segments: [{ scriptStart: 0, scriptEnd: Infinity, offset: 0 }], source: 'runtime' };
+}
+
+/**
+ * Tempo na referência de um instante do guião. Null se a cena foi removida.
+ */
+export function mapScriptTime(map: AlignmentMap, scriptTime: number): number | null {
+  const segment = map.segments.find(s => scriptTime >= s.scriptStart && scriptTime < s.scriptEnd);
+  return segment ? scriptTime + segment.offset : null;
+}
+
+/**
+ * Inverso de `mapScriptTime`: instante do guião que passa em `referenceTime`.
+ * Null se a referência estiver numa cena que não existe no guião.
+ */
+export function mapReferenceTime(map: AlignmentMap, referenceTime: number): number | null {
+  const segment = map.segments.find(s => referenceTime - s.offset >= s.scriptStart && referenceTime - s.offset < s.scriptEnd);
+  return segment ? referenceTime - segment.offset : null;
+}
+
+/**
+ * Linhas do guião com tempos da referência. Linhas que começam numa cena removida
+ * desaparecem; linhas que atravessam um corte terminam no fim do seu segmento.
+ */
+export function translateEntries(entries: SrtEntry[], map: AlignmentMap): SrtEntry[] {
+  const translated: SrtEntry[] = [];
+  for (const entry of entries) {
+    const segment = map.segments.find(s => entry.startTime >= s.scriptStart && entry.startTime < s.scriptEnd);
+    if (!segment) continue;
+    translated.push({
+      ...entry,
+      startTime: entry.startTime + segment.offset,
+      endTime: Math.min(entry.endTime, segment.scriptEnd) + segment.offset
+    });
+  }
+  return translated.sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Remove um troço do guião do mapa (cena ausente descoberta em runtime).
+ */
+export function removeScriptRange(map: AlignmentMap, start: number, end: number): AlignmentMap {
+  const segments: AlignmentSegment[] = [];
+  for (const s of map.segments) {
+    if (end <= s.scriptStart || start >= s.scriptEnd) {
+      segments.push(s);
+      continue;
+    }
+    if (start > s.scriptStart) segments.push({ ...s, scriptEnd: start });
+    if (end < s.scriptEnd) segments.push({ ...s, scriptStart: end });
+  }
+  return { segments, source: map.source };
+}
+
+/**
+ * Volta a incluir o troço removido que contém `scriptTime` (mapas de runtime, offset 0):
+ * um corte registado por engano (ex: avanço rápido na TV) desaparece quando a cena é vista.
+ */
+export function restoreScriptRange(map: AlignmentMap, scriptTime: number): AlignmentMap {
+  return removedScriptRanges(map)
+    .filter(r => scriptTime < r.start || scriptTime >= r.end)
+    .reduce((m, r) => removeScriptRange(m, r.start, r.end), identityAlignment());
+}
+
+/**
+ * Troços do guião que não existem na referência (entre segmentos), em segundos do guião.
+ */
+export function removedScriptRanges(map: AlignmentMap): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  let cursor = 0;
+  for (const s of map.segments) {
+    if (s.scriptStart > cursor) ranges.push({ start: cursor, end: s.scriptStart });
+    cursor = Math.max(cursor, s.scriptEnd);
+  }
+  return ranges;
+}
+
+/**
+ * Constrói o mapa procurando pedaços da referência do espectador na versão do guião.
+ * `scriptMatcher` tem de ter a matriz da referência original do guião.
+ * Assume a mesma velocidade nas duas versões (a procura só testa a rate 1, um pico esticado
+ * desviaria os offsets); as fronteiras têm a resolução de CHUNK_HOP_SECONDS.
+ * @param onProgress Recebe 0 a 1 ao longo dos pedaços
+ */
+export function buildAlignmentMap(
+  scriptMatcher: AudioMatcher,
+  referencePcm: Float32Array,
+  sampleRate: number,
+  onProgress?: (progress: number) => void
+): AlignmentMap {
+  const referenceDuration = referencePcm.length / sampleRate;
+  const chunkCount = Math.max(0, Math.floor((referenceDuration - CHUNK_SECONDS) / CHUNK_HOP_SECONDS) + 1);
+
+  // Cada pedaço dá um par (fim na referência, fim no guião)
+  const points: Array<{ referenceEnd: number; scriptEnd: number }> = [];
+  let hint = -1;
+  for (let i = 0; i < chunkCount; i++) {
+    const startSample = Math.floor(i * CHUNK_HOP_SECONDS * sampleRate);
+    const live = scriptMatcher.createLiveFingerprint(referencePcm.subarray(startSample, startSample + CHUNK_SECONDS * sampleRate), sampleRate);
+
+    // Procura local na continuação do pedaço anterior; global se falhar (corte)
+    let result = hint >= 0 ? scriptMatcher.findMatch(live, hint + CHUNK_HOP_SECONDS, LOCAL_SCAN_SECONDS, 1, SAME_RATE) : null;
+    if (!result || result.confidence <= MIN_MATCH_CONFIDENCE) {
+      result = scriptMatcher.findMatch(live, -1, -1, 1, SAME_RATE);
+    }
+
+    if (result.confidence > MIN_MATCH_CONFIDENCE) {
+      points.push({ referenceEnd: i * CHUNK_HOP_SECONDS + CHUNK_SECONDS, scriptEnd: result.currentTime });
+      hint = result.currentTime;
+    } else {
+      hint = -1;
+    }
+    onProgress?.((i + 1) / chunkCount);
+  }
+
+  // Pedaços consecutivos com o mesmo offset formam um segmento
+  const runs: Array<{ first: number; last: number; offsets: number[] }> = [];
+  for (const p of points) {
+    const offset = p.referenceEnd - p.scriptEnd;
+    const run = runs[runs.length - 1];
+    const runOffset = run ? run.offsets.reduce((a, b) => a + b, 0) / run.offsets.length : NaN;
+    if (run && Math.abs(offset - runOffset) < OFFSET_TOLERANCE && p.scriptEnd > run.last) {
+      run.last = p.scriptEnd;
+      run.offsets.push(offset);
+    } else {
+      runs.push({ first: p.scriptEnd - CHUNK_SECONDS, last: p.scriptEnd, offsets: [offset] });
+    }
+  }
+
+  const segments = runs
+    .filter(r => r.offsets.length >= MIN_SEGMENT_CHUNKS)
+    .map(r => ({
+      scriptStart: Math.max(0, r.first),
+      scriptEnd: r.last,
+      offset: r.offsets.reduce((a, b) => a + b, 0) / r.offsets.length
+    }))
+    .sort((a, b) => a.scriptStart - b.scriptStart);
+
+  // Sobreposições (cenas repetidas/reordenadas): o segmento seguinte começa onde o anterior acaba
+  for (let i = 1; i < segments.length; i++) {
+    segments[i].scriptStart = Math.max(segments[i].scriptStart, segments[i - 1].scriptEnd);
+  }
+
+  return { segments: segments.filter(s => s.scriptEnd > s.scriptStart), source: 'reference' };
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { parseASS } from './ass';
+
+const script = (events: string) => `[Script Info]\nTitle: Test\n\n[V4+ Styles]\nFormat: Name, Fontname\nStyle: Default,Arial\n\n[Events]\n${events}`;
+
+describe('parseASS', () => {
+  it('reads fields in the order of the Format line', () => {
+    const result = parseASS(script('Format: Start, End, Style, Name, Text\nDialogue: 0:00:01.50,0:00:03.00,Default,AD,She opens the door\n'));
+    expect(result.warnings).toEqual([]);
+    expect(result.entries).toEqual([{ id: '1', startTime: 1.5, endTime: 3, text: 'She opens the door' }]);
+    expect(result.entryLines).toEqual([10]);
+  });
+
+  it('keeps commas in the Text field', () => {
+    const result = parseASS(script('Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\nDialogue: 0,0:00:00.00,0:00:02.00,Default,,0,0,0,,Night, rain, a car stops.\n'));
+    expect(result.entries[0].text).toBe('Night, rain, a car stops.');
+  });
+
+  it('strips override blocks, line breaks and drawings', () => {
+    const result = parseASS(script([
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,{\\i1}Ela{\\i0}\\Nsorri\\hagora',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\p1}m 0 0 l 100 0 100 100{\\p0}Texto',
+      'Dialogue: 0,0:00:02.00,0:00:03.00,Default,,0,0,0,,{\\p1}m 0 0 l 10 10',
+      'Comment: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,ignored'
+    ].join('\n')));
+    expect(result.entries.map(e => e.text)).toEqual(['Ela sorri agora', 'Texto']);
+  });
+
+  it('falls back to the v4+ order without a valid Format line', () => {
+    const missing = parseASS(script('Dialogue: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,Text\n'));
+    expect(missing.entries).toHaveLength(1);
+    expect(missing.warnings[0].message).toMatch(/^Dialogue antes de uma linha Format/);
+
+    const invalid = parseASS(script('Format: Start, Text, End\nDialogue: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,Text\n'));
+    expect(invalid.entries).toHaveLength(1);
+    expect(invalid.warnings[0].message).toMatch(/^A linha Format tem de incluir Start e End/);
+  });
+
+  it('sorts events by start time and warns about bad lines', () => {
+    const result = parseASS(script([
+      'Format: Start, End, Text',
+      'Dialogue: 0:00:05.00,0:00:06.00,Second',
+      'Dialogue: 0:00:01.00,0:00:02.00,First',
+      'Dialogue: 0:00:04.00,0:00:03.00,Backwards',
+      'Dialogue: soon,0:00:03.00,Bad time',
+      'Dialogue: 0:00:07.00',
+      'garbage'
+    ].join('\n')));
+    expect(result.entries).toEqual([
+      { id: '1', startTime: 1, endTime: 2, text: 'First' },
+      { id: '2', startTime: 5, endTime: 6, text: 'Second' }
+    ]);
+    expect(result.entryLines).toEqual([11, 10]);
+    expect(result.warnings.map(w => [w.kind, w.line])).toEqual([['duration', 12], ['malformed', 13], ['malformed', 14], ['malformed', 15]]);
+  });
+
+  it('warns when there is no [Events] section', () => {
+    expect(parseASS('[Script Info]\nTitle: x\n').warnings).toEqual([{ kind: 'malformed', message: 'Secção [Events] não encontrada' }]);
+  });
+});
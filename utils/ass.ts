@@ -0,0 +1,129 @@
+import { SrtEntry, ParseWarning, ParsedScript } from './srt';
+
+// Field order used when [Events] has no Format line (ASS v4+)
+const DEFAULT_EVENT_FORMAT = ['Layer', 'Start', 'End', 'Style', 'Name', 'MarginL', 'MarginR', 'MarginV', 'Effect', 'Text'];
+
+/**
+ * Parses ASS / SSA (Advanced SubStation Alpha). Only `Dialogue:` lines of the
+ * [Events] section are imported; override blocks (`{\i1}`, `{\pos(…)}`) are stripped
+ * and `\N`, `\n` and `\h` become spaces. Drawings (`{\p1}`) are skipped.
+ */
+export function parseASS(data: string): ParsedScript {
+  const lines = data.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const entries: SrtEntry[] = [];
+  const entryLines: number[] = [];
+  const warnings: ParseWarning[] = [];
+
+  let section = '';
+  let format: string[] | null = null;
+  let sawEvents = false;
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    const lineNumber = index + 1;
+    if (!line || line.startsWith(';')) return;
+
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].trim().toLowerCase();
+      if (section === 'events') sawEvents = true;
+      return;
+    }
+    if (section !== 'events') return;
+
+    const colon = line.indexOf(':');
+    if (colon < 0) {
+      warnings.push({ kind: 'malformed', line: lineNumber, message: `Linha não reconhecida em [Events]: "${line.slice(0, 40)}"` });
+      return;
+    }
+    const kind = line.slice(0, colon).trim();
+    const body = line.slice(colon + 1).trim();
+
+    if (kind === 'Format') {
+      format = body.split(',').map(f => f.trim());
+      if (!format.includes('Start') || !format.includes('End') || format[format.length - 1] !== 'Text') {
+        warnings.push({ kind: 'malformed', line: lineNumber, message: 'A linha Format tem de incluir Start e End e acabar em Text; a usar a ordem por omissão' });
+        format = DEFAULT_EVENT_FORMAT;
+      }
+      return;
+    }
+    if (kind !== 'Dialogue') return; // Comment, Picture, Sound, Movie, Command
+
+    if (!format) {
+      warnings.push({ kind: 'malformed', line: lineNumber, message: 'Dialogue antes de uma linha Format; a assumir a ordem de campos do ASS v4+' });
+      format = DEFAULT_EVENT_FORMAT;
+    }
+
+    // Text is the last field and may contain commas
+    const fields = splitFields(body, format.length);
+    if (fields.length < format.length) {
+      warnings.push({ kind: 'malformed', line: lineNumber, message: `Dialogue com ${fields.length} campos, esperados ${format.length}; ignorado` });
+      return;
+    }
+    const field = (name: string) => fields[format!.indexOf(name)];
+
+    const startTime = parseAssTime(field('Start'));
+    const endTime = parseAssTime(field('End'));
+    if (startTime === null || endTime === null) {
+      warnings.push({ kind: 'malformed', line: lineNumber, message: `Tempo inválido "${field('Start')}" / "${field('End')}"; ignorado` });
+      return;
+    }
+    if (endTime <= startTime) {
+      warnings.push({ kind: 'duration', line: lineNumber, message: 'Dialogue acaba antes de começar; ignorado' });
+      return;
+    }
+
+    const text = dialogueText(field('Text'));
+    if (!text) return; // Drawings or override-only lines
+    entries.push({ id: String(entries.length + 1), startTime, endTime, text });
+    entryLines.push(lineNumber);
+  });
+
+  if (!sawEvents) warnings.push({ kind: 'malformed', message: 'Secção [Events] não encontrada' });
+
+  // Events are not required to be in time order
+  const order = entries.map((_, i) => i).sort((a, b) => entries[a].startTime - entries[b].startTime);
+  return {
+    entries: order.map((from, i) => ({ ...entries[from], id: String(i + 1) })),
+    warnings,
+    entryLines: order.map(from => entryLines[from])
+  };
+}
+
+function splitFields(body: string, count: number): string[] {
+  const fields: string[] = [];
+  let rest = body;
+  while (fields.length < count - 1) {
+    const comma = rest.indexOf(',');
+    if (comma < 0) break;
+    fields.push(rest.slice(0, comma).trim());
+    rest = rest.slice(comma + 1);
+  }
+  fields.push(rest);
+  return fields;
+}
+
+/**
+ * `H:MM:SS.cc` (centiseconds) to seconds.
+ */
+function parseAssTime(value: string | undefined): number | null {
+  const match = value?.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h, m, s, fraction] = match;
+  return Number(h) * 3600 + Number(m) * 60 + Number(s) + (fraction ? Number(`0.${fraction}`) : 0);
+}
+
+function dialogueText(text: string): string {
+  let result = '';
+  let drawing = false;
+  // Override blocks switch drawing mode on/off ({\p1} … {\p0}); the rest is plain text
+  for (const part of text.split(/(\{[^}]*\})/)) {
+    if (part.startsWith('{') && part.endsWith('}')) {
+      const mode = part.match(/\\p(\d+)/);
+      if (mode) drawing = mode[1] !== '0';
+      continue;
+    }
+    if (!drawing) result += part;
+  }
+  return result.replace(/\\[Nnh]/g, ' ').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,174 @@
+import { AudioRingBuffer, RING_WRITE_INDEX, RING_FILLED } from './ringBuffer';
+
+const PROCESSOR_NAME = 'cinevoz-capture';
+const PORT_BATCH_SIZE = 2048;           // Amostras por mensagem quando não há memória partilhada
+const FALLBACK_BUFFER_SIZE = 4096;      // ScriptProcessor (fallback)
+
+/**
+ * - 'worklet-shared': AudioWorklet escreve no ring buffer partilhado (SharedArrayBuffer);
+ * - 'worklet-port':   AudioWorklet envia blocos pela MessagePort;
+ * - 'script-processor': fallback para browsers sem AudioWorklet (thread principal).
+ *
+ * Hoje a app não é servida com isolamento (sem COOP/COEP no vite.config.ts, e o Tailwind e
+ * o import map vêm de CDNs que o COEP bloquearia): o modo normal é 'worklet-port'.
+ * 'worklet-shared' só corre se a página passar a ser crossOriginIsolated.
+ */
+export type CaptureMode = 'worklet-shared' | 'worklet-port' | 'script-processor';
+
+export interface LiveCapture {
+  ring: AudioRingBuffer;
+  sampleRate: number; // Frequência das amostras no ring (após downsampling)
+  mode: CaptureMode;
+  disconnect(): void;
+}
+
+interface CaptureOptions {
+  /** Downsampling (média de blocos) no próprio worklet; por omissão, a frequência do contexto */
+  targetSampleRate?: number;
+}
+
+// Processador do AudioWorklet. É carregado a partir de um Blob (o worklet não partilha o bundle),
+// por isso a escrita no ring buffer é replicada aqui com o mesmo layout de RingBufferStorage.
+const PROCESSOR_SOURCE = `
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { factor, storage, batchSize } = options.processorOptions;
+    this.factor = factor;
+    this.sum = 0;
+    this.count = 0;
+    this.shared = !!storage;
+    if (this.shared) {
+      this.data = new Float32Array(storage.data);
+      this.control = new Int32Array(storage.control);
+    } else {
+      this.batch = new Float32Array(batchSize);
+      this.batchLength = 0;
+    }
+  }
+
+  push(sample) {
+    if (this.shared) {
+      const capacity = this.data.length;
+      const writeIndex = Atomics.load(this.control, ${RING_WRITE_INDEX});
+      this.data[writeIndex] = sample;
+      Atomics.store(this.control, ${RING_WRITE_INDEX}, (writeIndex + 1) % capacity);
+      const filled = Atomics.load(this.control, ${RING_FILLED});
+      if (filled < capacity) Atomics.store(this.control, ${RING_FILLED}, filled + 1);
+      return;
+    }
+    this.batch[this.batchLength++] = sample;
+    if (this.batchLength === this.batch.length) {
+      this.port.postMessage(this.batch, [this.batch.buffer]);
+      this.batch = new Float32Array(this.batch.length);
+      this.batchLength = 0;
+    }
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    for (let i = 0; i < input.length; i++) {
+      this.sum += input[i];
+      if (++this.count === this.factor) {
+        this.push(this.sum / this.factor);
+        this.sum = 0;
+        this.count = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', CaptureProcessor);
+`;
+
+// addModule só pode ser feito uma vez por contexto
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function loadProcessor(ctx: AudioContext): Promise<void> {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Captura contínua de `source` para um ring buffer com os últimos `seconds` segundos.
+ * Usa AudioWorklet (fora da thread principal) e recorre ao ScriptProcessor se não existir.
+ */
+export async function createLiveCapture(ctx: AudioContext, source: AudioNode, seconds: number, options: CaptureOptions = {}): Promise<LiveCapture> {
+  const factor = Math.max(1, Math.floor(ctx.sampleRate / (options.targetSampleRate || ctx.sampleRate)));
+  const sampleRate = ctx.sampleRate / factor;
+  const ring = AudioRingBuffer.create(Math.ceil(seconds * sampleRate));
+
+  if (ctx.audioWorklet) {
+    try {
+      await loadProcessor(ctx);
+      const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+        numberOfInputs: 1,
+        numberOfOutputs: 1,
+        channelCount: 1,
+        channelCountMode: 'explicit',
+        processorOptions: { factor, storage: ring.isShared ? ring.storage : null, batchSize: PORT_BATCH_SIZE }
+      });
+      if (!ring.isShared) {
+        node.port.onmessage = (e: MessageEvent<Float32Array>) => ring.write(e.data);
+      }
+      source.connect(node);
+      node.connect(ctx.destination); // Saída em silêncio; mantém o nó no grafo processado
+      return {
+        ring,
+        sampleRate,
+        mode: ring.isShared ? 'worklet-shared' : 'worklet-port',
+        disconnect: () => {
+          node.port.onmessage = null;
+          source.disconnect(node);
+          node.disconnect();
+        }
+      };
+    } catch (e) {
+      console.warn('[AudioCapture] AudioWorklet indisponível, a usar ScriptProcessor', e);
+    }
+  }
+
+  return createScriptProcessorCapture(ctx, source, ring, factor, sampleRate);
+}
+
+function createScriptProcessorCapture(ctx: AudioContext, source: AudioNode, ring: AudioRingBuffer, factor: number, sampleRate: number): LiveCapture {
+  const processor = ctx.createScriptProcessor(FALLBACK_BUFFER_SIZE, 1, 1);
+  const decimated = new Float32Array(Math.ceil(FALLBACK_BUFFER_SIZE / factor));
+  let sum = 0, count = 0;
+
+  processor.onaudioprocess = (e) => {
+    const input = e.inputBuffer.getChannelData(0);
+    let length = 0;
+    for (let i = 0; i < input.length; i++) {
+      sum += input[i];
+      if (++count === factor) {
+        decimated[length++] = sum / factor;
+        sum = 0;
+        count = 0;
+      }
+    }
+    ring.write(decimated.subarray(0, length));
+    e.outputBuffer.getChannelData(0).fill(0);
+  };
+
+  source.connect(processor);
+  processor.connect(ctx.destination);
+
+  return {
+    ring,
+    sampleRate,
+    mode: 'script-processor',
+    disconnect: () => {
+      processor.onaudioprocess = null;
+      source.disconnect(processor);
+      processor.disconnect();
+    }
+  };
+}
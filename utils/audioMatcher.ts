@@ -1,13 +1,93 @@
 
+import { encodeMasterFingerprint, decodeMasterFingerprint } from './fingerprintCodec';
+import { slidingPearsonDirect, slidingPearsonFFT } from './correlation';
+import { Peak, findTopPeaks, peakRatio, uniquenessConfidence, isCompetingPeak } from './matchPeaks';
+import { SpectralHashes, SPECTRAL_SAMPLE_RATE, SPECTRAL_FRAME_RATE, resampleAverage, computeSpectralHashes, buildHashIndex, voteOffsets } from './spectralFingerprint';
+import { VAD_FRAME_RATE, detectVoiceActivity, subtitleActivity } from './voiceActivity';
+
 // Configuração do Fingerprint
 const TARGET_SAMPLE_RATE = 20; // 20Hz (Resolução de 50ms) para maior precisão
 const WINDOW_SIZE_SEC = 6; // Aumentado para 6s para ter mais "assinatura" única
 const MIN_RMS_THRESHOLD = 0.005; // Mínimo de energia para considerar sinal válido (evita silêncio)
 const MIN_VARIANCE_THRESHOLD = 0.0005; // Mínimo de variação para evitar ruído constante
+const FFT_SCAN_MIN_OPERATIONS = 2_000_000; // Acima de N·posições, o scan usa correlação FFT
+// Velocidades testadas além da sugerida: 1:1, PAL speedup (24→25 fps) e o inverso
+const PLAYBACK_RATE_CANDIDATES = [1, 25 / 24, 24 / 25];
+const RATE_SWITCH_MARGIN = 0.02; // Outra velocidade só vence a sugerida se o r for claramente melhor
+const MAX_MATCH_CANDIDATES = 5; // Picos distintos devolvidos ao chamador
+const CANDIDATE_SEPARATION_SEC = 2; // Picos mais próximos do que isto são o mesmo alinhamento
+const ENVELOPE_PEAK_FLOOR = 0.05; // r mínimo usado como 2º pico na razão de unicidade
+const DIALOGUE_GATE_SECONDS = 8; // Silêncio no fim da janela de diálogo = pausa recente
+// Blocos de fala/silêncio ainda correlacionam desfasados de alguns segundos: picos mais afastados
+const DIALOGUE_CANDIDATE_SEPARATION_SEC = 10;
+
+// Confiança (já ponderada pela unicidade) a partir da qual um match é utilizável
+export const MIN_MATCH_CONFIDENCE = 40;
+// Fala/silêncio distingue-se mal em poucos segundos: o diálogo precisa de janelas longas
+export const DIALOGUE_MIN_SECONDS = 20;
+
+/**
+ * 'envelope': Correlação de Pearson sobre o envelope RMS (20Hz).
+ * 'spectral': Constelação de picos espectrais com votação de offsets por hash.
+ * 'dialogue': Atividade de voz do micro contra os tempos das legendas de diálogo (sem áudio de referência).
+ */
+export type MatchMethod = 'envelope' | 'spectral' | 'dialogue';
+
+export interface MatchCandidate {
+  currentTime: number; // Fim da janela de match, como em MatchResult
+  score: number;       // 0 a 100% (correlação / votos, sem unicidade)
+}
 
 export interface MatchResult {
   currentTime: number; // Tempo exato ATUAL (Fim da janela de match)
-  confidence: number;  // 0 a 100% (Baseado em correlação)
+  confidence: number;  // 0 a 100% (Score do melhor pico ponderado pela sua unicidade)
+  method: MatchMethod; // Método que produziu o resultado
+  playbackRate: number; // Velocidade do filme face à matriz (1 = normal, ~1.0417 = PAL)
+  liveSignal: LiveSignalLevel; // 'silent' quando o energy gate rejeitou o live
+  candidates: MatchCandidate[]; // Melhores picos distintos (o primeiro é `currentTime`)
+  peakRatio: number;   // Melhor pico / segundo pico (≈1 = ambíguo)
+}
+
+/**
+ * Resultado do energy gate sobre o live: 'silent' = silêncio/ruído constante (ex: TV em pausa).
+ */
+export type LiveSignalLevel = 'silent' | 'active';
+
+/**
+ * Fingerprint do buffer live. O envelope existe sempre; os hashes só no modo espectral
+ * e a atividade de voz só no modo diálogo.
+ */
+export interface LiveFingerprint {
+  envelope: Float32Array;
+  spectral?: SpectralHashes;
+  voiceActivity?: Float32Array; // Probabilidade de voz a VAD_FRAME_RATE
+  duration: number; // Segundos de áudio live
+}
+
+/**
+ * Parâmetros de um trilho comparado por correlação de Pearson (envelope ou diálogo).
+ */
+interface CorrelationTrack {
+  method: MatchMethod;
+  frameRate: number;       // Pontos por segundo (modelo e live)
+  separationSec: number;   // Picos mais próximos do que isto são o mesmo alinhamento
+  peakFloor: number;       // r mínimo usado como 2º pico na razão de unicidade
+  competitorsOnly: boolean; // Só devolve candidatos que disputam o melhor pico (ver DIALOGUE_TRACK)
+}
+
+const ENVELOPE_TRACK: CorrelationTrack = { method: 'envelope', frameRate: TARGET_SAMPLE_RATE, separationSec: CANDIDATE_SEPARATION_SEC, peakFloor: ENVELOPE_PEAK_FLOOR, competitorsOnly: false };
+// Janelas de 60s em checks de 2s quase não mudam: um pico secundário persiste de check para check
+// e a verificação cruzada nunca ficaria com um só alinhamento. Vão só os picos que disputam o melhor.
+const DIALOGUE_TRACK: CorrelationTrack = { method: 'dialogue', frameRate: VAD_FRAME_RATE, separationSec: DIALOGUE_CANDIDATE_SEPARATION_SEC, peakFloor: ENVELOPE_PEAK_FLOOR, competitorsOnly: true };
+
+/**
+ * Arrays do fingerprint live que podem ser transferidos (sem cópia) entre threads.
+ */
+export function fingerprintTransferables(live: LiveFingerprint): Transferable[] {
+  const list: Transferable[] = [live.envelope.buffer];
+  if (live.spectral) list.push(live.spectral.hashes.buffer, live.spectral.times.buffer);
+  if (live.voiceActivity) list.push(live.voiceActivity.buffer);
+  return list;
 }
 
 /**
@@ -15,25 +95,111 @@ export interface MatchResult {
  */
 export class AudioMatcher {
   private masterEnvelope: Float32Array | null = null;
+  private spectralIndex: SpectralHashes | null = null;
+  private dialogueActivity: Float32Array | null = null; // Fala esperada segundo as legendas de diálogo
   private duration: number = 0;
+  private method: MatchMethod;
+
+  constructor(method: MatchMethod = 'envelope') {
+    this.method = method;
+  }
+
+  getMethod(): MatchMethod {
+    return this.method;
+  }
+
+  /**
+   * Troca o método de match. A matriz guarda ambos os modelos, por isso a troca é imediata.
+   */
+  setMethod(method: MatchMethod): void {
+    this.method = method;
+  }
+
+  hasMasterFingerprint(): boolean {
+    return this.masterEnvelope !== null;
+  }
+
+  hasDialogueTrack(): boolean {
+    return this.dialogueActivity !== null;
+  }
+
+  /**
+   * Modelo do método 'dialogue': os tempos das legendas de diálogo (ex: `parseSRT`).
+   * Independente da matriz de áudio, que pode nem existir.
+   */
+  loadDialogueTrack(cues: ReadonlyArray<{ startTime: number; endTime: number }>): void {
+    this.dialogueActivity = subtitleActivity(cues);
+    console.log(`[AudioMatcher] Trilho de diálogo carregado. ${cues.length} legendas, ${(this.dialogueActivity.length / VAD_FRAME_RATE).toFixed(1)}s`);
+  }
+
+  /**
+   * Processa o ficheiro de áudio completo para criar a "Matriz de Energia"
+   * (normalizada para 20Hz) e o índice de hashes espectrais.
+   */
+  generateMasterFingerprint(audioBuffer: AudioBuffer, onProgress?: (progress: number) => void): void {
+    this.generateMasterFingerprintFromPcm(audioBuffer.getChannelData(0), audioBuffer.sampleRate, onProgress);
+  }
+
+  /**
+   * Igual a `generateMasterFingerprint`, mas a partir de PCM mono.
+   * Usado no Web Worker, onde não existe AudioBuffer.
+   * @param onProgress Recebe 0 a 1 ao longo da construção
+   */
+  generateMasterFingerprintFromPcm(pcm: Float32Array, sampleRate: number, onProgress?: (progress: number) => void): void {
+    this.generateEnvelopeFromPcm(pcm, sampleRate);
+    onProgress?.(0.1);
+
+    // O FFT por frame domina o custo: reporta 10% a 100% durante os hashes
+    const pcm8k = resampleAverage(pcm, sampleRate, SPECTRAL_SAMPLE_RATE);
+    const hashes = computeSpectralHashes(pcm8k, onProgress && (p => onProgress(0.1 + p * 0.85)));
+    this.spectralIndex = buildHashIndex(hashes);
+    onProgress?.(1);
+    console.log(`[AudioMatcher] Matriz (Envelope) gerada. Duração: ${this.duration.toFixed(1)}s. Samples: ${this.masterEnvelope.length}. Hashes: ${this.spectralIndex.hashes.length}`);
+  }
+
+  /**
+   * Só o envelope da matriz, sem o índice espectral: chega a um matcher em modo 'envelope'
+   * (ex: alinhamento entre versões) e evita o FFT do filme inteiro.
+   */
+  generateEnvelopeFromPcm(pcm: Float32Array, sampleRate: number): void {
+    this.duration = pcm.length / sampleRate;
+    this.masterEnvelope = this.extractEnvelope(pcm, sampleRate);
+    this.spectralIndex = null;
+  }
+
+  /**
+   * Serializa a matriz atual (envelope + índice espectral) no formato binário versionado.
+   */
+  serializeMasterFingerprint(): ArrayBuffer {
+    if (!this.masterEnvelope || !this.spectralIndex) throw new Error('Sem matriz para serializar');
+    return encodeMasterFingerprint({
+      duration: this.duration,
+      envelopeRate: TARGET_SAMPLE_RATE,
+      spectralFrameRate: SPECTRAL_FRAME_RATE,
+      envelope: this.masterEnvelope,
+      spectralIndex: this.spectralIndex
+    });
+  }
 
   /**
-   * Processa o ficheiro de áudio completo para criar a "Matriz de Energia".
-   * Normaliza para 20Hz.
+   * Carrega uma matriz serializada. Lança erro se estiver corrompida ou se foi
+   * gerada com outros parâmetros de extração (nesse caso deve ser reconstruída).
    */
-  generateMasterFingerprint(audioBuffer: AudioBuffer): void {
-    this.duration = audioBuffer.duration;
-    this.masterEnvelope = this.extractEnvelope(audioBuffer);
-    console.log(`[AudioMatcher] Matriz (Envelope) gerada. Duração: ${this.duration.toFixed(1)}s. Samples: ${this.masterEnvelope.length}`);
+  loadMasterFingerprint(buffer: ArrayBuffer): void {
+    const data = decodeMasterFingerprint(buffer);
+    if (data.envelopeRate !== TARGET_SAMPLE_RATE || Math.abs(data.spectralFrameRate - SPECTRAL_FRAME_RATE) > 1e-3) {
+      throw new Error('Fingerprint desatualizado: parâmetros de extração diferentes');
+    }
+    this.duration = data.duration;
+    this.masterEnvelope = data.envelope;
+    this.spectralIndex = data.spectralIndex;
+    console.log(`[AudioMatcher] Matriz carregada da cache. Duração: ${this.duration.toFixed(1)}s. Hashes: ${this.spectralIndex.hashes.length}`);
   }
 
   /**
    * Extrai o envelope de energia (Amplitude RMS) reamostrado para TARGET_SAMPLE_RATE.
    */
-  private extractEnvelope(buffer: AudioBuffer): Float32Array {
-    const pcm = buffer.getChannelData(0); // Mono
-    const srcRate = buffer.sampleRate;
-    
+  private extractEnvelope(pcm: Float32Array, srcRate: number): Float32Array {
     // Total de pontos no envelope final
     const totalPoints = Math.floor(this.duration * TARGET_SAMPLE_RATE);
     const envelope = new Float32Array(totalPoints);
@@ -61,7 +227,7 @@ export class AudioMatcher {
    * Processa o buffer "Live" do microfone.
    * IMPORTANTE: O buffer recebido pode ter sampleRate diferente da Matriz, mas aqui normalizamos.
    */
-  createLiveFingerprint(pcmData: Float32Array, sampleRate: number): Float32Array {
+  createLiveFingerprint(pcmData: Float32Array, sampleRate: number): LiveFingerprint {
       const duration = pcmData.length / sampleRate;
       const totalPoints = Math.floor(duration * TARGET_SAMPLE_RATE);
       const envelope = new Float32Array(totalPoints);
@@ -76,43 +242,157 @@ export class AudioMatcher {
           }
           envelope[i] = Math.sqrt(sum / (end - start));
       }
-      return envelope;
+
+      // Hashes só são calculados quando necessários (FFT por frame é o custo dominante)
+      const spectral = this.method === 'spectral'
+          ? computeSpectralHashes(resampleAverage(pcmData, sampleRate, SPECTRAL_SAMPLE_RATE))
+          : undefined;
+      const voiceActivity = this.method === 'dialogue' ? detectVoiceActivity(pcmData, sampleRate) : undefined;
+
+      return { envelope, spectral, voiceActivity, duration };
   }
 
   /**
-   * Procura o padrão Live dentro da Matriz usando Correlação de Pearson.
-   * Robusto a diferenças de volume e offset DC.
+   * Procura o padrão Live dentro da Matriz com o método ativo.
    * @param searchHintTime -1 para Scan Global (filme todo)
+   * @param playbackRateHint Velocidade atualmente estimada (testada primeiro)
+   * @param rateCandidates Outras velocidades testadas na correlação; `[]` fixa a sugerida
    */
-  findMatch(liveEnvelope: Float32Array, searchHintTime: number = -1, scanWidthSeconds: number = 120): MatchResult {
-    if (!this.masterEnvelope || liveEnvelope.length < (TARGET_SAMPLE_RATE * 2)) {
-        return { currentTime: 0, confidence: 0 };
+  findMatch(live: LiveFingerprint, searchHintTime: number = -1, scanWidthSeconds: number = 120, playbackRateHint: number = 1, rateCandidates: readonly number[] = PLAYBACK_RATE_CANDIDATES): MatchResult {
+    // ENERGY GATE (comum a todos os métodos): silêncio não é comparado com nada.
+    // A janela do diálogo é longa: uma pausa recente só se vê no fim (e só pela energia,
+    // já que cenas calmas sem falas também têm pouca variação)
+    const isSilentTail = this.method === 'dialogue'
+        && envelopeRms(live.envelope.subarray(Math.max(0, live.envelope.length - DIALOGUE_GATE_SECONDS * TARGET_SAMPLE_RATE))) < MIN_RMS_THRESHOLD;
+    if (isSilentTail || isBelowEnergyGate(live.envelope)) {
+        return { currentTime: 0, confidence: 0, method: this.method, playbackRate: playbackRateHint, liveSignal: 'silent', candidates: [], peakRatio: 1 };
+    }
+    if (this.method === 'spectral' && live.spectral) {
+        return this.findSpectralMatch(live, searchHintTime, scanWidthSeconds, playbackRateHint);
     }
+    if (this.method === 'dialogue') {
+        if (!this.dialogueActivity || !live.voiceActivity || live.duration < DIALOGUE_MIN_SECONDS) {
+            return { currentTime: 0, confidence: 0, method: 'dialogue', playbackRate: playbackRateHint, liveSignal: 'active', candidates: [], peakRatio: 1 };
+        }
+        return findCorrelationMatch(this.dialogueActivity, live.voiceActivity, DIALOGUE_TRACK, searchHintTime, scanWidthSeconds, playbackRateHint, rateCandidates);
+    }
+    if (!this.masterEnvelope || live.envelope.length < (TARGET_SAMPLE_RATE * 2)) {
+        return { currentTime: 0, confidence: 0, method: 'envelope', playbackRate: playbackRateHint, liveSignal: 'active', candidates: [], peakRatio: 1 };
+    }
+    return findCorrelationMatch(this.masterEnvelope, live.envelope, ENVELOPE_TRACK, searchHintTime, scanWidthSeconds, playbackRateHint, rateCandidates);
+  }
 
-    const N = liveEnvelope.length;
-    const M = this.masterEnvelope.length;
+  /**
+   * Votação de offsets no índice de hashes. O offset vencedor dá o início do live na matriz.
+   * Os hashes não toleram time-stretch: a velocidade é a sugerida (refinada por regressão).
+   */
+  private findSpectralMatch(live: LiveFingerprint, searchHintTime: number, scanWidthSeconds: number, playbackRate: number): MatchResult {
+    if (!this.spectralIndex || !live.spectral) {
+        return { currentTime: 0, confidence: 0, method: 'spectral', playbackRate, liveSignal: 'active', candidates: [], peakRatio: 1 };
+    }
+
+    const framesPerSecond = SPECTRAL_FRAME_RATE;
+    let minOffset = -Infinity;
+    let maxOffset = Infinity;
+
+    if (searchHintTime >= 0 && scanWidthSeconds > 0) {
+        // Mesmo raciocínio do envelope: o hint é o FIM do match
+        const targetStart = (searchHintTime - live.duration) * framesPerSecond;
+        const width = scanWidthSeconds * framesPerSecond;
+        minOffset = Math.floor(targetStart - width);
+        maxOffset = Math.ceil(targetStart + width);
+    }
+
+    const vote = voteOffsets(this.spectralIndex, live.spectral, minOffset, maxOffset, MAX_MATCH_CANDIDATES);
+    if (vote.confidence === 0) {
+        return { currentTime: 0, confidence: 0, method: 'spectral', playbackRate, liveSignal: 'active', candidates: [], peakRatio: 1 };
+    }
+
+    const toTime = (offsetFrames: number) => (offsetFrames / framesPerSecond) + live.duration * playbackRate;
+    return {
+        currentTime: toTime(vote.offsetFrames),
+        confidence: uniquenessConfidence(vote.confidence, vote.peakRatio),
+        method: 'spectral',
+        playbackRate,
+        liveSignal: 'active',
+        candidates: vote.candidates.map(c => ({ currentTime: toTime(c.offsetFrames), score: c.score })),
+        peakRatio: vote.peakRatio
+    };
+  }
+}
+
+/**
+ * Procura o padrão Live dentro de um trilho do modelo usando Correlação de Pearson.
+ * Robusto a diferenças de volume e offset DC. Serve o envelope (20Hz) e o diálogo (fala/silêncio).
+ * Testa também versões esticadas do live (PAL speedup) e devolve a velocidade vencedora.
+ */
+function findCorrelationMatch(
+  master: Float32Array,
+  live: Float32Array,
+  track: CorrelationTrack,
+  searchHintTime: number,
+  scanWidthSeconds: number,
+  playbackRateHint: number,
+  rateCandidates: readonly number[]
+): MatchResult {
+    const noMatch: MatchResult = { currentTime: 0, confidence: 0, method: track.method, playbackRate: playbackRateHint, liveSignal: 'active', candidates: [], peakRatio: 1 };
+    const N = live.length;
 
     // Pré-calcular estatísticas do Live Vector (para Pearson)
     let sumL = 0, sumSqL = 0;
     for (let i = 0; i < N; i++) {
-        sumL += liveEnvelope[i];
-        sumSqL += liveEnvelope[i] * liveEnvelope[i];
+        sumL += live[i];
+        sumSqL += live[i] * live[i];
     }
     const meanL = sumL / N;
     // Denominador parte L: Sqrt(Sum(Li - meanL)^2) = Sqrt(SumSqL - N*meanL^2)
-    // Variance check: (SumSqL/N - meanL^2) is variance.
-    const varianceL = (sumSqL / N) - (meanL * meanL);
-    const rmsL = Math.sqrt(sumSqL / N);
-
-    // ENERGY GATE: Se o sinal for muito fraco ou muito plano (silêncio/ruído constante), abortar.
-    if (rmsL < MIN_RMS_THRESHOLD || varianceL < MIN_VARIANCE_THRESHOLD) {
-        // console.log("Sinal ignorado (Silêncio/Ruído fraco)", rmsL, varianceL);
-        return { currentTime: 0, confidence: 0 };
+    const denL = Math.sqrt(Math.max(0, sumSqL - N * meanL * meanL));
+
+    if (denL === 0) return noMatch; 
+
+    // A sugerida vem primeiro: em empate (ou quase), mantém-se
+    const rates = [playbackRateHint, ...rateCandidates.filter(r => Math.abs(r - playbackRateHint) > 1e-4)];
+
+    let best = { peaks: [] as Peak[], length: N, rate: playbackRateHint };
+    for (const rate of rates) {
+        // O live a velocidade `rate` cobre rate·N pontos da matriz
+        const stretched = rate === 1 ? live : stretchEnvelope(live, rate);
+        const peaks = scanTrack(master, stretched, track, searchHintTime, scanWidthSeconds);
+        if (peaks.length === 0) continue;
+        const margin = rate === playbackRateHint ? 0 : RATE_SWITCH_MARGIN;
+        if (best.peaks.length === 0 || peaks[0].value > best.peaks[0].value + margin) {
+            best = { peaks, length: stretched.length, rate };
+        }
     }
+    if (best.peaks.length === 0) return noMatch;
 
-    const denL = Math.sqrt(Math.max(0, sumSqL - N * meanL * meanL));
+    // Calcular tempo final de cada pico: Pearson r (-1 a 1) -> %
+    const peaks = track.competitorsOnly ? best.peaks.filter(p => isCompetingPeak(p, best.peaks[0])) : best.peaks;
+    const candidates = peaks.map(p => ({
+        currentTime: (p.position + best.length) / track.frameRate,
+        score: Math.max(0, p.value * 100)
+    }));
+    const ratio = peakRatio(best.peaks, track.peakFloor);
 
-    if (denL === 0) return { currentTime: 0, confidence: 0 }; 
+    return {
+        currentTime: candidates[0].currentTime,
+        confidence: uniquenessConfidence(candidates[0].score, ratio),
+        method: track.method,
+        playbackRate: best.rate,
+        liveSignal: 'active',
+        candidates,
+        peakRatio: ratio
+    };
+}
+
+/**
+ * Correlação deslizante de um trilho live contra o do modelo.
+ * Devolve os melhores picos distintos (`value` = r, `position` = início no modelo).
+ */
+function scanTrack(master: Float32Array, live: Float32Array, track: CorrelationTrack, searchHintTime: number, scanWidthSeconds: number): Peak[] {
+    const frameRate = track.frameRate;
+    const N = live.length;
+    const M = master.length;
 
     // Definir limites de busca
     let startIdx = 0;
@@ -120,8 +400,8 @@ export class AudioMatcher {
 
     // Se hint for >= 0 e width > 0, fazemos busca local. Se não, busca global.
     if (searchHintTime >= 0 && scanWidthSeconds > 0) {
-        const hintIdx = Math.floor(searchHintTime * TARGET_SAMPLE_RATE);
-        const widthIdx = Math.floor(scanWidthSeconds * TARGET_SAMPLE_RATE);
+        const hintIdx = Math.floor(searchHintTime * frameRate);
+        const widthIdx = Math.floor(scanWidthSeconds * frameRate);
         
         // O hintIdx é onde achamos que estamos AGORA (fim do match).
         // O startIdx é onde começa a comparação na matriz (início do match).
@@ -131,49 +411,55 @@ export class AudioMatcher {
         endIdx = Math.min(M - N, targetStartIdx + widthIdx);
     }
 
-    let maxCorr = -1;
-    let bestStartIdx = -1;
-
-    // Loop de Correlação Deslizante
-    // Removida otimização de step para garantir precisão máxima no scan global
-    const step = 1;
-
-    for (let i = startIdx; i < endIdx; i += step) {
-        let sumM = 0;
-        let sumSqM = 0;
-        let crossSum = 0;
-
-        // Loop interno (N iterações - ex: 5s * 20Hz = 100 pontos)
-        for (let j = 0; j < N; j++) {
-            const valM = this.masterEnvelope[i + j];
-            const valL = liveEnvelope[j];
-            
-            sumM += valM;
-            sumSqM += valM * valM;
-            crossSum += valM * valL;
-        }
+    // Correlação Deslizante (step = 1 para precisão máxima).
+    // Janelas grandes (scan global) usam convolução FFT; scans locais pequenos o loop direto.
+    const positions = Math.max(0, endIdx - startIdx);
+    const correlations = positions * N > FFT_SCAN_MIN_OPERATIONS
+        ? slidingPearsonFFT(master, live, startIdx, endIdx)
+        : slidingPearsonDirect(master, live, startIdx, endIdx);
 
-        const meanM = sumM / N;
-        const denM = Math.sqrt(Math.max(0, sumSqM - N * meanM * meanM));
-
-        if (denM > 0) {
-            // Pearson r = Cov(L, M) / (StdL * StdM)
-            const cov = crossSum - (N * meanL * meanM);
-            const r = cov / (denL * denM);
+    const separation = track.separationSec * frameRate;
+    return findTopPeaks(correlations, MAX_MATCH_CANDIDATES, separation)
+        .map(p => ({ position: startIdx + p.position, value: p.value }));
+}
 
-            if (r > maxCorr) {
-                maxCorr = r;
-                bestStartIdx = i;
-            }
-        }
-    }
+/**
+ * ENERGY GATE: sinal muito fraco ou muito plano (silêncio/ruído constante).
+ */
+function isBelowEnergyGate(envelope: Float32Array): boolean {
+  const N = envelope.length;
+  if (N === 0) return true;
+  let sum = 0, sumSq = 0;
+  for (let i = 0; i < N; i++) {
+    sum += envelope[i];
+    sumSq += envelope[i] * envelope[i];
+  }
+  const mean = sum / N;
+  // Variance check: (SumSq/N - mean^2) is variance.
+  const variance = (sumSq / N) - (mean * mean);
+  const rms = Math.sqrt(sumSq / N);
+  return rms < MIN_RMS_THRESHOLD || variance < MIN_VARIANCE_THRESHOLD;
+}
 
-    // Calcular tempo final
-    const matchEndTime = (bestStartIdx + N) / TARGET_SAMPLE_RATE;
+function envelopeRms(envelope: Float32Array): number {
+  let sumSq = 0;
+  for (let i = 0; i < envelope.length; i++) sumSq += envelope[i] * envelope[i];
+  return envelope.length > 0 ? Math.sqrt(sumSq / envelope.length) : 0;
+}
 
-    return {
-        currentTime: matchEndTime,
-        confidence: Math.max(0, maxCorr * 100) // Pearson r (-1 a 1) -> %
-    };
+/**
+ * Reamostra o envelope para `rate`·N pontos (interpolação linear).
+ */
+function stretchEnvelope(envelope: Float32Array, rate: number): Float32Array {
+  const outLength = Math.max(2, Math.round(envelope.length * rate));
+  const out = new Float32Array(outLength);
+  const scale = (envelope.length - 1) / (outLength - 1);
+  for (let i = 0; i < outLength; i++) {
+    const pos = i * scale;
+    const i0 = Math.floor(pos);
+    const i1 = Math.min(i0 + 1, envelope.length - 1);
+    const frac = pos - i0;
+    out[i] = envelope[i0] * (1 - frac) + envelope[i1] * frac;
   }
+  return out;
 }
\ No newline at end of file
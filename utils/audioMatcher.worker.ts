@@ -0,0 +1,84 @@
+import { AudioMatcher, LiveFingerprint, MatchMethod, fingerprintTransferables } from './audioMatcher';
+import { buildAlignmentMap } from './alignmentMap';
+
+/**
+ * Mensagens trocadas entre o WorkerAudioMatcher (thread principal) e este worker.
+ * Cada pedido tem um `id`; a resposta devolve o mesmo `id`.
+ */
+export type MatcherRequest =
+  | { id: number; type: 'setMethod'; method: MatchMethod }
+  | { id: number; type: 'generate'; pcm: Float32Array; sampleRate: number }
+  | { id: number; type: 'export' }
+  | { id: number; type: 'import'; data: ArrayBuffer }
+  | { id: number; type: 'dialogue'; cues: Array<{ startTime: number; endTime: number }> }
+  | { id: number; type: 'live'; pcm: Float32Array; sampleRate: number; returnPcm?: boolean }
+  | { id: number; type: 'match'; live: LiveFingerprint; searchHintTime: number; scanWidthSeconds: number; playbackRateHint: number }
+  | { id: number; type: 'align'; scriptPcm: Float32Array; referencePcm: Float32Array; sampleRate: number };
+
+export type MatcherResponse =
+  | { id: number; type: 'progress'; progress: number }
+  | { id: number; type: 'done'; result?: unknown }
+  | { id: number; type: 'error'; message: string };
+
+const matcher = new AudioMatcher();
+
+const reply = (message: MatcherResponse, transfer: Transferable[] = []) => {
+  self.postMessage(message, { transfer });
+};
+
+self.onmessage = (e: MessageEvent<MatcherRequest>) => {
+  const req = e.data;
+  try {
+    switch (req.type) {
+      case 'setMethod':
+        matcher.setMethod(req.method);
+        reply({ id: req.id, type: 'done' });
+        break;
+      case 'generate':
+        matcher.generateMasterFingerprintFromPcm(req.pcm, req.sampleRate, progress => {
+          reply({ id: req.id, type: 'progress', progress });
+        });
+        reply({ id: req.id, type: 'done' });
+        break;
+      case 'export': {
+        const data = matcher.serializeMasterFingerprint();
+        reply({ id: req.id, type: 'done', result: data }, [data]);
+        break;
+      }
+      case 'import':
+        matcher.loadMasterFingerprint(req.data);
+        reply({ id: req.id, type: 'done' });
+        break;
+      case 'dialogue':
+        matcher.loadDialogueTrack(req.cues);
+        reply({ id: req.id, type: 'done' });
+        break;
+      case 'live': {
+        const live = matcher.createLiveFingerprint(req.pcm, req.sampleRate);
+        if (req.returnPcm) {
+          // Devolve o buffer de captura para ser reutilizado no próximo check
+          reply({ id: req.id, type: 'done', result: { live, pcm: req.pcm } }, [...fingerprintTransferables(live), req.pcm.buffer]);
+        } else {
+          reply({ id: req.id, type: 'done', result: live }, fingerprintTransferables(live));
+        }
+        break;
+      }
+      case 'match':
+        reply({ id: req.id, type: 'done', result: matcher.findMatch(req.live, req.searchHintTime, req.scanWidthSeconds, req.playbackRateHint) });
+        break;
+      case 'align': {
+        // Matcher temporário com a versão do guião; não toca na matriz de sincronização.
+        // O alinhamento só usa o envelope: sem índice espectral
+        const scriptMatcher = new AudioMatcher('envelope');
+        scriptMatcher.generateEnvelopeFromPcm(req.scriptPcm, req.sampleRate);
+        const map = buildAlignmentMap(scriptMatcher, req.referencePcm, req.sampleRate, progress => {
+          reply({ id: req.id, type: 'progress', progress });
+        });
+        reply({ id: req.id, type: 'done', result: map });
+        break;
+      }
+    }
+  } catch (err) {
+    reply({ id: req.id, type: 'error', message: (err as Error).message });
+  }
+};
@@ -0,0 +1,140 @@
+import { fft, nextPowerOfTwo } from './fft';
+
+// Abaixo disto a janela da matriz é considerada plana (silêncio digital) e ignorada
+const MIN_WINDOW_ENERGY = 1e-10;
+// Tamanho mínimo do bloco FFT no overlap-save (o bloco cresce com o tamanho do live)
+const OVERLAP_SAVE_MIN_BLOCK = 1024;
+
+/**
+ * Correlação de Pearson deslizante: r[k] compara `live` com master[start + k ... start + k + N).
+ * Posições inválidas (janela da matriz sem variância) ficam a NaN.
+ *
+ * Implementação direta O(N·M). Usada em scans locais, onde a janela é pequena.
+ */
+export function slidingPearsonDirect(master: Float32Array, live: Float32Array, startIdx: number, endIdx: number): Float64Array {
+  const N = live.length;
+  const count = Math.max(0, endIdx - startIdx);
+  const result = new Float64Array(count).fill(NaN);
+
+  const { centered, den: denL } = centerLive(live);
+  if (denL === 0) return result;
+
+  for (let k = 0; k < count; k++) {
+    const i = startIdx + k;
+    let sumM = 0;
+    let sumSqM = 0;
+    let cov = 0;
+
+    for (let j = 0; j < N; j++) {
+      const valM = master[i + j];
+      sumM += valM;
+      sumSqM += valM * valM;
+      cov += valM * centered[j];
+    }
+
+    const varM = sumSqM - (sumM * sumM) / N;
+    if (varM > MIN_WINDOW_ENERGY) {
+      result[k] = cov / (denL * Math.sqrt(varM));
+    }
+  }
+  return result;
+}
+
+/**
+ * Mesma saída que `slidingPearsonDirect`, mas em O(M log N):
+ * - Covariância por convolução FFT em blocos (overlap-save). O live é centrado,
+ *   por isso Σ M·(L - meanL) é diretamente a covariância;
+ * - Dois blocos reais da matriz por FFT complexa (parte real + imaginária),
+ *   já que o filtro (live) é real;
+ * - Média/variância de cada janela da matriz por somas prefixas.
+ * Usada no scan global.
+ */
+export function slidingPearsonFFT(master: Float32Array, live: Float32Array, startIdx: number, endIdx: number): Float64Array {
+  const N = live.length;
+  const count = Math.max(0, endIdx - startIdx);
+  const result = new Float64Array(count).fill(NaN);
+
+  const { centered, den: denL } = centerLive(live);
+  if (denL === 0 || count === 0) return result;
+
+  const segmentLength = count + N - 1;
+
+  // Centrar a matriz pela média do segmento reduz o cancelamento numérico nas somas prefixas
+  // (Pearson é invariante a deslocamentos da matriz).
+  let segmentMean = 0;
+  for (let i = 0; i < segmentLength; i++) segmentMean += master[startIdx + i];
+  segmentMean /= segmentLength;
+
+  const segment = new Float64Array(segmentLength);
+  const prefix = new Float64Array(segmentLength + 1);
+  const prefixSq = new Float64Array(segmentLength + 1);
+  for (let i = 0; i < segmentLength; i++) {
+    const v = master[startIdx + i] - segmentMean;
+    segment[i] = v;
+    prefix[i + 1] = prefix[i] + v;
+    prefixSq[i + 1] = prefixSq[i] + v * v;
+  }
+
+  // Espectro conjugado do live (filtro de correlação), calculado uma vez
+  const blockSize = Math.max(OVERLAP_SAVE_MIN_BLOCK, nextPowerOfTwo(4 * N));
+  const step = blockSize - N + 1; // Saídas válidas (sem wrap circular) por bloco
+  const lRe = new Float64Array(blockSize);
+  const lIm = new Float64Array(blockSize);
+  for (let j = 0; j < N; j++) lRe[j] = centered[j];
+  fft(lRe, lIm);
+
+  const covariance = new Float64Array(count);
+  const re = new Float64Array(blockSize);
+  const im = new Float64Array(blockSize);
+
+  for (let k0 = 0; k0 < count; k0 += 2 * step) {
+    const k1 = k0 + step;
+    for (let i = 0; i < blockSize; i++) {
+      re[i] = k0 + i < segmentLength ? segment[k0 + i] : 0;
+      im[i] = k1 + i < segmentLength ? segment[k1 + i] : 0;
+    }
+    fft(re, im);
+
+    // Correlação = IFFT(FFT(M) · conj(FFT(L)))
+    for (let i = 0; i < blockSize; i++) {
+      const pRe = re[i] * lRe[i] + im[i] * lIm[i];
+      const pIm = im[i] * lRe[i] - re[i] * lIm[i];
+      re[i] = pRe;
+      im[i] = pIm;
+    }
+    fft(re, im, true);
+
+    for (let k = 0; k < step; k++) {
+      if (k0 + k < count) covariance[k0 + k] = re[k];
+      if (k1 + k < count) covariance[k1 + k] = im[k];
+    }
+  }
+
+  for (let k = 0; k < count; k++) {
+    const sumM = prefix[k + N] - prefix[k];
+    const sumSqM = prefixSq[k + N] - prefixSq[k];
+    const varM = sumSqM - (sumM * sumM) / N;
+    if (varM > MIN_WINDOW_ENERGY) {
+      result[k] = covariance[k] / (denL * Math.sqrt(varM));
+    }
+  }
+  return result;
+}
+
+/**
+ * Live centrado na média e o seu denominador de Pearson: Sqrt(Sum(Li - meanL)^2).
+ */
+function centerLive(live: Float32Array): { centered: Float64Array; den: number } {
+  const N = live.length;
+  let sum = 0;
+  for (let i = 0; i < N; i++) sum += live[i];
+  const mean = sum / N;
+
+  const centered = new Float64Array(N);
+  let sumSq = 0;
+  for (let i = 0; i < N; i++) {
+    centered[i] = live[i] - mean;
+    sumSq += centered[i] * centered[i];
+  }
+  return { centered, den: Math.sqrt(sumSq) };
+}
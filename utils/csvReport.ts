@@ -0,0 +1,15 @@
+// Relatórios CSV para os revisores: separador `;`, abrem diretamente em folhas de cálculo PT
+
+/**
+ * Célula de texto livre: entre aspas, com as aspas interiores duplicadas.
+ */
+export function quoteCsv(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Cabeçalho e linhas já formatadas (o texto livre passa por `quoteCsv`).
+ */
+export function csvReport(columns: string[], rows: string[][]): string {
+  return [columns.join(';'), ...rows.map(row => row.join(';'))].join('\n') + '\n';
+}
@@ -0,0 +1,94 @@
+// Configuração do Ritmo das Descrições ao Vivo
+const QUIET_SECONDS = 0.6;   // Silêncio de diálogo necessário antes de começar uma descrição
+const MAX_WAIT_SECONDS = 6;  // Descrição que espera mais do que isto já não corresponde à imagem
+const MAX_QUEUED = 2;        // Acima disto, as mais antigas são descartadas
+
+export interface PacedDescription {
+  pcm: Int16Array;
+  sampleRate: number;
+  transcript: string;
+  receivedAt: number; // Segundos (relógio do chamador)
+}
+
+/**
+ * Ritmo das descrições geradas ao vivo: cada descrição só é tocada depois de completa e
+ * quando o diálogo do filme está em pausa; descrições que esperam demasiado são descartadas.
+ * Não toca áudio: `next()` diz o que tocar e quando, o chamador toca.
+ */
+export class DescriptionPacer {
+  private chunks: Int16Array[] = [];
+  private queue: PacedDescription[] = [];
+  private playingUntil = 0;
+  private lastDialogueAt = -Infinity;
+
+  constructor(private sampleRate: number, private onDrop?: (description: PacedDescription, reason: string) => void) {}
+
+  /**
+   * Áudio da descrição que está a chegar.
+   */
+  push(pcm: Int16Array): void {
+    this.chunks.push(pcm);
+  }
+
+  /**
+   * A descrição em curso está completa e entra na fila.
+   */
+  complete(transcript: string, now: number): void {
+    const length = this.chunks.reduce((sum, c) => sum + c.length, 0);
+    if (length === 0) {
+      this.chunks = [];
+      return;
+    }
+    const pcm = new Int16Array(length);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      pcm.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.chunks = [];
+    this.queue.push({ pcm, sampleRate: this.sampleRate, transcript, receivedAt: now });
+    while (this.queue.length > MAX_QUEUED) this.onDrop?.(this.queue.shift()!, 'fila cheia');
+  }
+
+  /**
+   * O modelo abandonou a descrição em curso (a que já está na fila continua válida).
+   */
+  discardPartial(): void {
+    this.chunks = [];
+  }
+
+  /**
+   * Estado do diálogo no micro. Só é fiável fora da reprodução (o micro ouve a própria descrição).
+   */
+  observeDialogue(active: boolean, now: number): void {
+    if (active && !this.isPlaying(now)) this.lastDialogueAt = now;
+  }
+
+  isPlaying(now: number): boolean {
+    return now < this.playingUntil;
+  }
+
+  /**
+   * Descrição a tocar agora, se houver uma e o diálogo estiver em pausa.
+   */
+  next(now: number): PacedDescription | null {
+    while (this.queue.length > 0 && now - this.queue[0].receivedAt > MAX_WAIT_SECONDS) {
+      this.onDrop?.(this.queue.shift()!, 'sem pausa no diálogo a tempo');
+    }
+    if (this.queue.length === 0 || this.isPlaying(now) || now - this.lastDialogueAt < QUIET_SECONDS) return null;
+
+    const description = this.queue.shift()!;
+    this.playingUntil = now + description.pcm.length / description.sampleRate;
+    return description;
+  }
+
+  /**
+   * Reprodução interrompida (paragem): a fila e a descrição em curso são descartadas.
+   */
+  reset(): void {
+    this.chunks = [];
+    this.queue = [];
+    this.playingUntil = 0;
+    this.lastDialogueAt = -Infinity;
+  }
+}
@@ -0,0 +1,11 @@
+/**
+ * Saves `content` as a file through a temporary link (exports from the studio).
+ */
+export function downloadText(fileName: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { SrtEntry } from './srt';
+import { DEFAULT_SPEECH_RATE_MODEL } from './speechRateModel';
+import { DraftCue, DraftRequest, DraftScriptClient, draftToEntries, freeGaps, gapWordBudgets } from './draftScript';
+
+/**
+ * Rascunho determinístico: uma linha por lacuna, a ocupá-la toda.
+ */
+class FakeDraftClient implements DraftScriptClient {
+  public requests: DraftRequest[] = [];
+
+  async generateDraft(request: DraftRequest): Promise<DraftCue[]> {
+    this.requests.push(request);
+    return request.gaps.map((gap, i) => ({
+      gap: i,
+      startTime: gap.startTime,
+      endTime: gap.endTime,
+      text: `Descrição ${i + 1} de ${request.title}`
+    }));
+  }
+}
+
+describe('draft flow with the fake client', () => {
+  it('fills only the free gaps, within the word budgets', async () => {
+    const existing: SrtEntry[] = [{ id: '1', startTime: 12, endTime: 14, text: 'Written' }];
+    const gaps = freeGaps([{ startTime: 0, endTime: 4 }, { startTime: 10, endTime: 20 }, { startTime: 30, endTime: 31 }], existing);
+    expect(gaps).toEqual([{ startTime: 0, endTime: 4 }, { startTime: 10, endTime: 12 }, { startTime: 14, endTime: 20 }]);
+
+    const client = new FakeDraftClient();
+    const wordBudgets = gapWordBudgets(gaps, DEFAULT_SPEECH_RATE_MODEL, 1);
+    expect(wordBudgets).toEqual([9, 4, 14]);
+    const cues = await client.generateDraft({ title: 'Filme', synopsis: '', lang: 'pt-PT', gaps, wordBudgets });
+    expect(client.requests[0].wordBudgets).toBe(wordBudgets);
+
+    const result = draftToEntries(cues, gaps, existing);
+    expect(result.rejected).toBe(0);
+    expect(result.entries).toEqual([
+      { id: '2', startTime: 0, endTime: 4, text: 'Descrição 1 de Filme', draft: true },
+      { id: '3', startTime: 10, endTime: 12, text: 'Descrição 2 de Filme', draft: true },
+      { id: '4', startTime: 14, endTime: 20, text: 'Descrição 3 de Filme', draft: true }
+    ]);
+  });
+
+  it('clips cues to their gap and rejects unknown gaps, empty text and overlaps', () => {
+    const gaps = [{ startTime: 0, endTime: 5 }, { startTime: 10, endTime: 15 }];
+    const cues: DraftCue[] = [
+      { gap: 0, startTime: -1, endTime: 3, text: 'Clipped' },
+      { gap: 0, startTime: 2, endTime: 4, text: 'Overlaps' },
+      { gap: 1, startTime: 11, endTime: 12, text: '  ' },
+      { gap: 7, startTime: 11, endTime: 12, text: 'No gap' },
+      { gap: 1, startTime: 16, endTime: 18, text: 'Outside' }
+    ];
+    const result = draftToEntries(cues, gaps, []);
+    expect(result.entries.map(e => [e.text, e.startTime, e.endTime])).toEqual([['Clipped', 0, 3]]);
+    expect(result.rejected).toBe(4);
+  });
+});
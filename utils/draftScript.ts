@@ -0,0 +1,155 @@
+import { GoogleGenAI, Part, Type } from '@google/genai';
+import { SrtEntry } from './srt';
+import { DialogueGap } from './voiceActivity';
+import { SpeechRateModel, wordBudget } from './speechRateModel';
+import { generateStructuredList, isRecord } from './structuredOutput';
+import { nextEntryId, isValidTiming } from './scriptEditor';
+
+// Configuração dos Rascunhos (guião gerado para as lacunas de diálogo)
+const DRAFT_MODEL = 'gemini-2.5-flash';
+const MIN_CUE_DURATION = 1.5;      // Lacunas mais curtas não comportam uma descrição
+
+export interface Keyframe {
+  time: number;     // Segundos (tempo do guião)
+  mimeType: string; // image/jpeg, image/png...
+  data: string;     // Base64, sem o prefixo data:
+}
+
+export interface DraftRequest {
+  title: string;
+  synopsis: string;
+  lang: string;            // Língua da faixa (BCP-47)
+  gaps: DialogueGap[];     // Lacunas livres, no tempo do guião
+  wordBudgets: number[];   // Máximo de palavras por lacuna (mesma ordem que `gaps`)
+  notes?: string;          // Notas do audiodescritor
+  keyframes?: Keyframe[];
+}
+
+/**
+ * Descrição proposta pelo modelo, ainda por validar contra as lacunas.
+ */
+export interface DraftCue {
+  gap: number; // Índice da lacuna
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+/**
+ * Gerador de rascunhos. A implementação Gemini é a do estúdio; os testes usam um cliente falso.
+ */
+export interface DraftScriptClient {
+  generateDraft(request: DraftRequest, signal?: AbortSignal): Promise<DraftCue[]>;
+}
+
+// Formato da resposta (saída estruturada)
+const DRAFT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    cues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          gap: { type: Type.INTEGER, description: 'Index of the gap this description fills' },
+          startTime: { type: Type.NUMBER, description: 'Seconds, inside the gap' },
+          endTime: { type: Type.NUMBER, description: 'Seconds, inside the gap' },
+          text: { type: Type.STRING, description: 'Audio description, present tense, no speaker names unless introduced' }
+        },
+        required: ['gap', 'startTime', 'endTime', 'text'],
+        propertyOrdering: ['gap', 'startTime', 'endTime', 'text']
+      }
+    }
+  },
+  required: ['cues']
+};
+
+export class GeminiDraftClient implements DraftScriptClient {
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private model: string = DRAFT_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateDraft(request: DraftRequest, signal?: AbortSignal): Promise<DraftCue[]> {
+    const parts: Part[] = [{ text: draftPrompt(request) }];
+    for (const frame of request.keyframes ?? []) {
+      parts.push({ text: `Keyframe at ${frame.time.toFixed(1)}s:` });
+      parts.push({ inlineData: { mimeType: frame.mimeType, data: frame.data } });
+    }
+    return generateStructuredList(this.ai, this.model, parts, DRAFT_SCHEMA, 'cues', isDraftCue, signal);
+  }
+}
+
+function draftPrompt(request: DraftRequest): string {
+  const gaps = request.gaps.map((gap, i) =>
+    `${i}: ${gap.startTime.toFixed(1)}s – ${gap.endTime.toFixed(1)}s (at most ${request.wordBudgets[i]} words)`
+  ).join('\n');
+  return [
+    'You are an audio describer writing a draft audio description script for blind and low-vision viewers.',
+    `Write in the language with BCP-47 tag "${request.lang}". Describe only what is seen: actions, settings, expressions, on-screen text.`,
+    'Use the present tense, do not interpret emotions beyond what is visible and never talk over dialogue.',
+    'Each description must start and end inside one of the gaps below and respect its word limit.',
+    'Skip gaps where nothing relevant happens; a gap may hold more than one description.',
+    '',
+    `Title: ${request.title}`,
+    `Synopsis: ${request.synopsis || '(none)'}`,
+    ...(request.notes ? [`Describer's notes: ${request.notes}`] : []),
+    '',
+    'Gaps without dialogue (index: start – end):',
+    gaps
+  ].join('\n');
+}
+
+function isDraftCue(value: unknown): value is DraftCue {
+  return isRecord(value) && Number.isInteger(value.gap) && Number.isFinite(value.startTime) && Number.isFinite(value.endTime) && typeof value.text === 'string';
+}
+
+/**
+ * Subtrai as linhas já escritas às lacunas: o rascunho só preenche o que está vazio.
+ */
+export function freeGaps(gaps: DialogueGap[], entries: SrtEntry[]): DialogueGap[] {
+  let free = gaps;
+  for (const entry of entries) {
+    free = free.flatMap(gap => {
+      if (entry.endTime <= gap.startTime || entry.startTime >= gap.endTime) return [gap];
+      return [
+        { startTime: gap.startTime, endTime: entry.startTime },
+        { startTime: entry.endTime, endTime: gap.endTime }
+      ];
+    });
+  }
+  return free.filter(gap => gap.endTime - gap.startTime >= MIN_CUE_DURATION);
+}
+
+/**
+ * Palavras que cabem em cada lacuna à velocidade da voz (com folga).
+ */
+export function gapWordBudgets(gaps: DialogueGap[], model: SpeechRateModel, rate: number): number[] {
+  return gaps.map(gap => wordBudget(gap.endTime - gap.startTime, model, rate));
+}
+
+/**
+ * Converte o rascunho em linhas marcadas `draft` (por rever). Cada linha é cortada à sua lacuna;
+ * linhas de lacunas inexistentes, vazias ou sobrepostas a outra do rascunho são rejeitadas.
+ */
+export function draftToEntries(cues: DraftCue[], gaps: DialogueGap[], existing: SrtEntry[]): { entries: SrtEntry[]; rejected: number } {
+  const accepted: SrtEntry[] = [];
+  let all = existing;
+  const sorted = [...cues].sort((a, b) => a.startTime - b.startTime);
+
+  for (const cue of sorted) {
+    const gap = gaps[cue.gap];
+    const text = cue.text.trim();
+    if (!gap || !text) continue;
+    const startTime = Math.max(gap.startTime, cue.startTime);
+    const endTime = Math.min(gap.endTime, cue.endTime);
+    const previous = accepted[accepted.length - 1];
+    if (!isValidTiming({ startTime, endTime }) || (previous && startTime < previous.endTime)) continue;
+
+    const entry: SrtEntry = { id: nextEntryId(all), startTime, endTime, text, draft: true };
+    accepted.push(entry);
+    all = [...all, entry];
+  }
+  return { entries: accepted, rejected: cues.length - accepted.length };
+}
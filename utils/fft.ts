@@ -0,0 +1,71 @@
+const twiddleCache = new Map<number, { cos: Float64Array; sin: Float64Array }>();
+
+function getTwiddles(n: number): { cos: Float64Array; sin: Float64Array } {
+  let table = twiddleCache.get(n);
+  if (!table) {
+    const cos = new Float64Array(n / 2);
+    const sin = new Float64Array(n / 2);
+    for (let k = 0; k < n / 2; k++) {
+      cos[k] = Math.cos((2 * Math.PI * k) / n);
+      sin[k] = Math.sin((2 * Math.PI * k) / n);
+    }
+    table = { cos, sin };
+    twiddleCache.set(n, table);
+  }
+  return table;
+}
+
+/**
+ * FFT radix-2 in-place (Cooley-Tukey iterativo).
+ * `re` e `im` têm de ter o mesmo comprimento, potência de 2.
+ */
+export function fft(re: Float64Array, im: Float64Array, inverse: boolean = false): void {
+  const n = re.length;
+  if (n !== im.length || (n & (n - 1)) !== 0) {
+    throw new Error(`FFT requer comprimento potência de 2 (recebido ${n})`);
+  }
+
+  // Reordenação bit-reversal
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      let t = re[i]; re[i] = re[j]; re[j] = t;
+      t = im[i]; im[i] = im[j]; im[j] = t;
+    }
+  }
+
+  // Tabela de twiddles (cos/sin) em cache por tamanho: evita trigonometria por chamada
+  const { cos, sin } = getTwiddles(n);
+  const sign = inverse ? 1 : -1;
+  for (let size = 2; size <= n; size <<= 1) {
+    const half = size >> 1;
+    const stride = n / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < half; k++) {
+        const cRe = cos[k * stride];
+        const cIm = sign * sin[k * stride];
+        const a = start + k;
+        const b = a + half;
+        const tRe = re[b] * cRe - im[b] * cIm;
+        const tIm = re[b] * cIm + im[b] * cRe;
+        re[b] = re[a] - tRe; im[b] = im[a] - tIm;
+        re[a] += tRe; im[a] += tIm;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) { re[i] /= n; im[i] /= n; }
+  }
+}
+
+/**
+ * Menor potência de 2 >= n.
+ */
+export function nextPowerOfTwo(n: number): number {
+  let p = 1;
+  while (p < n) p <<= 1;
+  return p;
+}
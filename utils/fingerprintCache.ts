@@ -0,0 +1,61 @@
+// Cache persistente (IndexedDB) das matrizes serializadas, indexadas pelo hash do ficheiro de referência
+const DB_NAME = 'cinevoz';
+const DB_VERSION = 1;
+const STORE_NAME = 'fingerprints';
+
+interface CachedFingerprint {
+  key: string;
+  data: ArrayBuffer;
+  createdAt: number;
+}
+
+/**
+ * SHA-256 do conteúdo do ficheiro (hex). Muito mais barato do que descodificar o áudio.
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = fn(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function getCachedFingerprint(key: string): Promise<ArrayBuffer | null> {
+  const record = await withStore<CachedFingerprint | undefined>('readonly', store => store.get(key));
+  return record ? record.data : null;
+}
+
+export async function putCachedFingerprint(key: string, data: ArrayBuffer): Promise<void> {
+  const record: CachedFingerprint = { key, data, createdAt: Date.now() };
+  await withStore('readwrite', store => store.put(record));
+}
+
+export async function deleteCachedFingerprint(key: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(key));
+}
@@ -0,0 +1,101 @@
+import { SpectralHashes } from './spectralFingerprint';
+
+/**
+ * Formato binário da matriz (little-endian):
+ *
+ *   0  'CVFP'              magic
+ *   4  u16 version         FORMAT_VERSION (subir sempre que os parâmetros de extração mudam)
+ *   6  u16 envelopeRate    Hz do envelope
+ *   8  f32 spectralRate    frames/s dos hashes
+ *  12  f64 duration        segundos
+ *  20  u32 envelopeLength
+ *  24  u32 hashCount
+ *  28  u32 checksum        FNV-1a do payload
+ *  32  f32[envelopeLength] envelope
+ *      u32[hashCount]      hashes (ordenados)
+ *      u32[hashCount]      tempos (frames)
+ */
+export const FORMAT_VERSION = 1;
+const MAGIC = 0x50465643; // 'CVFP' lido como u32 little-endian
+const HEADER_SIZE = 32;
+
+export interface MasterFingerprintData {
+  duration: number;
+  envelopeRate: number;
+  spectralFrameRate: number;
+  envelope: Float32Array;
+  spectralIndex: SpectralHashes;
+}
+
+/**
+ * FNV-1a 32 bits, suficiente para detetar corrupção (não é criptográfico).
+ */
+function fnv1a(bytes: Uint8Array): number {
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < bytes.length; i++) {
+    hash ^= bytes[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+export function encodeMasterFingerprint(data: MasterFingerprintData): ArrayBuffer {
+  const hashCount = data.spectralIndex.hashes.length;
+  const payloadSize = data.envelope.length * 4 + hashCount * 8;
+  const buffer = new ArrayBuffer(HEADER_SIZE + payloadSize);
+  const view = new DataView(buffer);
+
+  let offset = HEADER_SIZE;
+  new Float32Array(buffer, offset, data.envelope.length).set(data.envelope);
+  offset += data.envelope.length * 4;
+  new Uint32Array(buffer, offset, hashCount).set(data.spectralIndex.hashes);
+  offset += hashCount * 4;
+  new Uint32Array(buffer, offset, hashCount).set(data.spectralIndex.times);
+
+  view.setUint32(0, MAGIC, true);
+  view.setUint16(4, FORMAT_VERSION, true);
+  view.setUint16(6, data.envelopeRate, true);
+  view.setFloat32(8, data.spectralFrameRate, true);
+  view.setFloat64(12, data.duration, true);
+  view.setUint32(20, data.envelope.length, true);
+  view.setUint32(24, hashCount, true);
+  view.setUint32(28, fnv1a(new Uint8Array(buffer, HEADER_SIZE)), true);
+
+  return buffer;
+}
+
+/**
+ * Lê uma matriz serializada. Lança erro se o formato, a versão ou o checksum não baterem certo.
+ */
+export function decodeMasterFingerprint(buffer: ArrayBuffer): MasterFingerprintData {
+  if (buffer.byteLength < HEADER_SIZE) throw new Error('Fingerprint inválido: ficheiro truncado');
+  const view = new DataView(buffer);
+
+  if (view.getUint32(0, true) !== MAGIC) throw new Error('Fingerprint inválido: assinatura desconhecida');
+  const version = view.getUint16(4, true);
+  if (version !== FORMAT_VERSION) throw new Error(`Fingerprint desatualizado: versão ${version} (atual ${FORMAT_VERSION})`);
+
+  const envelopeLength = view.getUint32(20, true);
+  const hashCount = view.getUint32(24, true);
+  if (buffer.byteLength !== HEADER_SIZE + envelopeLength * 4 + hashCount * 8) {
+    throw new Error('Fingerprint inválido: tamanho inconsistente');
+  }
+  if (fnv1a(new Uint8Array(buffer, HEADER_SIZE)) !== view.getUint32(28, true)) {
+    throw new Error('Fingerprint inválido: checksum não confere');
+  }
+
+  let offset = HEADER_SIZE;
+  const envelope = new Float32Array(buffer.slice(offset, offset + envelopeLength * 4));
+  offset += envelopeLength * 4;
+  const hashes = new Uint32Array(buffer.slice(offset, offset + hashCount * 4));
+  offset += hashCount * 4;
+  const times = new Uint32Array(buffer.slice(offset, offset + hashCount * 4));
+
+  return {
+    duration: view.getFloat64(12, true),
+    envelopeRate: view.getUint16(6, true),
+    spectralFrameRate: view.getFloat32(8, true),
+    envelope,
+    spectralIndex: { hashes, times }
+  };
+}
@@ -0,0 +1,261 @@
+import { fft, nextPowerOfTwo } from './fft';
+import { LatencyProfile } from './latencyProfiles';
+
+// Configuração da Calibração Acústica
+const LEAD_IN = 0.4;               // Silêncio gravado antes do sinal (ruído de fundo)
+const CHIRP_DURATION = 0.5;        // Sweep de 500Hz a 5kHz (pico de correlação estreito)
+const CHIRP_START_HZ = 500;
+const CHIRP_END_HZ = 5000;
+const CHIRP_REPEATS = 3;
+const CHIRP_INTERVAL = 0.8;
+const MAX_LATENCY = 1.5;           // Lag máximo procurado (Bluetooth pode passar os 300ms)
+const MIN_CORRELATION = 0.05;      // Abaixo disto o chirp não chegou ao micro
+const SPEECH_RECORD_SECONDS = 4;
+const SPEECH_TEST_TEXT = 'Teste de voz.';
+const ONSET_BLOCK_SECONDS = 0.01;
+const ONSET_FACTOR = 4;            // A voz tem de passar 4x o ruído de fundo
+const ONSET_MIN_RMS = 0.005;
+const RECORD_BUFFER_SIZE = 4096;
+const RECORD_TIMEOUT_MARGIN = 3;   // Segundos além da duração antes de dar a gravação como parada
+
+export type CalibrationStep = 'roundtrip' | 'speech';
+
+interface Recording {
+  mic: Float32Array;
+  reference: Float32Array; // Canal digital com o sinal emitido, no mesmo relógio do micro
+  sampleRate: number;
+}
+
+/**
+ * Mede a latência do micro selecionado e o atraso de arranque do TTS.
+ * 1. Um chirp é tocado nas colunas e gravado em simultâneo com uma cópia digital:
+ *    o lag entre os dois é o round trip (saída + acústica + entrada).
+ * 2. Um clique digital marca o speak(); o início da voz no micro dá o atraso do TTS.
+ * @param createUtterance Deve configurar a voz como na leitura real (língua, voz, rate)
+ */
+export async function calibrateLatency(
+  deviceId: string,
+  createUtterance: (text: string) => SpeechSynthesisUtterance,
+  onStep?: (step: CalibrationStep) => void
+): Promise<LatencyProfile> {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+  let stream: MediaStream | null = null;
+
+  try {
+    if (ctx.state === 'suspended') await ctx.resume();
+    // Sem processamento: o cancelamento de eco apagaria o próprio chirp
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: {
+        deviceId: deviceId ? { exact: deviceId } : undefined,
+        echoCancellation: false,
+        noiseSuppression: false,
+        autoGainControl: false,
+        channelCount: 1
+      }
+    });
+
+    onStep?.('roundtrip');
+    const roundTrip = await measureRoundTrip(ctx, stream);
+    // O canal de referência é tirado antes da saída: descontar a latência de saída conhecida
+    const captureLatency = Math.max(0, roundTrip - (ctx.outputLatency || 0) - (ctx.baseLatency || 0));
+
+    onStep?.('speech');
+    const speechOnset = await measureSpeechOnset(ctx, stream, createUtterance(SPEECH_TEST_TEXT), captureLatency);
+
+    console.log(`[LatencyCalibration] Round trip ${(roundTrip * 1000).toFixed(0)}ms, captura ${(captureLatency * 1000).toFixed(0)}ms, TTS ${(speechOnset * 1000).toFixed(0)}ms`);
+    return { captureLatency, roundTrip, speechOnset, measuredAt: Date.now() };
+  } finally {
+    stream?.getTracks().forEach(t => t.stop());
+    ctx.close();
+  }
+}
+
+async function measureRoundTrip(ctx: AudioContext, stream: MediaStream): Promise<number> {
+  const chirp = createChirp(ctx.sampleRate);
+  const buffer = ctx.createBuffer(1, chirp.length, ctx.sampleRate);
+  buffer.getChannelData(0).set(chirp);
+
+  const duration = LEAD_IN + (CHIRP_REPEATS - 1) * CHIRP_INTERVAL + CHIRP_DURATION + MAX_LATENCY;
+  const recording = await record(ctx, stream, duration, (reference, startAt) => {
+    for (let i = 0; i < CHIRP_REPEATS; i++) {
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.connect(reference);
+      source.start(startAt + i * CHIRP_INTERVAL);
+    }
+  });
+
+  const { lag, strength } = findLag(recording.mic, recording.reference, Math.floor(MAX_LATENCY * recording.sampleRate));
+  if (strength < MIN_CORRELATION) {
+    throw new Error('Sinal de calibração não detetado. Aproxime o microfone das colunas e aumente o volume.');
+  }
+  return lag / recording.sampleRate;
+}
+
+async function measureSpeechOnset(ctx: AudioContext, stream: MediaStream, utterance: SpeechSynthesisUtterance, captureLatency: number): Promise<number> {
+  window.speechSynthesis.cancel();
+  let speakCalledAt = 0;
+  let startEventDelay: number | null = null;
+  utterance.onstart = () => { startEventDelay = (performance.now() - speakCalledAt) / 1000; };
+
+  const click = ctx.createBuffer(1, 1, ctx.sampleRate);
+  click.getChannelData(0)[0] = 1;
+
+  const recording = await record(ctx, stream, LEAD_IN + SPEECH_RECORD_SECONDS, (reference, startAt) => {
+    // O speak() tem de ser chamado no relógio de parede; o clique marca esse instante na gravação
+    window.setTimeout(() => {
+      const source = ctx.createBufferSource();
+      source.buffer = click;
+      source.connect(reference);
+      source.start();
+      speakCalledAt = performance.now();
+      window.speechSynthesis.speak(utterance);
+    }, (startAt - ctx.currentTime) * 1000);
+  }).finally(() => window.speechSynthesis.cancel());
+
+  const clickIdx = recording.reference.findIndex(v => v > 0.5);
+  const onsetIdx = clickIdx >= 0 ? findOnset(recording.mic, clickIdx, recording.sampleRate) : -1;
+  if (onsetIdx >= 0) {
+    return Math.max(0, (onsetIdx - clickIdx) / recording.sampleRate - captureLatency);
+  }
+
+  // A voz não foi ouvida (ex: TTS noutra saída de áudio): usar o evento 'start' como aproximação
+  if (startEventDelay !== null) return startEventDelay;
+  throw new Error('A voz de teste não foi detetada. Verifique se o TTS está a funcionar.');
+}
+
+/**
+ * Grava o micro (canal 0) e um canal de referência digital (canal 1) no mesmo relógio.
+ * Falha se o áudio não avançar (contexto suspenso, separador em segundo plano).
+ * @param schedule Liga as fontes a `reference`; `startAt` é o fim do silêncio inicial (tempo do AudioContext)
+ */
+function record(
+  ctx: AudioContext,
+  stream: MediaStream,
+  durationSeconds: number,
+  schedule: (reference: AudioNode, startAt: number) => void
+): Promise<Recording> {
+  return new Promise((resolve, reject) => {
+    const total = Math.ceil(durationSeconds * ctx.sampleRate);
+    const mic = new Float32Array(total);
+    const reference = new Float32Array(total);
+    let written = 0;
+
+    const micSource = ctx.createMediaStreamSource(stream);
+    const merger = ctx.createChannelMerger(2);
+    const referenceInput = ctx.createGain();
+    const processor = ctx.createScriptProcessor(RECORD_BUFFER_SIZE, 2, 1);
+
+    micSource.connect(merger, 0, 0);
+    referenceInput.connect(merger, 0, 1);
+    merger.connect(processor);
+    processor.connect(ctx.destination); // ScriptProcessor só corre ligado ao destino (saída é silêncio)
+
+    const stop = () => {
+      window.clearTimeout(timeout);
+      processor.onaudioprocess = null;
+      processor.disconnect();
+      merger.disconnect();
+      micSource.disconnect();
+    };
+    const timeout = window.setTimeout(() => {
+      stop();
+      reject(new Error('A gravação de calibração não avançou: o áudio do browser está suspenso. Mantenha o separador visível e tente de novo.'));
+    }, (durationSeconds + RECORD_TIMEOUT_MARGIN) * 1000);
+
+    processor.onaudioprocess = (e) => {
+      if (written >= total) return;
+      const count = Math.min(e.inputBuffer.length, total - written);
+      mic.set(e.inputBuffer.getChannelData(0).subarray(0, count), written);
+      reference.set(e.inputBuffer.getChannelData(1).subarray(0, count), written);
+      written += count;
+
+      if (written >= total) {
+        stop();
+        resolve({ mic, reference, sampleRate: ctx.sampleRate });
+      }
+    };
+
+    schedule(referenceInput, ctx.currentTime + LEAD_IN);
+  });
+}
+
+/**
+ * Sweep linear com fade in/out (evita cliques que alargam o pico).
+ */
+function createChirp(sampleRate: number): Float32Array {
+  const length = Math.floor(CHIRP_DURATION * sampleRate);
+  const chirp = new Float32Array(length);
+  const sweepRate = (CHIRP_END_HZ - CHIRP_START_HZ) / CHIRP_DURATION;
+  const fade = Math.floor(0.01 * sampleRate);
+  for (let i = 0; i < length; i++) {
+    const t = i / sampleRate;
+    const phase = 2 * Math.PI * (CHIRP_START_HZ * t + 0.5 * sweepRate * t * t);
+    const gain = Math.min(1, i / fade, (length - 1 - i) / fade);
+    chirp[i] = 0.8 * gain * Math.sin(phase);
+  }
+  return chirp;
+}
+
+/**
+ * Correlação cruzada (FFT) de `signal` com `reference`. Lag em amostras, entre 0 e `maxLag`.
+ * `strength` é o pico normalizado (0 a 1).
+ */
+function findLag(signal: Float32Array, reference: Float32Array, maxLag: number): { lag: number; strength: number } {
+  const n = nextPowerOfTwo(signal.length + reference.length);
+  const sRe = new Float64Array(n), sIm = new Float64Array(n);
+  const rRe = new Float64Array(n), rIm = new Float64Array(n);
+  sRe.set(signal);
+  rRe.set(reference);
+  fft(sRe, sIm);
+  fft(rRe, rIm);
+
+  // S · conj(R)
+  for (let k = 0; k < n; k++) {
+    const re = sRe[k] * rRe[k] + sIm[k] * rIm[k];
+    const im = sIm[k] * rRe[k] - sRe[k] * rIm[k];
+    sRe[k] = re;
+    sIm[k] = im;
+  }
+  fft(sRe, sIm, true);
+
+  let lag = 0;
+  for (let k = 1; k <= Math.min(maxLag, n - 1); k++) {
+    if (sRe[k] > sRe[lag]) lag = k;
+  }
+
+  let energyS = 0, energyR = 0;
+  for (let i = 0; i < signal.length; i++) energyS += signal[i] * signal[i];
+  for (let i = 0; i < reference.length; i++) energyR += reference[i] * reference[i];
+  const norm = Math.sqrt(energyS * energyR);
+
+  return { lag, strength: norm > 0 ? sRe[lag] / norm : 0 };
+}
+
+/**
+ * Primeiro bloco depois de `fromIdx` cuja energia se destaca do ruído de fundo
+ * (medido no silêncio antes de `fromIdx`). -1 se a voz nunca aparecer.
+ */
+function findOnset(signal: Float32Array, fromIdx: number, sampleRate: number): number {
+  const block = Math.max(1, Math.floor(ONSET_BLOCK_SECONDS * sampleRate));
+  const rms = (start: number) => {
+    let sum = 0;
+    const end = Math.min(start + block, signal.length);
+    for (let i = start; i < end; i++) sum += signal[i] * signal[i];
+    return Math.sqrt(sum / Math.max(1, end - start));
+  };
+
+  let floor = 0, blocks = 0;
+  for (let start = 0; start + block <= fromIdx; start += block) {
+    floor += rms(start);
+    blocks++;
+  }
+  floor = blocks > 0 ? floor / blocks : 0;
+
+  const threshold = Math.max(floor * ONSET_FACTOR, ONSET_MIN_RMS);
+  for (let start = fromIdx; start + block <= signal.length; start += block) {
+    if (rms(start) > threshold) return start;
+  }
+  return -1;
+}
@@ -0,0 +1,38 @@
+// Perfis de latência calibrados, guardados por dispositivo de entrada (localStorage)
+const STORAGE_KEY = 'cinevoz.latencyProfiles';
+const DEFAULT_DEVICE_KEY = 'default';
+
+export interface LatencyProfile {
+  captureLatency: number; // Segundos entre o som sair da coluna e chegar ao buffer do micro
+  roundTrip: number;      // Saída + acústica + entrada, como medido
+  speechOnset: number;    // Segundos entre speechSynthesis.speak() e a voz ser audível
+  measuredAt: number;     // Date.now() da calibração
+}
+
+function readAll(): Record<string, LatencyProfile> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn('[LatencyProfiles] Perfis ilegíveis, a ignorar', e);
+    return {};
+  }
+}
+
+function writeAll(profiles: Record<string, LatencyProfile>): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+}
+
+export function loadLatencyProfile(deviceId: string): LatencyProfile | null {
+  return readAll()[deviceId || DEFAULT_DEVICE_KEY] ?? null;
+}
+
+export function saveLatencyProfile(deviceId: string, profile: LatencyProfile): void {
+  writeAll({ ...readAll(), [deviceId || DEFAULT_DEVICE_KEY]: profile });
+}
+
+export function deleteLatencyProfile(deviceId: string): void {
+  const profiles = readAll();
+  delete profiles[deviceId || DEFAULT_DEVICE_KEY];
+  writeAll(profiles);
+}
@@ -0,0 +1,139 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LiveServerMessage } from '@google/genai';
+import { LiveConnection, LiveSessionConfig, LiveTransport, LiveTransportHandlers } from './liveTransport';
+import { LiveDescriptionSession, LiveSessionEvents } from './liveDescriptionSession';
+
+interface FakeConnection extends LiveConnection {
+  config: LiveSessionConfig;
+  handlers: LiveTransportHandlers;
+  closed: boolean;
+}
+
+/**
+ * Transporte em memória: cada `connect` fica registado; `failNext` faz falhar as próximas ligações.
+ */
+class FakeLiveTransport implements LiveTransport {
+  readonly name = 'Fake';
+  public connections: FakeConnection[] = [];
+  public attempts: LiveSessionConfig[] = [];
+  public failNext = 0;
+
+  async connect(config: LiveSessionConfig, handlers: LiveTransportHandlers): Promise<LiveConnection> {
+    this.attempts.push(config);
+    if (this.failNext > 0) {
+      this.failNext--;
+      throw new Error('recusada');
+    }
+    const connection: FakeConnection = {
+      config, handlers, closed: false,
+      sendAudio: vi.fn(), sendVideo: vi.fn(), sendText: vi.fn(),
+      close: () => { connection.closed = true; }
+    };
+    this.connections.push(connection);
+    return connection;
+  }
+
+  get last(): FakeConnection {
+    return this.connections[this.connections.length - 1];
+  }
+}
+
+// Mensagens como chegam em JSON (sem os getters da classe do SDK)
+const message = (fields: Partial<LiveServerMessage>) => fields as LiveServerMessage;
+const handleUpdate = (newHandle: string) => message({ sessionResumptionUpdate: { newHandle, resumable: true } });
+
+describe('LiveDescriptionSession', () => {
+  let transport: FakeLiveTransport;
+  let statuses: string[];
+  let events: LiveSessionEvents;
+  let session: LiveDescriptionSession;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    transport = new FakeLiveTransport();
+    statuses = [];
+    events = {
+      onStatus: status => statuses.push(status),
+      onAudio: vi.fn(), onTurnComplete: vi.fn(), onInterrupted: vi.fn(), onLog: vi.fn()
+    };
+    session = new LiveDescriptionSession(transport, { model: 'live', systemInstruction: 'Descreve.' }, events);
+    session.start();
+    await vi.advanceTimersByTimeAsync(0);
+  });
+
+  afterEach(() => {
+    session.stop();
+    vi.useRealTimers();
+  });
+
+  it('reconnects with growing delays and fails once they run out', async () => {
+    expect(statuses).toEqual(['connecting', 'live']);
+    transport.failNext = Infinity;
+    transport.last.handlers.onClose('rede');
+    expect(statuses.at(-1)).toBe('reconnecting');
+
+    for (const delay of [1000, 2000, 4000, 8000, 16000]) {
+      const attempts = transport.attempts.length;
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(transport.attempts).toHaveLength(attempts);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(transport.attempts).toHaveLength(attempts + 1);
+    }
+    expect(statuses.at(-1)).toBe('failed');
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(transport.attempts).toHaveLength(6);
+  });
+
+  it('starts the backoff over after a stable connection', async () => {
+    transport.last.handlers.onClose('rede');
+    await vi.advanceTimersByTimeAsync(1000);
+    transport.last.handlers.onClose('rede');
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(transport.attempts).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(transport.attempts).toHaveLength(3);
+
+    await vi.advanceTimersByTimeAsync(30001);
+    transport.last.handlers.onClose('rede');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(transport.attempts).toHaveLength(4);
+    expect(session.isLive).toBe(true);
+  });
+
+  it('resumes the session with the last handle after a drop', async () => {
+    transport.last.handlers.onMessage(handleUpdate('h1'));
+    transport.last.handlers.onMessage(message({ sessionResumptionUpdate: { newHandle: 'h2', resumable: false } }));
+    transport.last.handlers.onClose('rede');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(transport.attempts.map(config => config.resumeHandle)).toEqual([undefined, 'h1']);
+    expect(statuses).toEqual(['connecting', 'live', 'reconnecting', 'live']);
+  });
+
+  it('renews the connection right away on goAway and ignores the old one', async () => {
+    const old = transport.last;
+    old.handlers.onMessage(handleUpdate('h1'));
+    old.handlers.onMessage(message({ goAway: { timeLeft: '5s' } }));
+    expect(old.closed).toBe(true);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(transport.connections).toHaveLength(2);
+    expect(transport.last.config.resumeHandle).toBe('h1');
+    expect(session.isLive).toBe(true);
+
+    old.handlers.onClose('Limite de sessão');
+    old.handlers.onMessage(message({ serverContent: { turnComplete: true } }));
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(transport.connections).toHaveLength(2);
+    expect(events.onTurnComplete).not.toHaveBeenCalled();
+  });
+
+  it('stops reconnecting when stopped', async () => {
+    transport.last.handlers.onClose('rede');
+    session.stop();
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(transport.attempts).toHaveLength(1);
+    expect(statuses.at(-1)).toBe('closed');
+  });
+});
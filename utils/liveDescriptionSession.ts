@@ -0,0 +1,163 @@
+import { LiveServerMessage } from '@google/genai';
+import { LiveTransport, LiveConnection, LiveSessionConfig } from './liveTransport';
+import { createPcmBlob, base64ToUint8Array } from './audio';
+
+// Configuração da Sessão ao Vivo
+const RECONNECT_DELAYS = [1000, 2000, 4000, 8000, 16000]; // Backoff; esgotado, a sessão falha
+const STABLE_SESSION_MS = 30000; // Ligação que dura isto volta a ter todas as tentativas
+
+/**
+ * - 'connecting':   primeira ligação;
+ * - 'live':         a enviar o micro e a receber descrições;
+ * - 'reconnecting': ligação perdida ou renovada (goAway), com retoma da sessão se houver handle;
+ * - 'closed':       parada pelo utilizador;
+ * - 'failed':       sem ligação depois de todas as tentativas.
+ */
+export type LiveSessionStatus = 'connecting' | 'live' | 'reconnecting' | 'closed' | 'failed';
+
+export interface LiveSessionEvents {
+  onStatus: (status: LiveSessionStatus) => void;
+  onAudio: (pcm: Int16Array) => void;        // PCM 24kHz da descrição em curso
+  onTurnComplete: (transcript: string) => void;
+  onInterrupted: () => void;                 // O modelo abandonou a descrição em curso
+  onLog: (message: string, type: 'info' | 'error' | 'success') => void;
+}
+
+/**
+ * Sessão Gemini Live de audiodescrição: envia o micro (e imagens da TV), entrega o áudio das
+ * descrições e mantém-se ligada. Ligações perdidas e avisos de fim (goAway, limites de sessão)
+ * levam a uma nova ligação que retoma a sessão com o último handle recebido.
+ */
+export class LiveDescriptionSession {
+  private connection: LiveConnection | null = null;
+  private status: LiveSessionStatus = 'closed';
+  private resumeHandle: string | undefined;
+  private attempt = 0;
+  private connectedAt = 0;
+  private reconnectTimer: number | null = null;
+  private generation = 0; // Ignora eventos de ligações antigas
+  private transcript = '';
+
+  constructor(
+    private transport: LiveTransport,
+    private config: Omit<LiveSessionConfig, 'resumeHandle'>,
+    private events: LiveSessionEvents
+  ) {}
+
+  get isLive(): boolean {
+    return this.status === 'live';
+  }
+
+  start(): void {
+    this.attempt = 0;
+    this.resumeHandle = undefined;
+    this.open('connecting');
+  }
+
+  stop(): void {
+    this.generation++;
+    if (this.reconnectTimer !== null) window.clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.connection?.close();
+    this.connection = null;
+    this.setStatus('closed');
+  }
+
+  /**
+   * Áudio do micro, já a 16kHz. Fora de uma ligação ativa é descartado (é tempo real).
+   */
+  sendAudio(pcm16k: Float32Array): void {
+    if (this.status === 'live') this.connection?.sendAudio(createPcmBlob(pcm16k));
+  }
+
+  sendFrame(jpegBase64: string): void {
+    if (this.status === 'live') this.connection?.sendVideo({ data: jpegBase64, mimeType: 'image/jpeg' });
+  }
+
+  private setStatus(status: LiveSessionStatus): void {
+    if (status === this.status) return;
+    this.status = status;
+    this.events.onStatus(status);
+  }
+
+  private async open(status: 'connecting' | 'reconnecting'): Promise<void> {
+    const generation = ++this.generation;
+    this.setStatus(status);
+    try {
+      const connection = await this.transport.connect({ ...this.config, resumeHandle: this.resumeHandle }, {
+        onMessage: (message) => { if (generation === this.generation) this.handleMessage(message); },
+        onClose: (reason) => { if (generation === this.generation) this.handleDrop(`Ligação fechada (${reason})`); },
+        onError: (message) => { if (generation === this.generation) this.events.onLog(`Gemini Live: ${message}`, 'error'); }
+      });
+      if (generation !== this.generation) {
+        connection.close(); // Parada entretanto
+        return;
+      }
+      this.connection = connection;
+      this.connectedAt = Date.now();
+      this.setStatus('live');
+      this.events.onLog(`${this.transport.name}: ${this.resumeHandle ? 'sessão retomada' : 'sessão iniciada'}`, 'success');
+    } catch (e) {
+      if (generation !== this.generation) return;
+      this.handleDrop(`Falha na ligação: ${(e as Error).message}`);
+    }
+  }
+
+  private handleDrop(reason: string): void {
+    const wasLive = this.connection !== null; // Falhas a ligar não contam como sessão estável
+    this.connection = null;
+    if (this.status === 'closed') return;
+    if (wasLive && Date.now() - this.connectedAt > STABLE_SESSION_MS) this.attempt = 0;
+
+    const delay = RECONNECT_DELAYS[this.attempt++];
+    if (delay === undefined) {
+      this.events.onLog(`${reason}. Sem mais tentativas.`, 'error');
+      this.generation++;
+      this.setStatus('failed');
+      return;
+    }
+    this.events.onLog(`${reason}. Nova tentativa em ${delay / 1000}s.`, 'error');
+    this.setStatus('reconnecting');
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open('reconnecting');
+    }, delay);
+  }
+
+  private handleMessage(message: LiveServerMessage): void {
+    if (message.sessionResumptionUpdate?.resumable && message.sessionResumptionUpdate.newHandle) {
+      this.resumeHandle = message.sessionResumptionUpdate.newHandle;
+    }
+
+    // O servidor vai fechar (limite da ligação): renovar já, retomando a sessão
+    if (message.goAway) {
+      this.events.onLog(`Gemini Live: fim da ligação em ${message.goAway.timeLeft ?? '?'}, a renovar`, 'info');
+      const old = this.connection;
+      this.generation++;
+      this.connection = null;
+      old?.close();
+      this.attempt = 0;
+      this.open('reconnecting');
+      return;
+    }
+
+    const content = message.serverContent;
+    if (!content) return;
+    if (content.interrupted) {
+      this.transcript = '';
+      this.events.onInterrupted();
+    }
+    for (const part of content.modelTurn?.parts ?? []) {
+      const data = part.inlineData?.data;
+      if (data && part.inlineData?.mimeType?.startsWith('audio/')) {
+        const bytes = base64ToUint8Array(data);
+        this.events.onAudio(new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2)));
+      }
+    }
+    if (content.outputTranscription?.text) this.transcript += content.outputTranscription.text;
+    if (content.turnComplete) {
+      this.events.onTurnComplete(this.transcript.trim());
+      this.transcript = '';
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { MatchResult } from './audioMatcher';
+
+// Configuração da Deteção de Interrupções (checks de ~2s)
+const SILENT_AFTER = 2;          // Checks seguidos em silêncio até declarar pausa (~4s)
+const FOREIGN_AFTER = 4;         // Checks seguidos com som mas sem match até declarar áudio estranho (~8s)
+const RESUME_CONFIRMATIONS = 2;  // Matches consistentes necessários para retomar
+const RESUME_AGREEMENT = 2.0;    // Tolerância (s) entre matches consecutivos do regresso
+
+/**
+ * - 'matching': o live corresponde ao filme;
+ * - 'silent':   silêncio sustentado (TV em pausa, mute);
+ * - 'foreign':  som sustentado que não é o filme (anúncios, outro canal).
+ */
+export type LiveSignalState = 'matching' | 'silent' | 'foreign';
+
+/**
+ * Classifica o sinal live ao longo do tempo a partir dos resultados do matcher.
+ * Estados só mudam com evidência sustentada, para que um check isolado não pare o filme.
+ */
+export class LiveSignalMonitor {
+  private state: LiveSignalState = 'matching';
+  private silentStreak = 0;
+  private foreignStreak = 0;
+  private resumeEvidence: Array<{ clock: number; time: number }> = [];
+
+  getState(): LiveSignalState {
+    return this.state;
+  }
+
+  reset(): void {
+    this.state = 'matching';
+    this.silentStreak = 0;
+    this.foreignStreak = 0;
+    this.resumeEvidence = [];
+  }
+
+  /**
+   * @param isConfident Se o match passou o limiar de confiança do chamador
+   * @param clock Relógio de parede (s) a que o match se refere
+   * @returns O estado após este check
+   */
+  update(result: MatchResult, isConfident: boolean, clock: number): LiveSignalState {
+    if (result.liveSignal === 'silent') {
+      this.silentStreak++;
+      this.foreignStreak = 0;
+      this.resumeEvidence = [];
+      if (this.state !== 'silent' && this.silentStreak >= SILENT_AFTER) this.state = 'silent';
+      return this.state;
+    }
+
+    if (!isConfident) {
+      this.foreignStreak++;
+      this.silentStreak = 0;
+      this.resumeEvidence = [];
+      if (this.state !== 'foreign' && this.foreignStreak >= FOREIGN_AFTER) this.state = 'foreign';
+      return this.state;
+    }
+
+    this.silentStreak = 0;
+    this.foreignStreak = 0;
+    if (this.state === 'matching') return this.state;
+
+    // Regresso do filme: exige matches consecutivos coerentes entre si
+    const last = this.resumeEvidence[this.resumeEvidence.length - 1];
+    const agrees = last && Math.abs(result.currentTime - (last.time + (clock - last.clock) * result.playbackRate)) < RESUME_AGREEMENT;
+    this.resumeEvidence = agrees ? [...this.resumeEvidence, { clock, time: result.currentTime }] : [{ clock, time: result.currentTime }];
+
+    if (this.resumeEvidence.length >= RESUME_CONFIRMATIONS) {
+      this.state = 'matching';
+      this.resumeEvidence = [];
+    }
+    return this.state;
+  }
+}
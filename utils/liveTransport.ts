@@ -0,0 +1,133 @@
+import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
+
+// Transporte da sessão Gemini Live. O SDK é o caminho normal; o WebSocket fala o mesmo
+// protocolo JSON (BidiGenerateContent) e serve para testar contra um servidor local.
+
+export interface LiveSessionConfig {
+  model: string;
+  systemInstruction: string;
+  voiceName?: string;     // Voz pré-definida do Gemini (ex: 'Kore')
+  languageCode?: string;  // BCP-47 da fala gerada
+  resumeHandle?: string;  // Retoma uma sessão anterior (reconexão)
+}
+
+export interface LiveTransportHandlers {
+  onMessage: (message: LiveServerMessage) => void;
+  onClose: (reason: string) => void;
+  onError: (message: string) => void;
+}
+
+export interface LiveConnection {
+  sendAudio(blob: Blob): void;
+  sendVideo(blob: Blob): void;
+  sendText(text: string): void;
+  close(): void;
+}
+
+export interface LiveTransport {
+  readonly name: string;
+  connect(config: LiveSessionConfig, handlers: LiveTransportHandlers): Promise<LiveConnection>;
+}
+
+/**
+ * Configuração comum: só áudio na resposta, retoma de sessão e janela de contexto deslizante
+ * (sem compressão, uma sessão com vídeo termina ao fim de ~2 minutos).
+ */
+function sessionSetup(config: LiveSessionConfig) {
+  return {
+    responseModalities: [Modality.AUDIO],
+    systemInstruction: config.systemInstruction,
+    speechConfig: {
+      ...(config.languageCode ? { languageCode: config.languageCode } : {}),
+      ...(config.voiceName ? { voiceConfig: { prebuiltVoiceConfig: { voiceName: config.voiceName } } } : {})
+    },
+    sessionResumption: { handle: config.resumeHandle },
+    contextWindowCompression: { slidingWindow: {} },
+    outputAudioTranscription: {}
+  };
+}
+
+export class GeminiLiveTransport implements LiveTransport {
+  readonly name = 'Gemini Live';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async connect(config: LiveSessionConfig, handlers: LiveTransportHandlers): Promise<LiveConnection> {
+    const session = await this.ai.live.connect({
+      model: config.model,
+      config: sessionSetup(config),
+      callbacks: {
+        onmessage: handlers.onMessage,
+        onerror: (e) => handlers.onError(e.message || 'Erro na ligação'),
+        onclose: (e) => handlers.onClose(e.reason || `código ${e.code}`)
+      }
+    });
+    return {
+      sendAudio: (blob) => session.sendRealtimeInput({ audio: blob }),
+      sendVideo: (blob) => session.sendRealtimeInput({ video: blob }),
+      sendText: (text) => session.sendRealtimeInput({ text }),
+      close: () => session.close()
+    };
+  }
+}
+
+/**
+ * Protocolo em bruto sobre WebSocket: a primeira mensagem é o `setup`, as seguintes `realtimeInput`;
+ * o servidor responde com LiveServerMessage em JSON.
+ */
+export class WebSocketLiveTransport implements LiveTransport {
+  readonly name: string;
+
+  constructor(private url: string) {
+    this.name = `WebSocket ${url}`;
+  }
+
+  connect(config: LiveSessionConfig, handlers: LiveTransportHandlers): Promise<LiveConnection> {
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url);
+      let opened = false;
+      const send = (message: object) => {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+      };
+
+      socket.onopen = () => {
+        opened = true;
+        const { systemInstruction, responseModalities, ...rest } = sessionSetup(config);
+        send({
+          setup: {
+            model: config.model.startsWith('models/') ? config.model : `models/${config.model}`,
+            generationConfig: { responseModalities, speechConfig: rest.speechConfig },
+            systemInstruction: { parts: [{ text: systemInstruction }] },
+            sessionResumption: rest.sessionResumption,
+            contextWindowCompression: rest.contextWindowCompression,
+            outputAudioTranscription: rest.outputAudioTranscription
+          }
+        });
+        resolve({
+          sendAudio: (blob) => send({ realtimeInput: { audio: blob } }),
+          sendVideo: (blob) => send({ realtimeInput: { video: blob } }),
+          sendText: (text) => send({ realtimeInput: { text } }),
+          close: () => socket.close()
+        });
+      };
+      socket.onmessage = async (e: MessageEvent) => {
+        try {
+          const raw = typeof e.data === 'string' ? e.data : await (e.data as globalThis.Blob).text();
+          handlers.onMessage(JSON.parse(raw) as LiveServerMessage);
+        } catch (err) {
+          handlers.onError(`Mensagem ilegível do servidor: ${(err as Error).message}`);
+        }
+      };
+      socket.onerror = () => {
+        if (!opened) reject(new Error(`Sem ligação a ${this.url}`));
+        else handlers.onError('Erro no WebSocket');
+      };
+      socket.onclose = (e) => {
+        if (opened) handlers.onClose(e.reason || `código ${e.code}`);
+      };
+    });
+  }
+}
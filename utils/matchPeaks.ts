@@ -0,0 +1,66 @@
+// Configuração da Unicidade dos Picos (comum aos dois métodos de match)
+const FULL_UNIQUENESS_RATIO = 1.3; // Pico/2º pico a partir do qual o match é considerado inequívoco
+
+export interface Peak {
+  position: number; // Índice (envelope) ou offset em frames (espectral)
+  value: number;
+}
+
+/**
+ * Os `count` maiores picos com supressão de não-máximos: cada pico escolhido elimina
+ * os vizinhos a menos de `minSeparation`, para que o lóbulo principal de um único
+ * alinhamento não ocupe todos os lugares. Valores NaN são ignorados.
+ * @param positions Posição de cada valor (por omissão, o próprio índice)
+ */
+export function findTopPeaks(
+  values: ArrayLike<number>,
+  count: number,
+  minSeparation: number,
+  positions?: ArrayLike<number>
+): Peak[] {
+  const peaks: Peak[] = [];
+  const positionAt = (i: number) => positions ? positions[i] : i;
+
+  while (peaks.length < count) {
+    let bestIdx = -1;
+    for (let i = 0; i < values.length; i++) {
+      const v = values[i];
+      if (!(v > -Infinity)) continue; // NaN
+      if (bestIdx >= 0 && (v < values[bestIdx] || (v === values[bestIdx] && positionAt(i) >= positionAt(bestIdx)))) continue;
+      const pos = positionAt(i);
+      if (peaks.some(p => Math.abs(p.position - pos) < minSeparation)) continue;
+      bestIdx = i;
+    }
+    if (bestIdx < 0) break;
+    peaks.push({ position: positionAt(bestIdx), value: values[bestIdx] });
+  }
+
+  return peaks;
+}
+
+/**
+ * Razão entre o melhor pico e o segundo. `floor` evita razões enormes quando o
+ * segundo pico é ruído perto de zero (ou não existe).
+ */
+export function peakRatio(peaks: Peak[], floor: number): number {
+  if (peaks.length === 0) return 1;
+  const second = peaks.length > 1 ? peaks[1].value : 0;
+  return peaks[0].value / Math.max(second, floor);
+}
+
+/**
+ * Confiança ponderada pela unicidade: um pico alto que se repete noutros offsets
+ * (banda sonora repetitiva) vale pouco; um pico destacado vale o seu score.
+ * @param score Score bruto do melhor pico (0 a 100)
+ */
+export function uniquenessConfidence(score: number, ratio: number): number {
+  const uniqueness = Math.min(1, Math.max(0, (ratio - 1) / (FULL_UNIQUENESS_RATIO - 1)));
+  return Math.max(0, Math.min(100, score * uniqueness));
+}
+
+/**
+ * Se `peak` ainda disputa o alinhamento com o melhor pico `top` (razão abaixo da unicidade plena).
+ */
+export function isCompetingPeak(peak: Peak, top: Peak): boolean {
+  return peak.value * FULL_UNIQUENESS_RATIO >= top.value;
+}
@@ -0,0 +1,65 @@
+// Configuração da Estimativa de Velocidade (regressão sobre matches sucessivos)
+const MAX_SAMPLES = 20;          // Janela deslizante de matches
+const MIN_SAMPLES = 4;
+const MIN_SPAN_SECONDS = 20;     // Abaixo disto o declive é dominado pelo erro de cada match (~50ms)
+const MIN_RATE = 0.9;            // Fora deste intervalo consideramos a estimativa inválida
+const MAX_RATE = 1.1;
+
+export interface RateEstimate {
+  rate: number;      // Segundos de filme por segundo de relógio (ex: 1.0417 em PAL)
+  samples: number;
+  residual: number;  // Erro RMS (s) dos matches face à reta
+}
+
+/**
+ * Estima a velocidade de reprodução do filme (PAL speedup, time-stretch do streaming)
+ * por regressão linear entre o relógio de parede e o tempo de filme de cada match.
+ */
+export class PlaybackRateEstimator {
+  private samples: Array<{ clock: number; filmTime: number }> = [];
+
+  /**
+   * @param clockSeconds Relógio de parede (ex: Date.now() / 1000) no instante do match
+   * @param filmTime Tempo de filme encontrado pelo matcher
+   */
+  add(clockSeconds: number, filmTime: number): void {
+    this.samples.push({ clock: clockSeconds, filmTime });
+    if (this.samples.length > MAX_SAMPLES) this.samples.shift();
+  }
+
+  clear(): void {
+    this.samples = [];
+  }
+
+  /**
+   * Declive por mínimos quadrados. Null enquanto não houver amostras/tempo suficientes.
+   */
+  estimate(): RateEstimate | null {
+    const n = this.samples.length;
+    if (n < MIN_SAMPLES) return null;
+    if (this.samples[n - 1].clock - this.samples[0].clock < MIN_SPAN_SECONDS) return null;
+
+    // Centrar no primeiro ponto evita perda de precisão com Date.now() em segundos
+    const x0 = this.samples[0].clock;
+    const y0 = this.samples[0].filmTime;
+    let sumX = 0, sumY = 0, sumXX = 0, sumXY = 0;
+    for (const s of this.samples) {
+      const x = s.clock - x0, y = s.filmTime - y0;
+      sumX += x; sumY += y; sumXX += x * x; sumXY += x * y;
+    }
+    const denom = n * sumXX - sumX * sumX;
+    if (denom <= 0) return null;
+
+    const rate = (n * sumXY - sumX * sumY) / denom;
+    if (rate < MIN_RATE || rate > MAX_RATE) return null;
+
+    const intercept = (sumY - rate * sumX) / n;
+    let sumSqErr = 0;
+    for (const s of this.samples) {
+      const err = (s.filmTime - y0) - (intercept + rate * (s.clock - x0));
+      sumSqErr += err * err;
+    }
+
+    return { rate, samples: n, residual: Math.sqrt(sumSqErr / n) };
+  }
+}
@@ -0,0 +1,78 @@
+import { SrtEntry } from './srt';
+
+/**
+ * Framerates de origem/destino comuns (NTSC com o fator 1000/1001 exato).
+ */
+export const STANDARD_FRAMERATES: Array<{ label: string; fps: number }> = [
+  { label: '23.976', fps: 24000 / 1001 },
+  { label: '24', fps: 24 },
+  { label: '25', fps: 25 },
+  { label: '29.97', fps: 30000 / 1001 },
+  { label: '30', fps: 30 }
+];
+
+export interface SyncPoint {
+  entryId: string;
+  time: number; // Tempo verdadeiro (s) do início da linha na cópia do espectador
+}
+
+/**
+ * - 'shift':     soma `offset` segundos a todos os tempos (ex: logótipo de estúdio a mais);
+ * - 'framerate': o guião foi temporizado para `from` fps e a cópia corre a `to` fps (ex: 23.976 → 25 em PAL);
+ * - 'twoPoint':  duas linhas com os tempos verdadeiros; o resto é interpolado/extrapolado.
+ */
+export type Retiming =
+  | { kind: 'shift'; offset: number }
+  | { kind: 'framerate'; from: number; to: number }
+  | { kind: 'twoPoint'; first: SyncPoint; second: SyncPoint };
+
+/**
+ * tempoNovo = scale × tempo + offset
+ */
+export interface LinearRetiming {
+  scale: number;
+  offset: number;
+}
+
+/**
+ * Transformação linear da operação. Null se não for válida (pontos iguais,
+ * linhas inexistentes, ordem invertida ou framerates não positivos).
+ */
+export function linearRetiming(entries: SrtEntry[], retiming: Retiming): LinearRetiming | null {
+  switch (retiming.kind) {
+    case 'shift':
+      return Number.isFinite(retiming.offset) ? { scale: 1, offset: retiming.offset } : null;
+    case 'framerate':
+      // A cópia mais rápida (mais fps) chega ao mesmo frame mais cedo
+      return retiming.from > 0 && retiming.to > 0 ? { scale: retiming.from / retiming.to, offset: 0 } : null;
+    case 'twoPoint': {
+      const a = entries.find(e => e.id === retiming.first.entryId);
+      const b = entries.find(e => e.id === retiming.second.entryId);
+      if (!a || !b || a === b || a.startTime === b.startTime) return null;
+      const scale = (retiming.second.time - retiming.first.time) / (b.startTime - a.startTime);
+      if (!(scale > 0) || !Number.isFinite(scale)) return null; // Inverteria a ordem das linhas
+      return { scale, offset: retiming.first.time - scale * a.startTime };
+    }
+  }
+}
+
+export function applyLinearRetiming(time: number, linear: LinearRetiming): number {
+  return Math.max(0, linear.scale * time + linear.offset);
+}
+
+/**
+ * Linhas com os tempos transformados. Tempos que ficariam negativos ficam em 0;
+ * linhas que acabam antes de 0 desaparecem (e são contadas em `dropped`).
+ */
+export function retimeEntries(entries: SrtEntry[], retiming: Retiming): { entries: SrtEntry[]; dropped: number } | null {
+  const linear = linearRetiming(entries, retiming);
+  if (!linear) return null;
+
+  const retimed: SrtEntry[] = [];
+  for (const entry of entries) {
+    const endTime = linear.scale * entry.endTime + linear.offset;
+    if (endTime <= 0) continue;
+    retimed.push({ ...entry, startTime: applyLinearRetiming(entry.startTime, linear), endTime });
+  }
+  return { entries: retimed, dropped: entries.length - retimed.length };
+}
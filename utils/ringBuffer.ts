@@ -0,0 +1,102 @@
+// Layout do controlo (Int32Array), partilhado com o código do AudioWorklet
+export const RING_WRITE_INDEX = 0; // Próxima posição de escrita
+export const RING_FILLED = 1;      // Amostras válidas (satura na capacidade)
+export const RING_CONTROL_SLOTS = 2;
+
+/**
+ * Buffers de um ring buffer. Com SharedArrayBuffer (página crossOriginIsolated),
+ * o AudioWorklet escreve diretamente e a thread principal lê sem mensagens.
+ */
+export interface RingBufferStorage {
+  data: SharedArrayBuffer | ArrayBuffer;
+  control: SharedArrayBuffer | ArrayBuffer;
+}
+
+/**
+ * Ring buffer de áudio mono de tamanho fixo: o escritor nunca aloca e o leitor
+ * copia as últimas N amostras para um array seu.
+ */
+export class AudioRingBuffer {
+  readonly storage: RingBufferStorage;
+  readonly isShared: boolean;
+  private data: Float32Array;
+  private control: Int32Array;
+
+  /**
+   * Partilhado quando possível; caso contrário, buffers normais (escrita por mensagens),
+   * que é o caso da app enquanto não for servida com COOP/COEP (ver `CaptureMode`).
+   */
+  static create(capacity: number): AudioRingBuffer {
+    const shared = typeof SharedArrayBuffer !== 'undefined' && typeof crossOriginIsolated !== 'undefined' && crossOriginIsolated;
+    const alloc = (bytes: number) => shared ? new SharedArrayBuffer(bytes) : new ArrayBuffer(bytes);
+    return new AudioRingBuffer({
+      data: alloc(capacity * Float32Array.BYTES_PER_ELEMENT),
+      control: alloc(RING_CONTROL_SLOTS * Int32Array.BYTES_PER_ELEMENT)
+    });
+  }
+
+  constructor(storage: RingBufferStorage) {
+    this.storage = storage;
+    this.isShared = typeof SharedArrayBuffer !== 'undefined' && storage.control instanceof SharedArrayBuffer;
+    this.data = new Float32Array(storage.data);
+    this.control = new Int32Array(storage.control);
+  }
+
+  get capacity(): number {
+    return this.data.length;
+  }
+
+  write(samples: Float32Array): void {
+    const capacity = this.data.length;
+    // Só as últimas `capacity` amostras sobrevivem
+    const input = samples.length > capacity ? samples.subarray(samples.length - capacity) : samples;
+    let writeIndex = this.load(RING_WRITE_INDEX);
+
+    const firstPart = Math.min(input.length, capacity - writeIndex);
+    this.data.set(input.subarray(0, firstPart), writeIndex);
+    this.data.set(input.subarray(firstPart), 0);
+    writeIndex = (writeIndex + input.length) % capacity;
+
+    this.store(RING_WRITE_INDEX, writeIndex);
+    this.store(RING_FILLED, Math.min(capacity, this.load(RING_FILLED) + input.length));
+  }
+
+  /**
+   * Amostras disponíveis para leitura (até à capacidade).
+   */
+  available(): number {
+    return this.load(RING_FILLED);
+  }
+
+  /**
+   * Copia as últimas min(out.length, available) amostras para o início de `out`, por ordem.
+   * @returns Número de amostras copiadas
+   */
+  readLatest(out: Float32Array): number {
+    const capacity = this.data.length;
+    const count = Math.min(out.length, this.load(RING_FILLED));
+    const writeIndex = this.load(RING_WRITE_INDEX);
+    const start = (writeIndex - count + capacity) % capacity;
+
+    const firstPart = Math.min(count, capacity - start);
+    out.set(this.data.subarray(start, start + firstPart), 0);
+    out.set(this.data.subarray(0, count - firstPart), firstPart);
+    return count;
+  }
+
+  /**
+   * Descarta o conteúdo (ex: novo scan, para não comparar áudio antigo).
+   */
+  clear(): void {
+    this.store(RING_FILLED, 0);
+  }
+
+  private load(slot: number): number {
+    return this.isShared ? Atomics.load(this.control, slot) : this.control[slot];
+  }
+
+  private store(slot: number, value: number): void {
+    if (this.isShared) Atomics.store(this.control, slot, value);
+    else this.control[slot] = value;
+  }
+}
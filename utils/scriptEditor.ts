@@ -0,0 +1,219 @@
+import { SrtEntry, formatTimestamp } from './srt';
+import { parseSpeechTag, withSpeechAttributes } from './speechAttributes';
+import { FitSuggestion } from './timingFit';
+
+// Configuração da Edição do Guião
+const MIN_ENTRY_DURATION = 0.5;     // Nenhuma linha fica mais curta do que isto (split, retime)
+const NEW_ENTRY_DURATION = 3;       // Duração de uma linha inserida, se houver espaço
+const NEW_ENTRY_TEXT = 'Nova descrição';
+const HISTORY_LIMIT = 100;          // Passos de undo guardados
+
+export type EntryTiming = Pick<SrtEntry, 'startTime' | 'endTime'>;
+
+/**
+ * Ordem de reprodução: por início, e pelo fim em caso de empate.
+ */
+function sortEntries(entries: SrtEntry[]): SrtEntry[] {
+  return [...entries].sort((a, b) => a.startTime - b.startTime || a.endTime - b.endTime);
+}
+
+/**
+ * Id livre para uma linha nova: o maior id numérico + 1 (ids de WebVTT/TTML podem não ser números).
+ */
+export function nextEntryId(entries: SrtEntry[]): string {
+  const used = new Set(entries.map(e => e.id));
+  let next = entries.reduce((max, e) => /^\d+$/.test(e.id) ? Math.max(max, Number(e.id)) : max, 0) + 1;
+  while (used.has(String(next))) next++;
+  return String(next);
+}
+
+/**
+ * Se o par início/fim é aceitável para uma linha (fim depois do início, duração mínima).
+ */
+export function isValidTiming(timing: EntryTiming): boolean {
+  return timing.startTime >= 0 && timing.endTime - timing.startTime >= MIN_ENTRY_DURATION - 1e-6;
+}
+
+/**
+ * Tempo escrito pelo utilizador: `hh:mm:ss.mmm`, `mm:ss.mmm` ou segundos (vírgula ou ponto).
+ * Null se não for legível.
+ */
+export function parseTimeInput(value: string): number | null {
+  const match = value.trim().replace(',', '.').match(/^(?:(?:(\d+):)?(\d{1,2}):)?(\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  const [, h, m, s] = match;
+  return Number(h ?? 0) * 3600 + Number(m ?? 0) * 60 + Number(s);
+}
+
+export function formatTimeInput(seconds: number): string {
+  return formatTimestamp(seconds, '.');
+}
+
+/**
+ * Novo texto da linha. Uma etiqueta de voz no início (`[rate=1.4] …`) substitui os atributos de leitura.
+ */
+export function updateEntryText(entries: SrtEntry[], id: string, text: string): SrtEntry[] {
+  const { text: plain, attributes } = parseSpeechTag(text);
+  const trimmed = plain.trim();
+  if (!trimmed) return entries;
+  return entries.map(e => e.id === id ? { ...withSpeechAttributes(e, attributes), text: trimmed } : e);
+}
+
+/**
+ * Novo início e/ou fim. Um início depois do fim arrasta o fim (mantém a duração);
+ * tempos inválidos deixam o guião como estava.
+ */
+export function retimeEntry(entries: SrtEntry[], id: string, timing: Partial<EntryTiming>): SrtEntry[] {
+  const entry = entries.find(e => e.id === id);
+  if (!entry) return entries;
+
+  const startTime = timing.startTime ?? entry.startTime;
+  let endTime = timing.endTime ?? entry.endTime;
+  if (timing.startTime !== undefined && timing.endTime === undefined && endTime - startTime < MIN_ENTRY_DURATION) {
+    endTime = startTime + (entry.endTime - entry.startTime);
+  }
+  if (!isValidTiming({ startTime, endTime })) return entries;
+  return sortEntries(entries.map(e => e === entry ? { ...e, startTime, endTime } : e));
+}
+
+/**
+ * Divide uma linha em duas. O texto é cortado no espaço mais perto do meio; o tempo,
+ * em `at` (se cair dentro da linha) ou na proporção do texto de cada metade.
+ * Null se a linha não tiver duas palavras ou for curta demais para dividir.
+ */
+export function splitEntry(entries: SrtEntry[], id: string, at?: number): SrtEntry[] | null {
+  const entry = entries.find(e => e.id === id);
+  if (!entry) return null;
+
+  const words = entry.text.split(/\s+/).filter(Boolean);
+  if (words.length < 2) return null;
+  const middle = entry.text.length / 2;
+  let cut = 1;
+  let consumed = words[0].length;
+  let bestDistance = Infinity;
+  for (let i = 1; i < words.length; i++) {
+    const distance = Math.abs(consumed - middle);
+    if (distance < bestDistance) { bestDistance = distance; cut = i; }
+    consumed += 1 + words[i].length;
+  }
+  const firstText = words.slice(0, cut).join(' ');
+  const secondText = words.slice(cut).join(' ');
+
+  const duration = entry.endTime - entry.startTime;
+  const splitTime = at !== undefined && at > entry.startTime && at < entry.endTime
+    ? at
+    : entry.startTime + duration * firstText.length / (firstText.length + secondText.length);
+  if (splitTime - entry.startTime < MIN_ENTRY_DURATION || entry.endTime - splitTime < MIN_ENTRY_DURATION) return null;
+
+  const first: SrtEntry = { ...entry, endTime: splitTime, text: firstText };
+  const second: SrtEntry = { ...entry, id: nextEntryId(entries), startTime: splitTime, text: secondText };
+  return sortEntries(entries.flatMap(e => e === entry ? [first, second] : [e]));
+}
+
+/**
+ * Junta uma linha com a seguinte (texto concatenado, do início da primeira ao fim da última).
+ * Null se for a última linha.
+ */
+export function mergeWithNext(entries: SrtEntry[], id: string): SrtEntry[] | null {
+  const sorted = sortEntries(entries);
+  const index = sorted.findIndex(e => e.id === id);
+  if (index < 0 || index === sorted.length - 1) return null;
+
+  const [entry, next] = [sorted[index], sorted[index + 1]];
+  const merged: SrtEntry = {
+    ...entry,
+    endTime: Math.max(entry.endTime, next.endTime),
+    text: `${entry.text} ${next.text}`,
+    draft: entry.draft || next.draft || undefined // Com texto por rever, a linha toda fica por rever
+  };
+  return [...sorted.slice(0, index), merged, ...sorted.slice(index + 2)];
+}
+
+/**
+ * Insere uma linha em `at`, encurtada para não invadir a linha seguinte.
+ * Null se não houver espaço para a duração mínima.
+ */
+export function insertEntry(entries: SrtEntry[], at: number, text: string = NEW_ENTRY_TEXT): { entries: SrtEntry[]; id: string } | null {
+  const startTime = Math.max(0, at);
+  const next = sortEntries(entries).find(e => e.startTime > startTime);
+  const endTime = Math.min(startTime + NEW_ENTRY_DURATION, next ? next.startTime : Infinity);
+  if (!isValidTiming({ startTime, endTime })) return null;
+
+  const id = nextEntryId(entries);
+  return { entries: sortEntries([...entries, { id, startTime, endTime, text }]), id };
+}
+
+/**
+ * Aplica a sugestão da análise de encaixe (velocidade e/ou início mais cedo).
+ * Null para 'shorten', que exige reescrever o texto.
+ */
+export function applyFitSuggestion(entries: SrtEntry[], id: string, suggestion: FitSuggestion): SrtEntry[] | null {
+  if (suggestion.kind === 'shorten') return null;
+  let next = entries;
+  if (suggestion.kind === 'start') {
+    next = retimeEntry(entries, id, { startTime: suggestion.startTime });
+    if (next === entries) return null;
+  }
+  const rate = suggestion.rate;
+  return rate === undefined ? next : next.map(e => e.id === id ? { ...e, rate } : e);
+}
+
+/**
+ * Aprova linhas de rascunho (todas, sem `id`): deixam de estar marcadas como por rever.
+ */
+export function approveDrafts(entries: SrtEntry[], id?: string): SrtEntry[] {
+  if (!entries.some(e => e.draft && (id === undefined || e.id === id))) return entries;
+  return entries.map(e => e.draft && (id === undefined || e.id === id) ? { ...e, draft: undefined } : e);
+}
+
+export function deleteEntry(entries: SrtEntry[], id: string): SrtEntry[] {
+  return entries.filter(e => e.id !== id);
+}
+
+/**
+ * Histórico de undo/redo do guião. Guarda versões completas: as edições criam arrays
+ * novos e partilham as linhas não alteradas, por isso cada passo custa pouco.
+ */
+export class ScriptHistory {
+  private past: SrtEntry[][] = [];
+  private future: SrtEntry[][] = [];
+
+  get canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /**
+   * Regista a versão anterior a uma edição. Uma edição nova apaga o redo.
+   */
+  record(previous: SrtEntry[]): void {
+    this.past.push(previous);
+    if (this.past.length > HISTORY_LIMIT) this.past.shift();
+    this.future = [];
+  }
+
+  /**
+   * Versão a repor (ou null), sendo `current` a que está em uso.
+   */
+  undo(current: SrtEntry[]): SrtEntry[] | null {
+    const previous = this.past.pop();
+    if (!previous) return null;
+    this.future.push(current);
+    return previous;
+  }
+
+  redo(current: SrtEntry[]): SrtEntry[] | null {
+    const next = this.future.pop();
+    if (!next) return null;
+    this.past.push(current);
+    return next;
+  }
+
+  clear(): void {
+    this.past = [];
+    this.future = [];
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { decodeScriptBytes, detectScriptFormat, importScript } from './scriptImport';
+
+describe('detectScriptFormat', () => {
+  it('detects the format from the content', () => {
+    expect(detectScriptFormat('\uFEFFWEBVTT\n\n')).toBe('vtt');
+    expect(detectScriptFormat('[Script Info]\nTitle: x')).toBe('ass');
+    expect(detectScriptFormat('[Events]\nFormat: Start, End, Text')).toBe('ass');
+    expect(detectScriptFormat('<?xml version="1.0"?>\n<!-- export -->\n<tt xmlns="http://www.w3.org/ns/ttml">')).toBe('ttml');
+    expect(detectScriptFormat('<tt:tt xmlns:tt="http://www.w3.org/ns/ttml">')).toBe('ttml');
+    expect(detectScriptFormat('1\r\n00:00:01,000 --> 00:00:02,000\r\nText')).toBe('srt');
+    expect(detectScriptFormat('00:00:01.000 --> 00:00:02.000\nText')).toBe('srt');
+  });
+
+  it('lets the content win over the extension', () => {
+    expect(detectScriptFormat('WEBVTT\n', 'script.srt')).toBe('vtt');
+  });
+
+  it('falls back to the extension, then to SRT', () => {
+    expect(detectScriptFormat('', 'a.VTT')).toBe('vtt');
+    expect(detectScriptFormat('', 'a.dfxp')).toBe('ttml');
+    expect(detectScriptFormat('', 'a.ssa')).toBe('ass');
+    expect(detectScriptFormat('garbage', 'a.txt')).toBe('srt');
+  });
+});
+
+describe('decodeScriptBytes', () => {
+  it('honours UTF-16 BOMs and falls back to Windows-1252', () => {
+    expect(decodeScriptBytes(new Uint8Array([0xFF, 0xFE, 0x41, 0x00]).buffer)).toMatchObject({ text: 'A', encoding: 'utf-16le' });
+    expect(decodeScriptBytes(new Uint8Array([0xFE, 0xFF, 0x00, 0x41]).buffer)).toMatchObject({ text: 'A', encoding: 'utf-16be' });
+    const latin = decodeScriptBytes(new Uint8Array([0x61, 0xE7, 0xE3, 0x6F]).buffer);
+    expect(latin).toMatchObject({ text: 'ação', encoding: 'windows-1252' });
+    expect(latin.warnings[0].kind).toBe('encoding');
+  });
+});
+
+describe('importScript', () => {
+  it('moves speech tags into attributes and sorts by start time', () => {
+    const result = importScript('WEBVTT\n\n00:00:05.000 --> 00:00:06.000\n[rate=1.5 priority=high] Second\n\n00:00:01.000 --> 00:00:02.000\n[speed=2] First\n', 'a.vtt');
+    expect(result.format).toBe('vtt');
+    expect(result.entries.map(e => e.text)).toEqual(['First', 'Second']);
+    expect(result.entries[1]).toMatchObject({ rate: 1.5, priority: 'high' });
+    expect(result.entryLines).toEqual([6, 3]);
+    expect(result.warnings.map(w => [w.kind, w.line])).toEqual([['malformed', 6], ['order', 6]]);
+  });
+
+  it('reports an empty import', () => {
+    const result = importScript('[Events]\nFormat: Start, End, Text\n', 'a.ass');
+    expect(result.entries).toEqual([]);
+    expect(result.warnings.at(-1)?.message).toBe('Nenhuma linha encontrada (lido como ASS/SSA)');
+  });
+});
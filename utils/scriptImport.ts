@@ -0,0 +1,114 @@
+import { ParsedScript, ParseWarning, parseSRTDocument } from './srt';
+import { parseWebVTT } from './webvtt';
+import { parseTTML } from './ttml';
+import { parseASS } from './ass';
+import { validateEntries } from './scriptValidation';
+import { extractSpeechTags } from './speechAttributes';
+
+export type ScriptFormat = 'srt' | 'vtt' | 'ttml' | 'ass';
+
+export interface ScriptImport extends ParsedScript {
+  format: ScriptFormat;
+  encoding: string;
+}
+
+/**
+ * File extensions accepted by the script upload inputs.
+ */
+export const SCRIPT_FILE_ACCEPT = '.srt,.vtt,.ttml,.dfxp,.xml,.ass,.ssa';
+
+// Legacy charset of most non-UTF-8 Portuguese/Western European subtitle files
+const FALLBACK_ENCODING = 'windows-1252';
+
+const FORMAT_LABELS: Record<ScriptFormat, string> = {
+  srt: 'SRT',
+  vtt: 'WebVTT',
+  ttml: 'TTML/DFXP',
+  ass: 'ASS/SSA'
+};
+
+export function formatLabel(format: ScriptFormat): string {
+  return FORMAT_LABELS[format];
+}
+
+/**
+ * Detects the format from the content, falling back to the file extension.
+ */
+export function detectScriptFormat(data: string, fileName: string = ''): ScriptFormat {
+  const head = data.replace(/^\uFEFF/, '').trimStart().slice(0, 2048);
+  if (/^WEBVTT(\s|$)/.test(head)) return 'vtt';
+  if (/^\[Script Info\]/i.test(head) || /^\[(V4\+? Styles|Events)\]/im.test(head)) return 'ass';
+  if (/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(\w+:)?tt[\s>]/.test(head)) return 'ttml';
+  if (/^(\d+\s*\n\s*)?(\d+:)?\d{1,2}:\d{1,2}[,.]\d{1,3}\s*-->/.test(head.replace(/\r\n?/g, '\n'))) return 'srt';
+
+  const extension = fileName.toLowerCase().split('.').pop();
+  switch (extension) {
+    case 'vtt': return 'vtt';
+    case 'ttml': case 'dfxp': case 'xml': return 'ttml';
+    case 'ass': case 'ssa': return 'ass';
+    default: return 'srt';
+  }
+}
+
+/**
+ * Decodes a script file: a BOM selects UTF-8 or UTF-16; otherwise the bytes must be
+ * valid UTF-8, or they are read as Windows-1252 (with an 'encoding' warning).
+ */
+export function decodeScriptBytes(buffer: ArrayBuffer): { text: string; encoding: string; warnings: ParseWarning[] } {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) return { text: new TextDecoder('utf-16le').decode(bytes), encoding: 'utf-16le', warnings: [] };
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) return { text: new TextDecoder('utf-16be').decode(bytes), encoding: 'utf-16be', warnings: [] };
+
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8', warnings: [] };
+  } catch {
+    return {
+      text: new TextDecoder(FALLBACK_ENCODING).decode(bytes),
+      encoding: FALLBACK_ENCODING,
+      warnings: [{ kind: 'encoding', message: `O ficheiro não é UTF-8 válido; lido como ${FALLBACK_ENCODING}` }]
+    };
+  }
+}
+
+/**
+ * Imports a script in any supported format into `SrtEntry[]`, with the parse warnings
+ * and the timing validation. Speech tags are moved from the text into the entry
+ * attributes. Entries come out sorted by start time.
+ */
+export function importScript(data: string, fileName?: string, encoding: string = 'utf-8'): ScriptImport {
+  const format = detectScriptFormat(data, fileName);
+  const parsed = format === 'vtt' ? parseWebVTT(data)
+    : format === 'ttml' ? parseTTML(data)
+    : format === 'ass' ? parseASS(data)
+    : parseSRTDocument(data);
+
+  const tagged = extractSpeechTags(parsed.entries);
+  parsed.entries = tagged.entries;
+  const warnings = [
+    ...parsed.warnings,
+    ...tagged.problems.map(({ index, message }): ParseWarning => ({ kind: 'malformed', line: parsed.entryLines?.[index], message })),
+    ...validateEntries(parsed.entries, parsed.entryLines)
+  ];
+  if (parsed.entries.length === 0) {
+    warnings.push({ kind: 'malformed', message: `Nenhuma linha encontrada (lido como ${formatLabel(format)})` });
+  }
+
+  // Stable sort: playback and the editor expect time order
+  const order = parsed.entries.map((_, i) => i).sort((a, b) => parsed.entries[a].startTime - parsed.entries[b].startTime);
+  return {
+    format,
+    encoding,
+    entries: order.map(i => parsed.entries[i]),
+    entryLines: parsed.entryLines && order.map(i => parsed.entryLines![i]),
+    warnings: warnings.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity) || 0)
+  };
+}
+
+/**
+ * Reads, decodes and imports a script file.
+ */
+export async function importScriptFile(file: File): Promise<ScriptImport> {
+  const decoded = decodeScriptBytes(await file.arrayBuffer());
+  const result = importScript(decoded.text, file.name, decoded.encoding);
+  return { ...result, warnings: [...decoded.warnings, ...result.warnings] };
+}
@@ -0,0 +1,55 @@
+import { SrtEntry } from './srt';
+
+// Faixas de guião: versões do mesmo guião (PT-PT, PT-BR, EN...) para um filme, cada uma com a sua língua
+export const DEFAULT_TRACK_LANG = 'pt-PT';
+
+// Sugestões no formulário (qualquer etiqueta BCP-47 válida é aceite)
+export const COMMON_TRACK_LANGS = ['pt-PT', 'pt-BR', 'en-GB', 'en-US', 'es-ES', 'fr-FR', 'de-DE', 'it-IT'];
+
+export interface ScriptTrack {
+  id: string;
+  name: string;
+  lang: string;       // Etiqueta BCP-47 canónica (ex: 'pt-BR')
+  entries: SrtEntry[]; // Linhas no tempo do guião (o mapa de alinhamento do filme aplica-se a todas as faixas)
+}
+
+/**
+ * Forma canónica de uma etiqueta BCP-47 ('pt_br' → 'pt-BR'), ou null se não for válida.
+ */
+export function normalizeLanguageTag(tag: string): string | null {
+  const cleaned = tag.trim().replace(/_/g, '-');
+  if (!cleaned) return null;
+  try {
+    return Intl.getCanonicalLocales(cleaned)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Nome legível da língua na UI ('pt-BR' → 'português (Brasil)'); a própria etiqueta se o browser não souber.
+ */
+export function languageLabel(lang: string): string {
+  try {
+    return new Intl.DisplayNames(['pt-PT'], { type: 'language' }).of(lang) ?? lang;
+  } catch {
+    return lang;
+  }
+}
+
+export function createScriptTrack(name: string, lang: string, entries: SrtEntry[]): ScriptTrack {
+  const canonical = normalizeLanguageTag(lang);
+  if (!canonical) throw new Error(`Língua inválida: "${lang}" (use uma etiqueta BCP-47, ex: pt-PT)`);
+  return { id: crypto.randomUUID(), name: name.trim() || languageLabel(canonical), lang: canonical, entries };
+}
+
+/**
+ * Faixa ativa: a do id pedido, ou a primeira (ids de faixas já removidas).
+ */
+export function findTrack(tracks: ScriptTrack[], trackId: string | null): ScriptTrack | null {
+  return tracks.find(t => t.id === trackId) ?? tracks[0] ?? null;
+}
+
+export function replaceTrackEntries(tracks: ScriptTrack[], trackId: string, entries: SrtEntry[]): ScriptTrack[] {
+  return tracks.map(t => t.id === trackId ? { ...t, entries } : t);
+}
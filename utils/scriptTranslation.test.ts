@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { SrtEntry } from './srt';
+import { ScriptTranslationClient, TranslatedCue, TranslationRequest, translateScript } from './scriptTranslation';
+
+/**
+ * Tradução determinística: etiqueta da língua + texto original, cortado ao limite de palavras
+ * nos pedidos de encurtamento.
+ */
+class FakeTranslationClient implements ScriptTranslationClient {
+  public requests: TranslationRequest[] = [];
+
+  async translate(request: TranslationRequest): Promise<TranslatedCue[]> {
+    this.requests.push(request);
+    return request.cues.map(cue => {
+      const words = `[${request.targetLang}] ${cue.text}`.split(/\s+/);
+      return { index: cue.index, text: (request.shorten ? words.slice(0, cue.maxWords) : words).join(' ') };
+    });
+  }
+}
+
+// Voz lenta (120 ppm) para que as contas dos limites sejam redondas
+const options = { title: 'Filme', sourceLang: 'pt-PT', targetLang: 'en-GB', model: { secondsPerWord: 0.5, measuredAt: null }, rate: 1 };
+
+// Uma linha de 2s (3 palavras cabem) com 6 palavras; a seguinte folgada
+const source: SrtEntry[] = [
+  { id: 'a', startTime: 0, endTime: 2, text: 'Ela abre a porta muito devagar', voice: 'Joana', lang: 'pt-PT', rate: 1 },
+  { id: 'b', startTime: 10, endTime: 20, text: 'Noite.', priority: 'high' }
+];
+
+describe('translateScript', () => {
+  it('asks again for shorter versions of the cues that overflow', async () => {
+    const client = new FakeTranslationClient();
+    const result = await translateScript(source, { ...options, client });
+
+    expect(client.requests.map(r => [r.shorten, r.cues.map(c => [c.index, c.maxWords])])).toEqual([
+      [false, [[0, 3], [1, 17]]],
+      [true, [[0, 2]]]
+    ]);
+    expect(client.requests[1].cues[0].previous).toBe('[en-GB] Ela abre a porta muito devagar');
+    expect(result).toEqual({
+      entries: [
+        { id: 'a', startTime: 0, endTime: 2, text: '[en-GB] Ela', rate: 1, draft: true },
+        { id: 'b', startTime: 10, endTime: 20, text: '[en-GB] Noite.', priority: 'high', draft: true }
+      ],
+      shortened: 1,
+      overflowing: 0,
+      untranslated: 0
+    });
+  });
+
+  it('keeps the shortest version and reports cues that still overflow', async () => {
+    const requests: TranslationRequest[] = [];
+    const stubborn: ScriptTranslationClient = {
+      async translate(request) {
+        requests.push(request);
+        return request.cues.map(cue => ({ index: cue.index, text: request.shorten ? 'one two three four five six seven' : 'one two three four five' }));
+      }
+    };
+    const result = await translateScript(source, { ...options, client: stubborn, shortenAttempts: 3 });
+    expect(requests.map(r => r.shorten)).toEqual([false, true, true, true]);
+    expect(requests.slice(1).map(r => r.cues[0].maxWords)).toEqual([2, 1, 1]);
+    expect(result.entries[0].text).toBe('one two three four five');
+    expect(result).toMatchObject({ shortened: 0, overflowing: 1, untranslated: 0 });
+  });
+
+  it('keeps the source text of cues the model skipped', async () => {
+    const partial: ScriptTranslationClient = { translate: async () => [{ index: 1, text: 'Night.' }, { index: 9, text: 'Unknown' }] };
+    const result = await translateScript(source, { ...options, client: partial });
+    expect(result.entries.map(e => e.text)).toEqual(['Ela abre a porta muito devagar', 'Night.']);
+    expect(result).toMatchObject({ untranslated: 1, overflowing: 0 });
+  });
+
+  it('sends long scripts in batches and reports progress', async () => {
+    const long = Array.from({ length: 45 }, (_, i): SrtEntry => ({ id: String(i + 1), startTime: i * 10, endTime: i * 10 + 8, text: `Linha ${i + 1}` }));
+    const client = new FakeTranslationClient();
+    const progress: Array<[number, number, boolean]> = [];
+    await translateScript(long, { ...options, client, onProgress: (done, total, shortening) => progress.push([done, total, shortening]) });
+    expect(client.requests.map(r => r.cues.length)).toEqual([40, 5]);
+    expect(progress).toEqual([[40, 45, false], [45, 45, false]]);
+  });
+
+  it('stops when cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(translateScript(source, { ...options, client: new FakeTranslationClient(), signal: controller.signal })).rejects.toThrow('Tradução cancelada');
+  });
+});
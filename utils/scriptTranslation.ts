@@ -0,0 +1,191 @@
+import { GoogleGenAI, Type } from '@google/genai';
+import { SrtEntry } from './srt';
+import { SpeechRateModel, estimateSpeechDuration, wordBudget } from './speechRateModel';
+import { generateStructuredList, isRecord } from './structuredOutput';
+import { analyzeTimingFit } from './timingFit';
+
+// Configuração da Tradução (guião noutra língua, com cada linha a caber na sua janela)
+const TRANSLATION_MODEL = 'gemini-2.5-flash';
+const BATCH_SIZE = 40;             // Linhas por pedido (as vizinhas dão contexto ao modelo)
+const SHORTEN_FACTOR = 0.8;        // Cada nova tentativa pede 20% menos palavras
+const DEFAULT_SHORTEN_ATTEMPTS = 2;
+
+/**
+ * Linha a traduzir. Nos pedidos de encurtamento leva também a tradução que não coube.
+ */
+export interface TranslationCue {
+  index: number;     // Posição no guião original
+  text: string;      // Texto original
+  seconds: number;   // Tempo disponível para a leitura
+  maxWords: number;
+  previous?: string; // Tradução anterior, longa demais
+}
+
+export interface TranslationRequest {
+  title: string;
+  sourceLang: string; // Etiquetas BCP-47
+  targetLang: string;
+  cues: TranslationCue[];
+  shorten: boolean;   // Segunda volta: só linhas que não couberam
+  notes?: string;     // Glossário, nomes que não se traduzem...
+}
+
+export interface TranslatedCue {
+  index: number;
+  text: string;
+}
+
+/**
+ * Tradutor de guiões: `GeminiTranslationClient` na biblioteca, um cliente falso nos testes.
+ */
+export interface ScriptTranslationClient {
+  translate(request: TranslationRequest, signal?: AbortSignal): Promise<TranslatedCue[]>;
+}
+
+// Formato da resposta (saída estruturada)
+const TRANSLATION_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    cues: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, description: 'Index of the source cue' },
+          text: { type: Type.STRING, description: 'Translated audio description, within the word limit' }
+        },
+        required: ['index', 'text'],
+        propertyOrdering: ['index', 'text']
+      }
+    }
+  },
+  required: ['cues']
+};
+
+export class GeminiTranslationClient implements ScriptTranslationClient {
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private model: string = TRANSLATION_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async translate(request: TranslationRequest, signal?: AbortSignal): Promise<TranslatedCue[]> {
+    return generateStructuredList(this.ai, this.model, [{ text: translationPrompt(request) }], TRANSLATION_SCHEMA, 'cues', isTranslatedCue, signal);
+  }
+}
+
+function translationPrompt(request: TranslationRequest): string {
+  const cues = request.cues.map(cue => [
+    `${cue.index} (${cue.seconds.toFixed(1)}s, at most ${cue.maxWords} words): ${cue.text}`,
+    ...(cue.previous ? [`   too long: ${cue.previous}`] : [])
+  ].join('\n')).join('\n');
+  return [
+    `You are translating an audio description script for blind and low-vision viewers from "${request.sourceLang}" to "${request.targetLang}" (BCP-47 tags).`,
+    'Each cue is read aloud by a synthetic voice in the time given, between lines of dialogue, so it must respect its word limit.',
+    'Keep the present tense and the describer\'s register; when a cue does not fit, drop adjectives and secondary details, never the action.',
+    'Keep character names as in the source. Return one translation per cue, with the same index.',
+    ...(request.shorten ? ['The previous translations below were too long to be read in time: rewrite them shorter, within the new word limits.'] : []),
+    '',
+    `Title: ${request.title}`,
+    ...(request.notes ? [`Translator's notes: ${request.notes}`] : []),
+    '',
+    'Cues (index (time, limit): source text):',
+    cues
+  ].join('\n');
+}
+
+function isTranslatedCue(value: unknown): value is TranslatedCue {
+  return isRecord(value) && Number.isInteger(value.index) && typeof value.text === 'string';
+}
+
+export interface TranslateScriptOptions {
+  client: ScriptTranslationClient;
+  title: string;
+  sourceLang: string;
+  targetLang: string;
+  model: SpeechRateModel; // Velocidade da voz da língua de destino
+  rate: number;           // Velocidade por omissão (as linhas com `rate` usam a sua)
+  notes?: string;
+  shortenAttempts?: number;
+  onProgress?: (done: number, total: number, shortening: boolean) => void;
+  signal?: AbortSignal;
+}
+
+export interface ScriptTranslation {
+  entries: SrtEntry[]; // Mesmos tempos e ids do original, marcadas `draft`
+  shortened: number;   // Linhas reescritas mais curtas depois da primeira tradução
+  overflowing: number; // Ainda não cabem ao fim das tentativas
+  untranslated: number; // Sem tradução do modelo: ficam com o texto original
+}
+
+/**
+ * Traduz o guião linha a linha, pedindo a cada uma as palavras que cabem na sua janela.
+ * As traduções que mesmo assim não cabem (pela análise de encaixe do estúdio) voltam ao modelo
+ * com um limite menor, até `shortenAttempts` vezes; fica a versão mais curta.
+ */
+export async function translateScript(source: SrtEntry[], options: TranslateScriptOptions): Promise<ScriptTranslation> {
+  const { client, model, rate, signal } = options;
+  const sorted = [...source].sort((a, b) => a.startTime - b.startTime);
+  const windows = sorted.map((entry, i) => {
+    const next = sorted[i + 1];
+    return Math.max(0, (next ? Math.min(entry.endTime, next.startTime) : entry.endTime) - entry.startTime);
+  });
+  const budget = (i: number, factor: number) => Math.max(1, Math.floor(wordBudget(windows[i], model, sorted[i].rate ?? rate) * factor));
+  const estimate = (i: number, text: string) => estimateSpeechDuration(text, model, sorted[i].rate ?? rate);
+
+  // A voz e a língua da linha são da língua original; o resto dos atributos mantém-se
+  const texts: Array<string | null> = sorted.map(() => null);
+  const toEntries = () => sorted.map((entry, i): SrtEntry => {
+    const { voice, lang, ...attributes } = entry;
+    return { ...attributes, text: texts[i] ?? entry.text, draft: true };
+  });
+
+  const request = async (cues: TranslationCue[], shorten: boolean) => {
+    const results: TranslatedCue[] = [];
+    for (let start = 0; start < cues.length; start += BATCH_SIZE) {
+      if (signal?.aborted) throw new DOMException('Tradução cancelada', 'AbortError');
+      results.push(...await client.translate({
+        title: options.title,
+        sourceLang: options.sourceLang,
+        targetLang: options.targetLang,
+        cues: cues.slice(start, start + BATCH_SIZE),
+        shorten,
+        notes: options.notes
+      }, signal));
+      options.onProgress?.(Math.min(start + BATCH_SIZE, cues.length), cues.length, shorten);
+    }
+    return results.filter(cue => cue.index >= 0 && cue.index < sorted.length && cue.text.trim());
+  };
+
+  // 1. Tradução de todas as linhas
+  const first = await request(sorted.map((entry, i) => ({ index: i, text: entry.text, seconds: windows[i], maxWords: budget(i, 1) })), false);
+  first.forEach(cue => { texts[cue.index] = cue.text.trim(); });
+
+  // 2. Encurtar as que não cabem; só fica uma versão nova se for lida mais depressa
+  const shortened = new Set<number>();
+  const indexOf = new Map(sorted.map((entry, i) => [entry.id, i]));
+  let overflowing: number[] = [];
+  for (let attempt = 0; ; attempt++) {
+    const fits = analyzeTimingFit(toEntries(), { defaultRate: rate, modelFor: () => model });
+    overflowing = fits.filter(fit => fit.status !== 'ok' && texts[indexOf.get(fit.id)!] !== null).map(fit => indexOf.get(fit.id)!);
+    if (overflowing.length === 0 || attempt >= (options.shortenAttempts ?? DEFAULT_SHORTEN_ATTEMPTS)) break;
+
+    const factor = Math.pow(SHORTEN_FACTOR, attempt + 1);
+    const retry = await request(overflowing.map(i => ({
+      index: i, text: sorted[i].text, seconds: windows[i], maxWords: budget(i, factor), previous: texts[i]!
+    })), true);
+    for (const cue of retry) {
+      const text = cue.text.trim();
+      if (!overflowing.includes(cue.index) || estimate(cue.index, text) >= estimate(cue.index, texts[cue.index]!)) continue;
+      texts[cue.index] = text;
+      shortened.add(cue.index);
+    }
+  }
+
+  return {
+    entries: toEntries(),
+    shortened: shortened.size,
+    overflowing: overflowing.length,
+    untranslated: texts.filter(text => text === null).length
+  };
+}
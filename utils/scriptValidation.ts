@@ -0,0 +1,44 @@
+import { SrtEntry, ParseWarning } from './srt';
+
+const OVERLAP_TOLERANCE = 0.001; // Cues that touch (end == next start) after ms rounding are fine
+
+/**
+ * Timing checks shared by every import format, on the entries in file order:
+ * zero/negative durations, cues out of order and overlapping cues.
+ * @param entryLines Source line of each entry (see `ParsedScript.entryLines`)
+ */
+export function validateEntries(entries: SrtEntry[], entryLines?: number[]): ParseWarning[] {
+  const warnings: ParseWarning[] = [];
+  const lineOf = (i: number) => entryLines?.[i];
+
+  entries.forEach((entry, i) => {
+    const duration = entry.endTime - entry.startTime;
+    if (duration <= 0) {
+      warnings.push({
+        kind: 'duration',
+        line: lineOf(i),
+        message: duration === 0 ? `Linha ${entry.id} com duração zero` : `Linha ${entry.id} acaba ${(-duration).toFixed(3)}s antes de começar`
+      });
+    }
+    const previous = entries[i - 1];
+    if (previous && entry.startTime < previous.startTime) {
+      warnings.push({ kind: 'order', line: lineOf(i), message: `Linha ${entry.id} começa antes da linha anterior ${previous.id}` });
+    }
+  });
+
+  // Overlaps are checked in time order, against the cue that ends last so far (catches nested cues)
+  const byStart = entries.map((_, i) => i).sort((a, b) => entries[a].startTime - entries[b].startTime);
+  let latest = -1;
+  for (const i of byStart) {
+    const entry = entries[i];
+    if (latest >= 0) {
+      const overlap = entries[latest].endTime - entry.startTime;
+      if (overlap > OVERLAP_TOLERANCE) {
+        warnings.push({ kind: 'overlap', line: lineOf(i), message: `Linha ${entry.id} sobrepõe-se à linha ${entries[latest].id} em ${overlap.toFixed(3)}s` });
+      }
+    }
+    if (latest < 0 || entry.endTime > entries[latest].endTime) latest = i;
+  }
+
+  return warnings.sort((a, b) => (a.line ?? Infinity) - (b.line ?? Infinity) || 0);
+}
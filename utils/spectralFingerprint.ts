@@ -0,0 +1,215 @@
+import { fft } from './fft';
+import { findTopPeaks, peakRatio } from './matchPeaks';
+
+// Configuração do Fingerprint Espectral (Constelação de picos + hashes de pares)
+export const SPECTRAL_SAMPLE_RATE = 8000; // Reamostragem para 8kHz (voz/música até 4kHz)
+const FRAME_SIZE = 512;  // 64ms por janela FFT
+const HOP_SIZE = 256; // 32ms entre janelas (~31 frames/s)
+const BANDS: Array<[number, number]> = [[10, 20], [20, 40], [40, 80], [80, 160], [160, 256]]; // Bins (~156Hz a 4kHz)
+const PEAK_TIME_NEIGHBORHOOD = 3; // Um pico tem de ser o máximo da sua banda em ±3 frames
+const PEAK_MIN_PROMINENCE = 1.0;  // Em log-magnitude acima da média do frame
+const TARGET_ZONE_FRAMES = 32;    // Pares até ~1s à frente da âncora
+const FAN_OUT = 5;                // Máximo de pares por âncora
+const MIN_SPECTRAL_VOTES = 6;     // Abaixo disto consideramos coincidência aleatória
+const FULL_MATCH_RATIO = 0.08;    // Fração de hashes alinhados que equivale a 100% de confiança
+const CANDIDATE_SEPARATION_FRAMES = 62; // ~2s: offsets mais próximos são o mesmo alinhamento
+
+export const SPECTRAL_FRAME_RATE = SPECTRAL_SAMPLE_RATE / HOP_SIZE;
+
+/**
+ * Hashes de pares de picos. `times[i]` é o frame da âncora do hash `hashes[i]`.
+ * No índice da matriz, os arrays estão ordenados por hash (para pesquisa binária).
+ */
+export interface SpectralHashes {
+  hashes: Uint32Array;
+  times: Uint32Array;
+}
+
+export interface SpectralVote {
+  offsetFrames: number; // Frame da matriz onde começa o live
+  votes: number;
+  confidence: number;   // 0 a 100% (fração de hashes alinhados, sem unicidade)
+  candidates: Array<{ offsetFrames: number; score: number }>; // Melhores offsets distintos, por ordem
+  peakRatio: number;    // Votos do melhor offset / votos do segundo
+}
+
+/**
+ * Reamostra por média de blocos (filtro "box" simples, evita aliasing grosseiro).
+ */
+export function resampleAverage(pcm: Float32Array, srcRate: number, dstRate: number): Float32Array {
+  if (srcRate === dstRate) return pcm;
+  const ratio = srcRate / dstRate;
+  const outLength = Math.floor(pcm.length / ratio);
+  const out = new Float32Array(outLength);
+  for (let i = 0; i < outLength; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(pcm.length, Math.max(start + 1, Math.floor((i + 1) * ratio)));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += pcm[j];
+    out[i] = sum / (end - start);
+  }
+  return out;
+}
+
+/**
+ * Extrai a constelação de picos: para cada frame e banda, o bin mais forte,
+ * mantido apenas se for máximo local no tempo e proeminente face ao frame.
+ */
+function extractPeaks(pcm: Float32Array, onProgress?: (progress: number) => void): Array<{ t: number; f: number }> {
+  const frameCount = pcm.length >= FRAME_SIZE ? Math.floor((pcm.length - FRAME_SIZE) / HOP_SIZE) + 1 : 0;
+  const bandCount = BANDS.length;
+  const bandBin = new Uint16Array(frameCount * bandCount);
+  const bandVal = new Float32Array(frameCount * bandCount).fill(-Infinity);
+
+  const window = new Float64Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)); // Hann
+  const re = new Float64Array(FRAME_SIZE);
+  const im = new Float64Array(FRAME_SIZE);
+  const logMag = new Float64Array(FRAME_SIZE / 2);
+
+  const progressEvery = Math.max(1, Math.floor(frameCount / 50));
+
+  for (let t = 0; t < frameCount; t++) {
+    if (onProgress && t % progressEvery === 0) onProgress(t / frameCount);
+    const offset = t * HOP_SIZE;
+    for (let i = 0; i < FRAME_SIZE; i++) { re[i] = pcm[offset + i] * window[i]; im[i] = 0; }
+    fft(re, im);
+
+    let sumLog = 0;
+    for (let k = 0; k < logMag.length; k++) {
+      logMag[k] = Math.log(1e-9 + Math.sqrt(re[k] * re[k] + im[k] * im[k]));
+      sumLog += logMag[k];
+    }
+    const meanLog = sumLog / logMag.length;
+
+    for (let b = 0; b < bandCount; b++) {
+      const [lo, hi] = BANDS[b];
+      let bestK = lo;
+      for (let k = lo + 1; k < hi; k++) if (logMag[k] > logMag[bestK]) bestK = k;
+      if (logMag[bestK] - meanLog >= PEAK_MIN_PROMINENCE) {
+        bandBin[t * bandCount + b] = bestK;
+        bandVal[t * bandCount + b] = logMag[bestK];
+      }
+    }
+  }
+
+  const peaks: Array<{ t: number; f: number }> = [];
+  for (let t = 0; t < frameCount; t++) {
+    for (let b = 0; b < bandCount; b++) {
+      const v = bandVal[t * bandCount + b];
+      if (v === -Infinity) continue;
+      let isMax = true;
+      const from = Math.max(0, t - PEAK_TIME_NEIGHBORHOOD);
+      const to = Math.min(frameCount - 1, t + PEAK_TIME_NEIGHBORHOOD);
+      for (let u = from; u <= to && isMax; u++) {
+        if (u !== t && bandVal[u * bandCount + b] > v) isMax = false;
+      }
+      if (isMax) peaks.push({ t, f: bandBin[t * bandCount + b] });
+    }
+  }
+  return peaks;
+}
+
+/**
+ * Gera os hashes (f1, f2, dt) a partir de PCM já reamostrado a SPECTRAL_SAMPLE_RATE.
+ * @param onProgress Recebe 0 a 1 durante a análise espectral (usado na matriz)
+ */
+export function computeSpectralHashes(pcm: Float32Array, onProgress?: (progress: number) => void): SpectralHashes {
+  const peaks = extractPeaks(pcm, onProgress);
+  const hashes: number[] = [];
+  const times: number[] = [];
+
+  for (let i = 0; i < peaks.length; i++) {
+    const anchor = peaks[i];
+    let paired = 0;
+    for (let j = i + 1; j < peaks.length && paired < FAN_OUT; j++) {
+      const dt = peaks[j].t - anchor.t;
+      if (dt < 1) continue;
+      if (dt > TARGET_ZONE_FRAMES) break;
+      hashes.push(((anchor.f & 0x1FF) << 15) | ((peaks[j].f & 0x1FF) << 6) | (dt & 0x3F));
+      times.push(anchor.t);
+      paired++;
+    }
+  }
+
+  return { hashes: Uint32Array.from(hashes), times: Uint32Array.from(times) };
+}
+
+/**
+ * Ordena os hashes da matriz para permitir pesquisa binária.
+ * Empacota (hash, tempo) num double (hash < 2^24, tempo < 2^24) para usar o sort nativo.
+ */
+export function buildHashIndex(raw: SpectralHashes): SpectralHashes {
+  const packed = new Float64Array(raw.hashes.length);
+  for (let i = 0; i < packed.length; i++) packed[i] = raw.hashes[i] * 16777216 + raw.times[i];
+  packed.sort();
+  const hashes = new Uint32Array(packed.length);
+  const times = new Uint32Array(packed.length);
+  for (let i = 0; i < packed.length; i++) {
+    hashes[i] = Math.floor(packed[i] / 16777216);
+    times[i] = packed[i] - hashes[i] * 16777216;
+  }
+  return { hashes, times };
+}
+
+function lowerBound(arr: Uint32Array, value: number): number {
+  let lo = 0, hi = arr.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (arr[mid] < value) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Procura os hashes live no índice e vota no offset (frame da matriz - frame live).
+ * `minOffset`/`maxOffset` restringem a busca (scan local).
+ */
+export function voteOffsets(
+  index: SpectralHashes,
+  live: SpectralHashes,
+  minOffset: number = -Infinity,
+  maxOffset: number = Infinity,
+  maxCandidates: number = 1
+): SpectralVote {
+  const votes = new Map<number, number>();
+
+  for (let i = 0; i < live.hashes.length; i++) {
+    const h = live.hashes[i];
+    for (let k = lowerBound(index.hashes, h); k < index.hashes.length && index.hashes[k] === h; k++) {
+      const offset = index.times[k] - live.times[i];
+      if (offset < minOffset || offset > maxOffset) continue;
+      votes.set(offset, (votes.get(offset) || 0) + 1);
+    }
+  }
+
+  // Tolerância de ±1 frame (jitter do hop)
+  const offsets = new Float64Array(votes.size);
+  const totals = new Float64Array(votes.size);
+  let n = 0;
+  for (const [offset, count] of votes) {
+    offsets[n] = offset;
+    totals[n++] = count + (votes.get(offset - 1) || 0) + (votes.get(offset + 1) || 0);
+  }
+
+  const peaks = findTopPeaks(totals, Math.max(maxCandidates, 2), CANDIDATE_SEPARATION_FRAMES, offsets);
+  const bestOffset = peaks.length > 0 ? peaks[0].position : -1;
+  const bestVotes = peaks.length > 0 ? peaks[0].value : 0;
+  const ratio = peakRatio(peaks, MIN_SPECTRAL_VOTES / 2);
+
+  if (bestVotes < MIN_SPECTRAL_VOTES || live.hashes.length === 0) {
+    return { offsetFrames: bestOffset, votes: bestVotes, confidence: 0, candidates: [], peakRatio: ratio };
+  }
+
+  const toScore = (v: number) => Math.min(100, (v / live.hashes.length / FULL_MATCH_RATIO) * 100);
+  return {
+    offsetFrames: bestOffset,
+    votes: bestVotes,
+    confidence: toScore(bestVotes),
+    candidates: peaks
+      .slice(0, maxCandidates)
+      .filter(p => p.value >= MIN_SPECTRAL_VOTES)
+      .map(p => ({ offsetFrames: p.position, score: toScore(p.value) })),
+    peakRatio: ratio
+  };
+}
@@ -0,0 +1,131 @@
+import { SrtEntry, SpeechPriority } from './srt';
+
+/**
+ * Per-cue reading options. Every field is optional; missing ones use the studio defaults.
+ */
+export type SpeechAttributes = Pick<SrtEntry, 'voice' | 'rate' | 'pitch' | 'volume' | 'lang' | 'priority'>;
+
+const SPEECH_KEYS = ['voice', 'rate', 'pitch', 'volume', 'lang', 'priority'] as const;
+type SpeechKey = typeof SPEECH_KEYS[number];
+
+// Ranges accepted by SpeechSynthesisUtterance
+const NUMERIC_RANGES: Record<'rate' | 'pitch' | 'volume', [number, number]> = {
+  rate: [0.1, 10],
+  pitch: [0, 2],
+  volume: [0, 1]
+};
+const PRIORITIES: SpeechPriority[] = ['low', 'normal', 'high'];
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/i;
+
+// `[key=value key="quoted value"]` at the very start of the cue text
+const SPEECH_TAG = /^\s*\[([^\]]*=[^\]]*)\]\s*/;
+const TAG_TOKEN = /([a-z]+)=(?:"([^"]*)"|(\S+))/gi;
+
+/**
+ * Reads the speech tag at the start of a cue:
+ *
+ *   [rate=1.5 pitch=0.9 volume=0.7 voice="Joana" lang=pt-BR priority=low] Texto da linha
+ *
+ * - rate (0.1–10), pitch (0–2), volume (0–1): SpeechSynthesisUtterance values;
+ * - voice: voice name, or part of it (quote names with spaces);
+ * - lang: BCP-47 language tag;
+ * - priority: low (skipped while another cue is being read), normal, high (always interrupts).
+ *
+ * Brackets without `=` (e.g. "[música]") are ordinary text. Unknown keys and invalid
+ * values are reported and ignored.
+ */
+export function parseSpeechTag(text: string): { text: string; attributes: SpeechAttributes; problems: string[] } {
+  const attributes: SpeechAttributes = {};
+  const problems: string[] = [];
+  const tag = text.match(SPEECH_TAG);
+  if (!tag) return { text, attributes, problems };
+
+  const leftover = tag[1].replace(TAG_TOKEN, (_, rawKey: string, quoted?: string, bare?: string) => {
+    const key = rawKey.toLowerCase();
+    const value = (quoted ?? bare ?? '').trim();
+    if (!(SPEECH_KEYS as readonly string[]).includes(key)) {
+      problems.push(`Atributo de voz desconhecido "${rawKey}"`);
+    } else if (!setAttribute(attributes, key as SpeechKey, value)) {
+      problems.push(`${key} inválido "${value}"`);
+    }
+    return '';
+  }).trim();
+  if (leftover) problems.push(`Texto ilegível na etiqueta de voz "${leftover.slice(0, 30)}"`);
+
+  return { text: text.slice(tag[0].length), attributes, problems };
+}
+
+function setAttribute(attributes: SpeechAttributes, key: SpeechKey, value: string): boolean {
+  switch (key) {
+    case 'voice':
+      if (!value) return false;
+      attributes.voice = value;
+      return true;
+    case 'lang':
+      if (!LANGUAGE_TAG.test(value)) return false;
+      attributes.lang = value;
+      return true;
+    case 'priority':
+      if (!(PRIORITIES as string[]).includes(value)) return false;
+      attributes.priority = value as SpeechPriority;
+      return true;
+    default: {
+      const number = Number(value);
+      const [min, max] = NUMERIC_RANGES[key];
+      if (!value || !Number.isFinite(number) || number < min || number > max) return false;
+      attributes[key] = number;
+      return true;
+    }
+  }
+}
+
+/**
+ * The entry with its speech attributes replaced by `attributes` (missing keys are cleared).
+ */
+export function withSpeechAttributes(entry: SrtEntry, attributes: SpeechAttributes): SrtEntry {
+  const result: SrtEntry = { ...entry };
+  for (const key of SPEECH_KEYS) delete result[key];
+  return { ...result, ...attributes };
+}
+
+/**
+ * Tag for the entry's attributes (`[rate=1.5 voice="Joana"]`), or '' if it has none.
+ * @param omit Attributes written some other way (e.g. `voice` as a WebVTT voice span)
+ */
+export function formatSpeechTag(entry: SpeechAttributes, omit: SpeechKey[] = []): string {
+  const parts = SPEECH_KEYS
+    .filter(key => entry[key] !== undefined && !omit.includes(key))
+    .map(key => {
+      const value = String(entry[key]);
+      return /[\s"\]]/.test(value) || value === '' ? `${key}="${value.replace(/["\]]/g, '')}"` : `${key}=${value}`;
+    });
+  return parts.length ? `[${parts.join(' ')}]` : '';
+}
+
+/**
+ * Cue text with its speech tag in front, as written to exported files and shown in the editor.
+ */
+export function taggedText(entry: SrtEntry, omit: SpeechKey[] = []): string {
+  const tag = formatSpeechTag(entry, omit);
+  return tag ? `${tag} ${entry.text}` : entry.text;
+}
+
+/**
+ * Moves the speech tag of each entry's text into its attributes. Attributes already set
+ * by the format (e.g. a WebVTT voice span) are kept unless the tag sets them too.
+ * @returns Problems, with the index of the entry they belong to
+ */
+export function extractSpeechTags(entries: SrtEntry[]): { entries: SrtEntry[]; problems: Array<{ index: number; message: string }> } {
+  const problems: Array<{ index: number; message: string }> = [];
+  const tagged = entries.map((entry, index) => {
+    const parsed = parseSpeechTag(entry.text);
+    parsed.problems.forEach(message => problems.push({ index, message: `Linha ${entry.id}: ${message}` }));
+    if (parsed.text === entry.text) return entry;
+    if (!parsed.text.trim()) {
+      problems.push({ index, message: `Linha ${entry.id} só tem etiqueta de voz; mantida como texto` });
+      return entry;
+    }
+    return { ...entry, ...parsed.attributes, text: parsed.text.trim() };
+  });
+  return { entries: tagged, problems };
+}
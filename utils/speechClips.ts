@@ -0,0 +1,234 @@
+import { GoogleGenAI, Modality } from '@google/genai';
+import { SpeechAttributes } from './speechAttributes';
+import { ClipSource, EncodedClip, SpeechCue, DEFAULT_SPEECH_RATE } from './speechEngine';
+import { base64ToUint8Array, PCM_SAMPLE_RATE_OUTPUT } from './audio';
+
+// Clips de voz pré-gerados (Gemini TTS), guardados por filme em IndexedDB.
+// Base própria: a 'cinevoz' (matrizes) tem a versão fixa em fingerprintCache.ts.
+const DB_NAME = 'cinevoz-clips';
+const DB_VERSION = 1;
+const STORE_NAME = 'clips';
+const NAMESPACE_INDEX = 'namespace';
+
+export const GEMINI_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+export const GEMINI_TTS_VOICES = ['Kore', 'Aoede', 'Leda', 'Zephyr', 'Puck', 'Charon', 'Fenrir', 'Orus'];
+const DEFAULT_GEMINI_VOICE = 'Kore';
+
+interface CachedClip extends EncodedClip {
+  id: string;        // namespace + chave do clip
+  namespace: string; // Filme
+  createdAt: number;
+}
+
+/**
+ * O Gemini TTS não tem velocidade numérica: o `rate` da linha passa a uma indicação de ritmo.
+ */
+function paceFor(rate: number): 'slow' | 'brisk' | 'fast' {
+  if (rate <= 1) return 'slow';
+  if (rate >= 1.5) return 'fast';
+  return 'brisk';
+}
+
+const PACE_PROMPTS: Record<ReturnType<typeof paceFor>, string> = {
+  slow: 'at a calm, unhurried pace',
+  brisk: 'at a brisk, steady pace',
+  fast: 'quickly, without rushing the words'
+};
+
+/**
+ * Voz do Gemini para a linha: `voice` só conta se for o nome de uma voz do Gemini
+ * (as vozes do browser não existem aqui).
+ */
+export function geminiVoiceFor(attributes: SpeechAttributes): string {
+  const requested = attributes.voice?.toLowerCase();
+  return GEMINI_TTS_VOICES.find(v => v.toLowerCase() === requested) ?? DEFAULT_GEMINI_VOICE;
+}
+
+/**
+ * Chave do clip de uma linha: tudo o que muda o áudio gerado. O volume e o tom não entram
+ * (o volume aplica-se ao tocar; o tom não é suportado pelo Gemini TTS).
+ */
+export function clipKey(text: string, attributes: SpeechAttributes, lang: string): string {
+  return JSON.stringify([geminiVoiceFor(attributes), lang, paceFor(attributes.rate ?? DEFAULT_SPEECH_RATE), text.trim()]);
+}
+
+/**
+ * WAV PCM 16 bits mono: o decodeAudioData não lê PCM sem cabeçalho.
+ */
+export function encodeWav(pcm: Int16Array, sampleRate: number): ArrayBuffer {
+  const buffer = new ArrayBuffer(44 + pcm.byteLength);
+  const view = new DataView(buffer);
+  const writeTag = (offset: number, tag: string) => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i));
+  };
+  writeTag(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  writeTag(8, 'WAVE');
+  writeTag(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);              // PCM
+  view.setUint16(22, 1, true);              // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Bytes por segundo
+  view.setUint16(32, 2, true);              // Bytes por amostra
+  view.setUint16(34, 16, true);
+  writeTag(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  new Int16Array(buffer, 44).set(pcm);
+  return buffer;
+}
+
+export interface SpeechClipRenderer {
+  render(text: string, attributes: SpeechAttributes, lang: string, signal?: AbortSignal): Promise<EncodedClip>;
+}
+
+export class GeminiTtsRenderer implements SpeechClipRenderer {
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string, private model: string = GEMINI_TTS_MODEL) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async render(text: string, attributes: SpeechAttributes, lang: string, signal?: AbortSignal): Promise<EncodedClip> {
+    const pace = PACE_PROMPTS[paceFor(attributes.rate ?? DEFAULT_SPEECH_RATE)];
+    const response = await this.ai.models.generateContent({
+      model: this.model,
+      contents: [{ role: 'user', parts: [{ text: `Read this audio description in the language with BCP-47 tag "${lang}", in a neutral narrator voice, ${pace}:\n${text.trim()}` }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: geminiVoiceFor(attributes) } } },
+        abortSignal: signal
+      }
+    });
+    const data = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData?.data)?.inlineData?.data;
+    if (!data) throw new Error('O Gemini TTS não devolveu áudio');
+    // PCM 16 bits a 24kHz, sem cabeçalho
+    const bytes = base64ToUint8Array(data);
+    const pcm = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+    return { data: encodeWav(pcm, PCM_SAMPLE_RATE_OUTPUT), mimeType: 'audio/wav' };
+  }
+}
+
+// --- Cache (IndexedDB) ---
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex(NAMESPACE_INDEX, 'namespace');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(STORE_NAME, mode);
+      const request = fn(tx.objectStore(STORE_NAME));
+      tx.oncomplete = () => resolve(request.result);
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+const clipId = (namespace: string, key: string) => `${namespace}\n${key}`;
+
+export async function getCachedClip(namespace: string, key: string): Promise<EncodedClip | null> {
+  const record = await withStore<CachedClip | undefined>('readonly', store => store.get(clipId(namespace, key)));
+  return record ? { data: record.data, mimeType: record.mimeType } : null;
+}
+
+export async function putCachedClip(namespace: string, key: string, clip: EncodedClip): Promise<void> {
+  const record: CachedClip = { id: clipId(namespace, key), namespace, data: clip.data, mimeType: clip.mimeType, createdAt: Date.now() };
+  await withStore('readwrite', store => store.put(record));
+}
+
+export async function cachedClipKeys(namespace: string): Promise<Set<string>> {
+  const ids = await withStore<IDBValidKey[]>('readonly', store => store.index(NAMESPACE_INDEX).getAllKeys(namespace));
+  const prefix = clipId(namespace, '');
+  return new Set(ids.map(id => String(id).slice(prefix.length)));
+}
+
+export async function deleteCachedClips(namespace: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(IDBKeyRange.bound(clipId(namespace, ''), clipId(namespace, '\uffff'))));
+}
+
+// --- Origens para o ClipSpeechEngine ---
+
+/**
+ * Só os clips pré-gerados do filme (as linhas sem clip vão para o motor de recurso).
+ */
+export function cachedClipSource(namespace: string): ClipSource {
+  return {
+    key: clipKey,
+    load: (key) => getCachedClip(namespace, key)
+  };
+}
+
+/**
+ * Clips pré-gerados do filme e, em falta, gerados na hora (e guardados para a próxima vez).
+ */
+export function renderingClipSource(namespace: string, renderer: SpeechClipRenderer): ClipSource {
+  return {
+    key: clipKey,
+    load: async (key, text, attributes, lang) => {
+      const cached = await getCachedClip(namespace, key).catch(() => null);
+      if (cached) return cached;
+      const clip = await renderer.render(text, attributes, lang);
+      putCachedClip(namespace, key, clip).catch(e => console.error('Clip não guardado', e));
+      return clip;
+    }
+  };
+}
+
+export interface PrerenderResult {
+  rendered: number;
+  cached: number; // Já existiam
+  failed: number;
+}
+
+/**
+ * Gera (em série) os clips em falta das linhas e guarda-os no filme.
+ */
+export async function prerenderClips(
+  namespace: string,
+  cues: SpeechCue[],
+  defaultLang: string,
+  renderer: SpeechClipRenderer,
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<PrerenderResult> {
+  const existing = await cachedClipKeys(namespace);
+  const result: PrerenderResult = { rendered: 0, cached: 0, failed: 0 };
+  for (let i = 0; i < cues.length; i++) {
+    if (signal?.aborted) break;
+    const { text, attributes } = cues[i];
+    const lang = attributes.lang ?? defaultLang;
+    const key = clipKey(text, attributes, lang);
+    if (existing.has(key)) {
+      result.cached++;
+    } else {
+      try {
+        await putCachedClip(namespace, key, await renderer.render(text, attributes, lang, signal));
+        existing.add(key);
+        result.rendered++;
+      } catch (e) {
+        if (signal?.aborted) break;
+        console.error('Falha ao gerar clip', e);
+        result.failed++;
+      }
+    }
+    onProgress?.(i + 1, cues.length);
+  }
+  return result;
+}
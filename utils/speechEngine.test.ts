@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ClipSpeechEngine, ClipSource, EncodedClip, SpeechEngine } from './speechEngine';
+
+class FakeAudioContext {
+  state = 'running';
+  resume() {}
+  close() {}
+}
+
+const fallback = (): SpeechEngine => ({
+  kind: 'webSpeech', label: 'fallback', lookahead: null, speaking: false,
+  unlock: vi.fn(), speak: vi.fn(), cancel: vi.fn(), prefetch: vi.fn(), dispose: vi.fn()
+});
+
+describe('ClipSpeechEngine', () => {
+  let resolveClip: (clip: EncodedClip | null) => void;
+  let source: ClipSource;
+
+  beforeEach(() => {
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    source = {
+      key: text => text,
+      load: () => new Promise(resolve => { resolveClip = resolve; })
+    };
+  });
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('ends a cue that is still loading when cancelled', async () => {
+    const backup = fallback();
+    const engine = new ClipSpeechEngine('clips', 'Clips', source, backup, () => 'pt-PT');
+    const events = { onStart: vi.fn(), onEnd: vi.fn() };
+
+    engine.speak('Noite.', {}, events);
+    engine.cancel();
+    expect(events.onEnd).toHaveBeenCalledTimes(1);
+
+    resolveClip(null);
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(backup.speak).not.toHaveBeenCalled();
+    engine.cancel();
+    expect(events.onEnd).toHaveBeenCalledTimes(1);
+    expect(events.onStart).not.toHaveBeenCalled();
+  });
+
+  it('ends the loading cue when another one replaces it', () => {
+    const engine = new ClipSpeechEngine('clips', 'Clips', source, fallback(), () => 'pt-PT');
+    const first = { onEnd: vi.fn() };
+    engine.speak('Um.', {}, first);
+    engine.speak('Dois.', {}, {});
+    expect(first.onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it('hands cues without a clip to the fallback engine with their events', async () => {
+    const backup = fallback();
+    const engine = new ClipSpeechEngine('clips', 'Clips', source, backup, () => 'pt-PT');
+    const events = { onEnd: vi.fn() };
+    engine.speak('Noite.', { rate: 1.5 }, events);
+    resolveClip(null);
+    await vi.waitFor(() => expect(backup.speak).toHaveBeenCalledWith('Noite.', { rate: 1.5 }, events));
+    engine.cancel();
+    expect(events.onEnd).not.toHaveBeenCalled(); // O motor de recurso é que termina a linha
+    expect(backup.cancel).toHaveBeenCalled();
+  });
+});
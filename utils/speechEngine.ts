@@ -0,0 +1,298 @@
+import { SpeechAttributes } from './speechAttributes';
+import { pickVoice } from './voiceSelection';
+
+// Configuração dos Motores de Voz
+export const DEFAULT_SPEECH_RATE = 1.25; // Leitura um pouco acelerada para caber nas pausas do diálogo
+const KEEP_ALIVE_MS = 5000;              // Chrome: leituras longas param ao fim de ~15s sem pause/resume
+const CLIP_LOOKAHEAD = 0.15;             // Antecedência do agendamento (acima do jitter do requestAnimationFrame)
+const MAX_DECODED_CLIPS = 8;             // Clips descodificados em memória (os próximos e o atual)
+const PREFETCH_COUNT = 3;
+
+/**
+ * - 'webSpeech': window.speechSynthesis (voz e tempos dependem do browser);
+ * - 'gemini':    voz do Gemini (TTS), gerada na hora e tocada num AudioContext;
+ * - 'clips':     clips pré-gerados do filme, tocados num AudioContext.
+ */
+export type SpeechEngineKind = 'webSpeech' | 'gemini' | 'clips';
+
+export interface SpeechEvents {
+  onStart?: () => void;
+  onEnd?: () => void;                // Também depois de cancel() e de erros
+  onError?: (message: string) => void;
+}
+
+export interface SpeechCue {
+  text: string;
+  attributes: SpeechAttributes;
+}
+
+export interface SpeechEngine {
+  readonly kind: SpeechEngineKind;
+  readonly label: string;
+  /**
+   * Segundos de antecedência com que `speak` deve ser chamado. Null: arranque imprevisível,
+   * usar o medido na calibração de latência.
+   */
+  readonly lookahead: number | null;
+  readonly speaking: boolean;
+  /** Num gesto do utilizador: os browsers só deixam tocar áudio depois de um. */
+  unlock(): void;
+  /**
+   * Lê `text` com os atributos da linha. `delay`: segundos até ao momento em que a voz deve
+   * ser ouvida (só os motores com agendamento o cumprem; os outros leem já).
+   */
+  speak(text: string, attributes: SpeechAttributes, events?: SpeechEvents, delay?: number): void;
+  cancel(): void;
+  /** Prepara as próximas linhas (descodificação, geração) para arrancarem a tempo. */
+  prefetch(cues: SpeechCue[]): void;
+  dispose(): void;
+}
+
+/**
+ * window.speechSynthesis, com os remendos de que precisa: desbloqueio com uma leitura
+ * silenciosa e pause/resume periódico durante a leitura (Chrome).
+ */
+export class WebSpeechEngine implements SpeechEngine {
+  readonly kind = 'webSpeech';
+  readonly label = 'Voz do browser';
+  readonly lookahead = null;
+  private keepAlive: number | null = null;
+  private current: SpeechSynthesisUtterance | null = null;
+
+  /**
+   * @param defaultLang Língua das linhas sem `lang` (a da faixa ativa)
+   */
+  constructor(private defaultLang: () => string) {}
+
+  get speaking(): boolean {
+    return !!window.speechSynthesis?.speaking;
+  }
+
+  unlock(): void {
+    if (!window.speechSynthesis) return;
+    window.speechSynthesis.resume(); // Ensure not paused
+    const utterance = new SpeechSynthesisUtterance('Ativado');
+    utterance.volume = 0; // Silent unlock
+    window.speechSynthesis.speak(utterance);
+  }
+
+  /**
+   * Utterance com a voz e velocidade da leitura (partilhada com a calibração).
+   * Os atributos da linha sobrepõem-se aos valores por omissão; sem `lang`, lê na língua da faixa.
+   */
+  createUtterance(text: string, attributes: SpeechAttributes = {}): SpeechSynthesisUtterance {
+    const utterance = new SpeechSynthesisUtterance(text);
+    const lang = attributes.lang ?? this.defaultLang();
+    utterance.lang = lang;
+    utterance.rate = attributes.rate ?? DEFAULT_SPEECH_RATE;
+    utterance.pitch = attributes.pitch ?? 1;
+    utterance.volume = attributes.volume ?? 1.0;
+
+    const { voice } = pickVoice(window.speechSynthesis.getVoices(), lang, attributes.voice);
+    if (voice) utterance.voice = voice;
+    return utterance;
+  }
+
+  speak(text: string, attributes: SpeechAttributes, events: SpeechEvents = {}): void {
+    if (!window.speechSynthesis) {
+      events.onError?.('TTS não suportado no browser');
+      events.onEnd?.();
+      return;
+    }
+    // Ensure engine is running, then drop anything pending to prioritize the new sync point
+    window.speechSynthesis.resume();
+    window.speechSynthesis.cancel();
+
+    const utterance = this.createUtterance(text, attributes);
+    utterance.onstart = () => events.onStart?.();
+    utterance.onend = () => {
+      if (this.current === utterance) this.current = null;
+      events.onEnd?.();
+    };
+    utterance.onerror = (e) => {
+      if (this.current === utterance) this.current = null;
+      // Cancelar a leitura também chega aqui ('interrupted'/'canceled')
+      if (e.error !== 'interrupted' && e.error !== 'canceled') events.onError?.(`Erro do TTS: ${e.error}`);
+      events.onEnd?.();
+    };
+    this.current = utterance;
+    this.startKeepAlive();
+    window.speechSynthesis.speak(utterance);
+  }
+
+  cancel(): void {
+    this.current = null;
+    window.speechSynthesis?.cancel();
+  }
+
+  prefetch(): void {}
+
+  dispose(): void {
+    this.cancel();
+    if (this.keepAlive !== null) window.clearInterval(this.keepAlive);
+    this.keepAlive = null;
+  }
+
+  private startKeepAlive(): void {
+    if (this.keepAlive !== null) return;
+    this.keepAlive = window.setInterval(() => {
+      if (window.speechSynthesis.speaking) {
+        window.speechSynthesis.pause();
+        window.speechSynthesis.resume();
+      }
+    }, KEEP_ALIVE_MS);
+  }
+}
+
+/**
+ * Áudio codificado de uma linha (WAV/PCM, Ogg/Opus...), tal como sai do decodeAudioData.
+ */
+export interface EncodedClip {
+  data: ArrayBuffer;
+  mimeType: string;
+}
+
+/**
+ * Origem dos clips de um ClipSpeechEngine. `key` identifica o áudio de uma linha (texto, voz,
+ * língua...); `load` devolve-o, ou null se não houver (a linha é lida pelo motor de recurso).
+ */
+export interface ClipSource {
+  key(text: string, attributes: SpeechAttributes, lang: string): string;
+  load(key: string, text: string, attributes: SpeechAttributes, lang: string): Promise<EncodedClip | null>;
+}
+
+interface ScheduledClip {
+  source: AudioBufferSourceNode;
+  events: SpeechEvents;
+  startTimer: number | null;
+}
+
+/**
+ * Clips de áudio agendados num AudioContext próprio: arranque à amostra, sem depender do
+ * motor de voz do browser. As linhas sem clip (ou com erro) são lidas pelo motor de recurso.
+ */
+export class ClipSpeechEngine implements SpeechEngine {
+  readonly lookahead = CLIP_LOOKAHEAD;
+  private ctx: AudioContext | null = null;
+  private decoded = new Map<string, Promise<AudioBuffer | null>>(); // Por ordem de uso (LRU)
+  private playing: ScheduledClip | null = null;
+  private loading: SpeechEvents | null = null; // Linha à espera do clip (recebe onEnd se for cancelada)
+  private request = 0; // Ignora clips que acabam de carregar depois de cancel() ou de outra linha
+
+  constructor(
+    readonly kind: 'gemini' | 'clips',
+    readonly label: string,
+    private clips: ClipSource,
+    private fallback: SpeechEngine,
+    private defaultLang: () => string,
+    private onFallback?: (text: string, reason: string) => void
+  ) {}
+
+  get speaking(): boolean {
+    return this.playing !== null || this.fallback.speaking;
+  }
+
+  unlock(): void {
+    if (!this.ctx) this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    if (this.ctx.state === 'suspended') this.ctx.resume();
+  }
+
+  speak(text: string, attributes: SpeechAttributes, events: SpeechEvents = {}, delay = 0): void {
+    this.cancel();
+    const request = this.request;
+    const requestedAt = performance.now();
+    this.loading = events;
+    this.clipFor(text, attributes).then(buffer => {
+      if (request !== this.request) return;
+      this.loading = null;
+      if (!buffer) {
+        this.onFallback?.(text, 'sem clip');
+        this.fallback.speak(text, attributes, events);
+        return;
+      }
+      // Se o clip demorou a chegar, o atraso já passou (em parte ou todo)
+      const remaining = delay - (performance.now() - requestedAt) / 1000;
+      this.play(buffer, attributes, events, remaining);
+    }, (e: Error) => {
+      if (request !== this.request) return;
+      this.loading = null;
+      this.onFallback?.(text, e.message);
+      this.fallback.speak(text, attributes, events);
+    });
+  }
+
+  cancel(): void {
+    this.request++;
+    const loading = this.loading;
+    this.loading = null;
+    loading?.onEnd?.();
+    const playing = this.playing;
+    this.playing = null;
+    if (playing) {
+      if (playing.startTimer !== null) window.clearTimeout(playing.startTimer);
+      playing.source.onended = null;
+      try { playing.source.stop(); } catch { /* Ainda não agendado */ }
+      playing.events.onEnd?.();
+    }
+    this.fallback.cancel();
+  }
+
+  prefetch(cues: SpeechCue[]): void {
+    for (const cue of cues.slice(0, PREFETCH_COUNT)) {
+      this.clipFor(cue.text, cue.attributes).catch(() => { /* Volta a tentar no speak */ });
+    }
+  }
+
+  dispose(): void {
+    this.cancel();
+    this.decoded.clear();
+    this.ctx?.close();
+    this.ctx = null;
+  }
+
+  private clipFor(text: string, attributes: SpeechAttributes): Promise<AudioBuffer | null> {
+    const lang = attributes.lang ?? this.defaultLang();
+    const key = this.clips.key(text, attributes, lang);
+    const cached = this.decoded.get(key);
+    if (cached) {
+      this.decoded.delete(key);
+      this.decoded.set(key, cached);
+      return cached;
+    }
+
+    this.unlock();
+    const ctx = this.ctx!;
+    const pending = this.clips.load(key, text, attributes, lang)
+      .then(clip => clip ? ctx.decodeAudioData(clip.data.slice(0)) : null);
+    pending.catch(() => this.decoded.delete(key)); // Erros não ficam em cache
+    this.decoded.set(key, pending);
+    while (this.decoded.size > MAX_DECODED_CLIPS) this.decoded.delete(this.decoded.keys().next().value!);
+    return pending;
+  }
+
+  private play(buffer: AudioBuffer, attributes: SpeechAttributes, events: SpeechEvents, delay: number): void {
+    const ctx = this.ctx!;
+    const gain = ctx.createGain();
+    gain.gain.value = attributes.volume ?? 1;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.connect(gain).connect(ctx.destination);
+
+    // Agendado para soar no instante pedido: desconta a latência de saída do próprio contexto
+    const outputLatency = (ctx.outputLatency || 0) + (ctx.baseLatency || 0);
+    const wait = Math.max(0, delay - outputLatency);
+    const scheduled: ScheduledClip = { source, events, startTimer: null };
+    scheduled.startTimer = window.setTimeout(() => {
+      scheduled.startTimer = null;
+      events.onStart?.();
+    }, (wait + outputLatency) * 1000);
+    source.onended = () => {
+      if (this.playing !== scheduled) return;
+      this.playing = null;
+      if (scheduled.startTimer !== null) window.clearTimeout(scheduled.startTimer);
+      events.onEnd?.();
+    };
+    this.playing = scheduled;
+    source.start(ctx.currentTime + wait);
+  }
+}
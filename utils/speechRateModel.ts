@@ -0,0 +1,133 @@
+// Modelos de velocidade de leitura do TTS (palavras por minuto), guardados por voz (localStorage)
+const STORAGE_KEY = 'cinevoz.speechRateModels';
+const DEFAULT_VOICE_KEY = 'default';
+const DEFAULT_SECONDS_PER_WORD = 60 / 165; // ~165 ppm a rate 1 (vozes PT do Chrome/Edge)
+const PAUSE_SECONDS = 0.2;                 // Pausa por vírgula/ponto a meio da frase, a rate 1
+const MIN_SECONDS_PER_WORD = 0.1;          // Medições fora disto são falhas do motor, não a voz
+const MAX_SECONDS_PER_WORD = 1.5;
+const WORD_BUDGET_MARGIN = 0.85;            // Palavras pedidas ao modelo: 85% do que cabe à velocidade da voz
+
+// Frases de calibração: comprimentos e pontuação variados, vocabulário típico de audiodescrição
+const CALIBRATION_TEXTS = [
+  'Ela abre a porta devagar.',
+  'O carro para junto ao passeio, e um homem de casaco escuro sai a correr.',
+  'Na cozinha, a mãe pousa a chávena; olha pela janela, pensativa.',
+  'Noite. A câmara percorre a rua deserta até encontrar uma luz acesa no terceiro andar do prédio.'
+];
+
+export interface SpeechRateModel {
+  secondsPerWord: number;    // A rate 1 (o tempo escala com 1/rate)
+  measuredAt: number | null; // Date.now() da calibração; null = modelo por omissão
+}
+
+export const DEFAULT_SPEECH_RATE_MODEL: SpeechRateModel = { secondsPerWord: DEFAULT_SECONDS_PER_WORD, measuredAt: null };
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+// Pontuação seguida de mais texto (a pontuação final não atrasa nada)
+function countPauses(text: string): number {
+  return (text.trim().match(/[,;:.!?…]+\s+(?=\S)/g) ?? []).length;
+}
+
+export function wordsPerMinute(model: SpeechRateModel): number {
+  return 60 / model.secondsPerWord;
+}
+
+/**
+ * Duração estimada (s) da leitura de `text` à velocidade `rate`, sem o arranque do motor.
+ */
+export function estimateSpeechDuration(text: string, model: SpeechRateModel, rate: number): number {
+  return (countWords(text) * model.secondsPerWord + countPauses(text) * PAUSE_SECONDS) / rate;
+}
+
+/**
+ * Palavras que cabem em `seconds` à velocidade `rate` (com folga), para os textos pedidos ao modelo.
+ */
+export function wordBudget(seconds: number, model: SpeechRateModel, rate: number): number {
+  return Math.max(1, Math.floor(seconds * rate / model.secondsPerWord * WORD_BUDGET_MARGIN));
+}
+
+function readAll(): Record<string, SpeechRateModel> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn('[SpeechRateModel] Modelos ilegíveis, a ignorar', e);
+    return {};
+  }
+}
+
+export function saveSpeechRateModel(voiceName: string | undefined, model: SpeechRateModel): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [voiceName || DEFAULT_VOICE_KEY]: model }));
+}
+
+/**
+ * Todos os modelos calibrados, por nome de voz.
+ */
+export function loadSpeechRateModels(): Record<string, SpeechRateModel> {
+  return readAll();
+}
+
+/**
+ * Modelo calibrado da voz, ou o modelo por omissão.
+ */
+export function speechRateModelFor(models: Record<string, SpeechRateModel>, voiceName: string | undefined): SpeechRateModel {
+  return models[voiceName || DEFAULT_VOICE_KEY] ?? DEFAULT_SPEECH_RATE_MODEL;
+}
+
+/**
+ * Mede quanto tempo a voz demora a ler (onstart → onend) as frases de calibração e ajusta
+ * os segundos por palavra por mínimos quadrados (as pausas da pontuação são descontadas).
+ * As utterances vêm de `createUtterance`, com a voz e a velocidade do estúdio.
+ */
+export async function calibrateSpeechRate(
+  createUtterance: (text: string) => SpeechSynthesisUtterance,
+  onProgress?: (done: number, total: number) => void
+): Promise<SpeechRateModel> {
+  let sumWordsSquared = 0;
+  let sumWordsTime = 0;
+
+  window.speechSynthesis.cancel();
+  for (let i = 0; i < CALIBRATION_TEXTS.length; i++) {
+    const text = CALIBRATION_TEXTS[i];
+    const words = countWords(text);
+    const utterance = createUtterance(text);
+    const elapsed = await timeUtterance(utterance, words);
+    // Tempo normalizado para rate 1, sem as pausas
+    const time = elapsed * utterance.rate - countPauses(text) * PAUSE_SECONDS;
+    sumWordsSquared += words * words;
+    sumWordsTime += words * time;
+    onProgress?.(i + 1, CALIBRATION_TEXTS.length);
+  }
+
+  const secondsPerWord = sumWordsTime / sumWordsSquared;
+  if (!(secondsPerWord >= MIN_SECONDS_PER_WORD && secondsPerWord <= MAX_SECONDS_PER_WORD)) {
+    throw new Error(`Medição implausível (${secondsPerWord.toFixed(2)}s por palavra)`);
+  }
+  return { secondsPerWord, measuredAt: Date.now() };
+}
+
+function timeUtterance(utterance: SpeechSynthesisUtterance, words: number): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let startedAt = 0;
+    // Sem onend (motor bloqueado), desistir muito depois do que a frase pode durar
+    const timeout = window.setTimeout(() => {
+      window.speechSynthesis.cancel();
+      reject(new Error('A voz não terminou a frase de calibração'));
+    }, 5000 + words * 2000);
+
+    utterance.onstart = () => { startedAt = performance.now(); };
+    utterance.onend = () => {
+      window.clearTimeout(timeout);
+      if (!startedAt) reject(new Error('A voz não chegou a começar'));
+      else resolve((performance.now() - startedAt) / 1000);
+    };
+    utterance.onerror = (e) => {
+      window.clearTimeout(timeout);
+      reject(new Error(`Erro do TTS: ${e.error}`));
+    };
+    window.speechSynthesis.speak(utterance);
+  });
+}
@@ -1,52 +1,187 @@
+import { taggedText } from './speechAttributes';
+
+/**
+ * - 'low':    skipped if another cue is still being read;
+ * - 'normal': interrupts the cue being read, unless it is 'high';
+ * - 'high':   always interrupts.
+ */
+export type SpeechPriority = 'low' | 'normal' | 'high';
+
 export interface SrtEntry {
   id: string;
   startTime: number;
   endTime: number;
   text: string;
+  // Per-cue speech attributes (see utils/speechAttributes); absent = studio defaults
+  voice?: string;
+  rate?: number;
+  pitch?: number;
+  volume?: number;
+  lang?: string;
+  priority?: SpeechPriority;
+  draft?: boolean; // Generated draft not yet approved by a describer
+}
+
+/**
+ * - 'malformed':   block that could not be read (skipped) or had to be repaired;
+ * - 'unsupported': valid feature of the format that the import ignores;
+ * - 'encoding':    file was not UTF-8 and was decoded with a fallback charset;
+ * - 'duration':    cue that ends at or before its start;
+ * - 'order':       cue that starts before the previous cue in the file;
+ * - 'overlap':     cue that starts before the previous cue ends.
+ */
+export type ParseWarningKind = 'malformed' | 'unsupported' | 'encoding' | 'duration' | 'order' | 'overlap';
+
+/**
+ * A problem found while importing a script. Lines are 1-based in the source file.
+ */
+export interface ParseWarning {
+  kind: ParseWarningKind;
+  line?: number;
+  message: string;
 }
 
+/**
+ * Entries plus the warnings collected while parsing (blocks that were skipped or repaired).
+ * `entryLines[i]` is the source line of `entries[i]`, for formats that have lines.
+ */
+export interface ParsedScript {
+  entries: SrtEntry[];
+  warnings: ParseWarning[];
+  entryLines?: number[];
+}
+
+// Timing line: hours may exceed 99 (or be missing), milliseconds may use "." and have 1-3 digits
+const SRT_TIMESTAMP = '(?:\\d+:)?\\d{1,2}:\\d{1,2}(?:[,.]\\d{1,3})?';
+const SRT_TIMING_LINE = new RegExp(`^(${SRT_TIMESTAMP})\\s*-->\\s*(${SRT_TIMESTAMP})(?:\\s.*)?$`);
+
 /**
  * Parses a standard SRT string into structured data.
  */
 export function parseSRT(data: string): SrtEntry[] {
+  return parseSRTDocument(data).entries;
+}
+
+/**
+ * Same as `parseSRT`, but reports the blocks that could not be read.
+ * Cues are found by their timing line rather than by blank lines, so missing cue
+ * numbers, extra blank lines and blank lines inside the text are tolerated.
+ */
+export function parseSRTDocument(data: string): ParsedScript {
   // Normalize line endings
-  const normalized = data.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
-  const blocks = normalized.split('\n\n');
+  const lines = data.replace(/^\uFEFF/, '').replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
   const entries: SrtEntry[] = [];
+  const entryLines: number[] = [];
+  const warnings: ParseWarning[] = [];
+  const usedIds = new Set<string>();
+
+  let current: { entry: SrtEntry; line: number; text: string[] } | null = null;
+  let pendingId: string | null = null;
+  let skipping = false; // Text of a block whose timing line was unreadable
 
-  for (const block of blocks) {
-    const lines = block.trim().split('\n');
-    if (lines.length < 3) continue;
-
-    // Line 1: ID
-    const id = lines[0].trim();
-    
-    // Line 2: Timecode (00:00:00,000 --> 00:00:00,000)
-    const timeLine = lines[1].trim();
-    const timeMatch = timeLine.match(/(\d{2}:\d{2}:\d{2},\d{3})\s*-->\s*(\d{2}:\d{2}:\d{2},\d{3})/);
-    
-    if (timeMatch) {
-      // Remaining lines: Text (can be multi-line)
-      const text = lines.slice(2).join(' ').replace(/<[^>]*>/g, ''); // Join and strip HTML tags
-
-      entries.push({
-        id,
-        startTime: parseTime(timeMatch[1]),
-        endTime: parseTime(timeMatch[2]),
-        text: text
-      });
+  const finishCue = () => {
+    if (!current) return;
+    const text = current.text.join(' ').replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '').replace(/\s+/g, ' ').trim(); // Strip HTML and {\an8} tags
+    if (text) {
+      entries.push({ ...current.entry, text });
+      entryLines.push(current.line);
+    } else {
+      warnings.push({ kind: 'malformed', line: current.line, message: `Linha ${current.entry.id} sem texto, ignorada` });
     }
-  }
-  return entries;
+    current = null;
+  };
+
+  lines.forEach((raw, index) => {
+    const line = raw.trim();
+    const lineNumber = index + 1;
+    if (!line) return;
+
+    // Cue number: a number directly followed by a timing line
+    if (/^\d+$/.test(line) && lines[index + 1]?.includes('-->')) {
+      finishCue();
+      pendingId = line;
+      return;
+    }
+
+    if (line.includes('-->')) {
+      finishCue();
+      const timeMatch = line.match(SRT_TIMING_LINE);
+      const startTime = timeMatch ? parseTime(timeMatch[1]) : null;
+      const endTime = timeMatch ? parseTime(timeMatch[2]) : null;
+      if (startTime === null || endTime === null) {
+        const block = pendingId ? `bloco ${pendingId}` : 'bloco';
+        warnings.push({ kind: 'malformed', line: lineNumber, message: `Tempo inválido "${line.slice(0, 40)}", ${block} ignorado` });
+        pendingId = null;
+        skipping = true;
+        return;
+      }
+
+      let id: string = pendingId ?? String(entries.length + 1);
+      if (pendingId === null) {
+        warnings.push({ kind: 'malformed', line: lineNumber, message: `Linha sem número, numerada ${id}` });
+      }
+      if (usedIds.has(id)) {
+        const renamed = `${id}-${entries.length + 1}`;
+        warnings.push({ kind: 'malformed', line: lineNumber - 1, message: `Número de linha ${id} repetido, renumerada ${renamed}` });
+        id = renamed;
+      }
+      usedIds.add(id);
+
+      current = { entry: { id, startTime, endTime, text: '' }, line: lineNumber, text: [] };
+      pendingId = null;
+      skipping = false;
+      return;
+    }
+
+    // Remaining lines: Text (can be multi-line)
+    if (current) current.text.push(line);
+    else if (!skipping) warnings.push({ kind: 'malformed', line: lineNumber, message: `Texto fora de uma linha ignorado: "${line.slice(0, 40)}"` });
+  });
+  finishCue();
+
+  return { entries, warnings, entryLines };
+}
+
+/**
+ * Converts SRT timestamp (00:00:00,000) to seconds. Also accepts "." before the
+ * milliseconds, short fractions ("00:00:01,5") and hours above 99. Null if malformed.
+ */
+function parseTime(timeStr: string): number | null {
+  const match = timeStr.match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  if (Number(m) > 59 || Number(s) > 59) return null;
+  return (Number(h ?? 0) * 3600) + (Number(m) * 60) + Number(s) + (ms ? Number(`0.${ms}`) : 0);
+}
+
+/**
+ * Serializes entries as SRT, renumbered 1..n in time order. Speech attributes are
+ * written as a tag in front of the text (see utils/speechAttributes).
+ */
+export function serializeSRT(entries: SrtEntry[]): string {
+  return [...entries]
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((entry, i) => `${i + 1}\n${formatTimestamp(entry.startTime, ',')} --> ${formatTimestamp(entry.endTime, ',')}\n${cueLines(taggedText(entry))}\n`)
+    .join('\n');
+}
+
+/**
+ * Seconds to `HH:MM:SS<sep>mmm` (`,` for SRT, `.` for WebVTT).
+ */
+export function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}${separator}${ms.toString().padStart(3, '0')}`;
 }
 
 /**
- * Converts SRT timestamp (00:00:00,000) to seconds.
+ * Cue text without blank lines (a blank line would end the block).
  */
-function parseTime(timeStr: string): number {
-  const [hms, ms] = timeStr.split(',');
-  const [h, m, s] = hms.split(':').map(Number);
-  return (h * 3600) + (m * 60) + s + (parseInt(ms, 10) / 1000);
+export function cueLines(text: string): string {
+  return text.split('\n').map(line => line.trim()).filter(Boolean).join('\n');
 }
 
 /**
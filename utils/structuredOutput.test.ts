@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { isRecord, parseStructuredList } from './structuredOutput';
+
+interface Cue {
+  index: number;
+  text: string;
+}
+
+const isCue = (value: unknown): value is Cue => isRecord(value) && Number.isInteger(value.index) && typeof value.text === 'string';
+
+describe('parseStructuredList', () => {
+  it('keeps the well-formed items of the list field', () => {
+    const json = JSON.stringify({ cues: [
+      { index: 0, text: 'Ok' },
+      { index: 0.5, text: 'Fractional index' },
+      { index: '1', text: 'String index' },
+      { index: 2 },
+      null,
+      ['index', 3],
+      'text'
+    ] });
+    expect(parseStructuredList(json, 'cues', isCue)).toEqual([{ index: 0, text: 'Ok' }]);
+  });
+
+  it('returns nothing when the field is missing or not a list', () => {
+    expect(parseStructuredList('{"cues": 3}', 'cues', isCue)).toEqual([]);
+    expect(parseStructuredList('{"lines": []}', 'cues', isCue)).toEqual([]);
+    expect(parseStructuredList('[{"index": 0, "text": "Ok"}]', 'cues', isCue)).toEqual([]);
+  });
+
+  it('rejects responses that are not JSON', () => {
+    expect(() => parseStructuredList('not json', 'cues', isCue)).toThrow('Resposta do modelo não é JSON válido');
+    expect(() => parseStructuredList('', 'cues', isCue)).toThrow('Resposta do modelo não é JSON válido');
+  });
+});
@@ -0,0 +1,44 @@
+import { GoogleGenAI, Part, Schema } from '@google/genai';
+
+/**
+ * Pedido com saída estruturada: o modelo devolve só JSON no formato de `schema`.
+ * Devolve a lista `field` da resposta (ver `parseStructuredList`).
+ */
+export async function generateStructuredList<T>(
+  ai: GoogleGenAI,
+  model: string,
+  parts: Part[],
+  schema: Schema,
+  field: string,
+  isItem: (value: unknown) => value is T,
+  signal?: AbortSignal
+): Promise<T[]> {
+  const response = await ai.models.generateContent({
+    model,
+    contents: [{ role: 'user', parts }],
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: schema,
+      abortSignal: signal
+    }
+  });
+  return parseStructuredList(response.text ?? '', field, isItem);
+}
+
+/**
+ * Lê a lista `field` do JSON da resposta; entradas mal formadas são ignoradas.
+ */
+export function parseStructuredList<T>(json: string, field: string, isItem: (value: unknown) => value is T): T[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Resposta do modelo não é JSON válido');
+  }
+  const list = isRecord(data) ? data[field] : undefined;
+  return Array.isArray(list) ? list.filter(isItem) : [];
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
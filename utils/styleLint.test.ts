@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { SrtEntry } from './srt';
+import { applyStyleFixes, lintScript, mergeStyleConfig, styleLintReport } from './styleLint';
+
+const cue = (id: string, text: string, startTime = Number(id) * 10, endTime = startTime + 8): SrtEntry => ({ id, startTime, endTime, text });
+const presentTense = (text: string) =>
+  lintScript([cue('1', text)], { language: 'pt' }).filter(d => d.rule === 'present-tense');
+
+describe('present tense (pt)', () => {
+  it('does not flag the present of -arar/-erar/-irar verbs', () => {
+    expect(presentTense('Eles preparam a mesa e esperam.')).toEqual([]);
+    expect(presentTense('Os soldados disparam e separam-se.')).toEqual([]);
+    expect(presentTense('Os homens atiram pedras e respiram fundo.')).toEqual([]);
+  });
+
+  it('leaves correct scripts untouched when fixes are applied', () => {
+    const entries = [cue('1', 'Eles preparam a mesa e esperam.'), cue('2', 'Os soldados disparam e separam-se.')];
+    const fixed = applyStyleFixes(entries, lintScript(entries, { language: 'pt' }));
+    expect(fixed.applied).toBe(0);
+    expect(fixed.entries.map(e => e.text)).toEqual(entries.map(e => e.text));
+  });
+
+  it('flags the -aram/-eram preterite without an automatic fix', () => {
+    const diagnostics = presentTense('Eles olharam e correram.');
+    expect(diagnostics.map(d => [d.message, d.fix])).toEqual([
+      ['Tempo passado: "olharam"', undefined],
+      ['Tempo passado: "correram"', undefined]
+    ]);
+    expect(presentTense('Viram a cabeça.')[0].fix).toBeUndefined(); // "viram" também é virar
+  });
+
+  it('fixes the singular preterite and the -ar imperfect', () => {
+    const entries = [cue('1', 'Olhou para a rua. O Rui correu e fechava a porta.')];
+    const fixed = applyStyleFixes(entries, lintScript(entries, { language: 'pt' }));
+    expect(fixed.entries[0].text).toBe('Olha para a rua. O Rui corre e fecha a porta.');
+  });
+
+  it('flags the -er/-ir imperfect after a subject, without an automatic fix', () => {
+    const diagnostics = presentTense('Ela corria e o Rui fazia o jantar. Eles abriam a porta.');
+    expect(diagnostics.map(d => [d.message, d.fix])).toEqual([
+      ['Tempo passado: "corria"', undefined],
+      ['Tempo passado: "fazia"', undefined],
+      ['Tempo passado: "abriam"', undefined]
+    ]);
+    expect(presentTense('A luz do dia entra na sala.')).toEqual([]);
+    expect(presentTense('Ela envia a carta e passeia. Ela própria cria o dia.')).toEqual([]);
+  });
+});
+
+describe('present tense (en)', () => {
+  it('fixes irregular verbs and doubled stops after a subject only', () => {
+    const entries = [cue('1', 'Anna was at home. She stopped. They went out. A closed door.')];
+    const fixed = applyStyleFixes(entries, lintScript(entries, { language: 'en' }));
+    expect(fixed.entries[0].text).toBe('Anna is at home. She stops. They go out. A closed door.');
+  });
+});
+
+describe('character naming', () => {
+  it('fixes minority spellings to the most used one', () => {
+    const entries = [cue('1', 'Entra a Inês.'), cue('2', 'A Inês senta-se.'), cue('3', 'A Ines levanta-se.')];
+    const diagnostics = lintScript(entries, { language: 'pt' }).filter(d => d.rule === 'character-naming');
+    expect(diagnostics.map(d => d.entryId)).toEqual(['3']);
+    expect(applyStyleFixes(entries, diagnostics).entries[2].text).toBe('A Inês levanta-se.');
+  });
+});
+
+describe('phrases and timing', () => {
+  it('flags interpretation, heard content, dialogue repetition and reading speed', () => {
+    const entries = [cue('1', 'Ela parece triste. Ouve-se um tiro.'), cue('2', 'Ela grita a porta está aberta depressa agora mesmo', 20, 21)];
+    const dialogue = [cue('d', 'A porta está aberta!', 22, 23)];
+    const rules = lintScript(entries, { language: 'pt', dialogue }).map(d => d.rule);
+    expect(rules).toEqual(['interpretation', 'heard-content', 'reading-speed', 'heard-content']);
+  });
+
+  it('respects disabled rules in the config', () => {
+    const config = mergeStyleConfig({ rules: { interpretation: { enabled: false } }, maxWordsPerMinute: 'fast' });
+    expect(config.maxWordsPerMinute).toBe(180);
+    expect(mergeStyleConfig([{ maxWords: 3 }])).toEqual(mergeStyleConfig(undefined));
+    expect(lintScript([cue('1', 'Ela parece triste.')], { language: 'pt', config })).toEqual([]);
+  });
+});
+
+describe('styleLintReport', () => {
+  it('writes one quoted row per diagnostic', () => {
+    const entries = [cue('1', 'Ela "parece" triste.')];
+    const report = styleLintReport(entries, lintScript(entries, { language: 'pt' }), seconds => seconds.toFixed(1));
+    expect(report).toBe('linha;inicio;regra;gravidade;problema;sugestao;texto\n' +
+      '"1";10.0;interpretation;warning;"Interpretação: ""parece""";"Descreva o que se vê (gesto, expressão) em vez de o interpretar";"Ela ""parece"" triste."\n');
+  });
+});
@@ -0,0 +1,497 @@
+import { SrtEntry } from './srt';
+import { csvReport, quoteCsv } from './csvReport';
+import { isRecord } from './structuredOutput';
+
+// Revisão de estilo dos guiões de audiodescrição. Sem dependências do browser: corre também
+// em Node (scripts/lintScript.ts). A configuração guardada usa localStorage (só no browser).
+const STORAGE_KEY = 'cinevoz.styleLint';
+const DIALOGUE_WINDOW = 10; // Segundos à volta da linha em que uma fala repetida conta
+const SHINGLE_WORDS = 3;    // Palavras seguidas em comum com o diálogo para contar como repetição
+
+export type StyleLanguage = 'pt' | 'en';
+
+export type StyleRuleId = 'present-tense' | 'interpretation' | 'heard-content' | 'character-naming' | 'reading-speed' | 'cue-length';
+
+export type StyleSeverity = 'error' | 'warning' | 'info';
+
+export const STYLE_RULES: StyleRuleId[] = ['present-tense', 'interpretation', 'heard-content', 'character-naming', 'reading-speed', 'cue-length'];
+
+export const STYLE_RULE_LABELS: Record<StyleRuleId, string> = {
+  'present-tense': 'Presente',
+  'interpretation': 'Interpretação',
+  'heard-content': 'Repete o que se ouve',
+  'character-naming': 'Nomes das personagens',
+  'reading-speed': 'Velocidade de leitura',
+  'cue-length': 'Duração/tamanho'
+};
+
+/**
+ * Correção automática: substitui `text.slice(from, to)` do texto da linha por `replacement`.
+ */
+export interface StyleFix {
+  from: number;
+  to: number;
+  replacement: string;
+}
+
+export interface StyleDiagnostic {
+  entryId: string;
+  startTime: number;
+  rule: StyleRuleId;
+  severity: StyleSeverity;
+  message: string;
+  suggestion?: string;
+  fix?: StyleFix;
+}
+
+export interface StyleLintConfig {
+  rules: Record<StyleRuleId, { enabled: boolean; severity: StyleSeverity }>;
+  maxWordsPerMinute: number;
+  maxWords: number;             // Palavras por linha
+  minDuration: number;          // Segundos
+  maxDuration: number;
+  extraInterpretation: string[]; // Palavras/expressões a juntar às da língua
+  extraHeardContent: string[];
+}
+
+interface StyleRuleSet {
+  // Verbo no passado → forma no presente (null: sem correção segura). `previous`: palavra anterior, em minúsculas
+  presentTense: (word: string, previous: string | undefined) => string | null | undefined;
+  interpretation: string[];
+  heardContent: string[];
+  nameStopWords: Set<string>; // Palavras com maiúscula que não são nomes
+}
+
+// --- Português ---
+
+// Irregulares e formas em que a regra geral falha
+const PT_PAST: Record<string, string | null> = {
+  foi: null, foram: null, // "vai"/"é": depende da frase
+  era: 'é', eram: 'são', estava: 'está', estavam: 'estão', esteve: 'está', estiveram: 'estão',
+  tinha: 'tem', tinham: 'têm', teve: 'tem', tiveram: 'têm', havia: 'há', houve: 'há',
+  fez: 'faz', fizeram: 'fazem', disse: 'diz', disseram: 'dizem', viu: 'vê', viram: null, // "viram" também é virar
+  deu: 'dá', deram: 'dão', leu: 'lê', pôs: 'põe', puseram: 'põem', veio: 'vem', vieram: 'vêm',
+  trouxe: 'traz', trouxeram: 'trazem', quis: 'quer', pôde: 'pode', podia: 'pode', queria: 'quer',
+  saiu: 'sai', saíram: 'saem', caiu: 'cai', caíram: 'caem', sorriu: 'sorri', subiu: 'sobe',
+  fugiu: 'foge', seguiu: 'segue', sentiu: 'sente', vestiu: 'veste', dormiu: 'dorme', ouviu: 'ouve',
+  pediu: 'pede', abriu: 'abre', partiu: 'parte', surgiu: 'surge', dirigiu: 'dirige', decidiu: 'decide'
+};
+
+// Terminam como verbos no passado mas não são
+const PT_NOT_PAST = new Set([
+  'ou', 'sou', 'vou', 'dou', 'estou', 'tou',
+  'eu', 'meu', 'teu', 'seu', 'museu', 'europeu', 'judeu', 'ateu', 'plebeu', 'liceu', 'apogeu', 'coliseu', 'hebreu', 'pigmeu',
+  'lava', 'cava', 'trava', 'fava', 'clava', 'brava', 'escrava', 'oitava', 'aldrava', 'nava'
+]);
+
+// Presente de verbos em -rar/-rer/-rir: terminam como o pretérito ("preparam" / "olharam"), mas já estão no presente
+const PT_PRESENT_R = new Set([
+  'preparam', 'separam', 'disparam', 'comparam', 'reparam', 'declaram', 'amparam', 'encaram', 'agarram', 'esbarram',
+  'demoram', 'moram', 'choram', 'devoram', 'ignoram', 'exploram', 'adoram', 'decoram', 'melhoram', 'pioram',
+  'esperam', 'consideram', 'alteram', 'operam', 'superam', 'recuperam', 'aceleram', 'liberam', 'toleram', 'geram',
+  'cerram', 'enterram', 'berram', 'erram', 'ferram', 'aterram', 'encerram', 'desesperam', 'exageram', 'apoderam',
+  'tiram', 'atiram', 'retiram', 'miram', 'respiram', 'suspiram', 'giram', 'inspiram', 'expiram', 'admiram', 'conspiram'
+]);
+
+// Presente de verbos em -iar, igual ao imperfeito de -er/-ir ("envia" / "corria")
+const PT_PRESENT_IAR = new Set([
+  'envia', 'enviam', 'cria', 'criam', 'copia', 'copiam', 'confia', 'confiam', 'anuncia', 'anunciam', 'inicia', 'iniciam',
+  'vigia', 'vigiam', 'elogia', 'elogiam', 'varia', 'variam', 'desvia', 'desviam', 'adia', 'adiam', 'aprecia', 'apreciam',
+  'assobia', 'assobiam', 'espia', 'espiam', 'alivia', 'aliviam', 'arrepia', 'arrepiam', 'acaricia', 'acariciam',
+  'amplia', 'ampliam', 'avalia', 'avaliam', 'auxilia', 'auxiliam', 'denuncia', 'denunciam', 'negocia', 'negociam',
+  'pronuncia', 'pronunciam', 'renuncia', 'renunciam', 'silencia', 'silenciam', 'guia', 'guiam', 'esfria', 'esfriam',
+  'própria', 'próprias'
+]);
+
+// Sujeitos que tornam "-ia"/"-iam" um verbo; um nome próprio chega como 'he' (ver checkPresentTense)
+const PT_SUBJECTS = new Set(['ele', 'ela', 'eles', 'elas', 'he']);
+
+function ptPresentTense(word: string, previous: string | undefined): string | null | undefined {
+  if (word in PT_PAST) return PT_PAST[word];
+  if (PT_NOT_PAST.has(word) || PT_PRESENT_R.has(word) || PT_PRESENT_IAR.has(word)) return undefined;
+  if (word.length >= 4 && word.endsWith('ou')) return word.slice(0, -2) + 'a';            // olhou → olha
+  // olharam → olham, mas "preparam" (preparar) também termina assim: sem correção automática
+  if (word.length >= 6 && (word.endsWith('aram') || word.endsWith('eram'))) return null;
+  if (word.length >= 6 && word.endsWith('avam')) return word.slice(0, -4) + 'am';         // olhavam → olham
+  if (word.length >= 6 && word.endsWith('ava')) return word.slice(0, -3) + 'a';           // olhava → olha
+  if (word.length >= 5 && word.endsWith('eu')) return word.slice(0, -2) + 'e';            // correu → corre
+  if (word.length >= 5 && (word.endsWith('iu') || word.endsWith('iram'))) return null;    // abriu, subiu: sem regra segura
+  // Imperfeito de -er/-ir (corria, abriam): só depois de um sujeito, e sem correção (corre, abre, ...)
+  if (previous !== undefined && PT_SUBJECTS.has(previous) && word.length >= 4
+    && (word.endsWith('ia') || word.endsWith('iam')) && !word.endsWith('eia') && !word.endsWith('eiam')) return null;
+  return undefined;
+}
+
+// --- English ---
+
+// Past → [3.ª pessoa do singular, forma base]
+const EN_PAST: Record<string, [string, string] | null> = {
+  was: ['is', 'is'], were: ['are', 'are'], had: ['has', 'have'], did: ['does', 'do'],
+  went: ['goes', 'go'], came: ['comes', 'come'], saw: ['sees', 'see'], took: ['takes', 'take'],
+  got: ['gets', 'get'], ran: ['runs', 'run'], sat: ['sits', 'sit'], stood: ['stands', 'stand'],
+  said: ['says', 'say'], made: ['makes', 'make'], fell: ['falls', 'fall'], gave: ['gives', 'give'],
+  found: ['finds', 'find'], held: ['holds', 'hold'], knew: ['knows', 'know'], began: ['begins', 'begin'],
+  thought: ['thinks', 'think'], brought: ['brings', 'bring'], caught: ['catches', 'catch'],
+  threw: ['throws', 'throw'], drove: ['drives', 'drive'], wore: ['wears', 'wear'], spoke: ['speaks', 'speak'],
+  broke: ['breaks', 'break'], woke: ['wakes', 'wake'], felt: ['feels', 'feel'], ate: ['eats', 'eat'],
+  left: null, rose: null // "left" (esquerda), "rose" (rosa)
+};
+
+const EN_PLURAL_SUBJECTS = new Set(['they', 'we', 'you', 'i']);
+const EN_SUBJECTS = new Set(['he', 'she', 'it', 'they', 'we', 'you', 'i']);
+const DOUBLED_STOPS = /([bdgmnpt])\1$/;
+
+function enPresentTense(word: string, previous: string | undefined): string | null | undefined {
+  const plural = previous !== undefined && EN_PLURAL_SUBJECTS.has(previous);
+  if (word in EN_PAST) {
+    const forms = EN_PAST[word];
+    if (!forms) return null;
+    if (word === 'was' && previous === 'i') return 'am';
+    return plural ? forms[1] : forms[0];
+  }
+  // Regulares: só depois de um sujeito ("she walked"), senão é quase sempre um adjetivo ("a closed door")
+  if (word.length < 5 || !word.endsWith('ed') || previous === undefined || !EN_SUBJECTS.has(previous)) return undefined;
+  const stem = word.slice(0, -2);
+  if (plural) return null;
+  if (word.endsWith('ied')) return word.slice(0, -3) + 'ies';          // carried → carries
+  if (DOUBLED_STOPS.test(stem)) return stem.slice(0, -1) + 's';        // stopped → stops
+  return null;                                                          // smiled/walked: o "e" final é incerto
+}
+
+const STYLE_RULE_SETS: Record<StyleLanguage, StyleRuleSet> = {
+  pt: {
+    presentTense: ptPresentTense,
+    interpretation: [
+      'parece', 'parecem', 'parecendo', 'aparentemente', 'provavelmente', 'possivelmente', 'talvez',
+      'obviamente', 'claramente', 'evidentemente', 'certamente', 'pensa', 'pensam', 'lembra-se', 'lembram-se',
+      'recorda', 'decide', 'decidem', 'quer', 'querem', 'sente', 'sentem', 'percebe', 'percebem',
+      'apercebe-se', 'imagina', 'deseja', 'como se'
+    ],
+    heardContent: [
+      'ouve-se', 'ouvem-se', 'ouvimos', 'ouve', 'ouvem', 'escuta-se', 'som de', 'sons de', 'barulho de',
+      'ruído de', 'diz que', 'dizem que', 'responde que', 'pergunta se', 'grita que'
+    ],
+    nameStopWords: new Set(['o', 'a', 'os', 'as', 'um', 'uma', 'ele', 'ela', 'eles', 'elas', 'no', 'na', 'do', 'da', 'em', 'de', 'e', 'mas', 'noite', 'dia', 'manhã', 'tarde', 'sr', 'sra', 'dr', 'dra'])
+  },
+  en: {
+    presentTense: enPresentTense,
+    interpretation: [
+      'seems', 'seem', 'seemingly', 'apparently', 'probably', 'possibly', 'perhaps', 'maybe', 'obviously',
+      'clearly', 'evidently', 'certainly', 'thinks', 'remembers', 'decides', 'wants', 'feels', 'realizes',
+      'realises', 'wonders', 'wishes', 'as if'
+    ],
+    heardContent: [
+      'we hear', 'hear', 'hears', 'heard', 'sound of', 'sounds of', 'noise of', 'says that', 'asks if',
+      'replies that', 'shouts that', 'whispers that'
+    ],
+    nameStopWords: new Set(['the', 'a', 'an', 'he', 'she', 'it', 'they', 'we', 'i', 'you', 'in', 'on', 'at', 'and', 'but', 'night', 'day', 'mr', 'mrs', 'ms', 'dr'])
+  }
+};
+
+/**
+ * Conjunto de regras para uma etiqueta BCP-47 (pela língua base); null se não houver.
+ */
+export function styleLanguageFor(lang: string): StyleLanguage | null {
+  const base = lang.toLowerCase().split(/[-_]/)[0];
+  return base === 'pt' || base === 'en' ? base : null;
+}
+
+export function defaultStyleConfig(): StyleLintConfig {
+  return {
+    rules: {
+      'present-tense': { enabled: true, severity: 'warning' },
+      'interpretation': { enabled: true, severity: 'warning' },
+      'heard-content': { enabled: true, severity: 'warning' },
+      'character-naming': { enabled: true, severity: 'warning' },
+      'reading-speed': { enabled: true, severity: 'error' },
+      'cue-length': { enabled: true, severity: 'info' }
+    },
+    maxWordsPerMinute: 180,
+    maxWords: 35,
+    minDuration: 1,
+    maxDuration: 10,
+    extraInterpretation: [],
+    extraHeardContent: []
+  };
+}
+
+/**
+ * Configuração por omissão com os valores de `partial` (de um ficheiro JSON ou guardados).
+ * Regras e campos desconhecidos são ignorados.
+ */
+export function mergeStyleConfig(partial: unknown): StyleLintConfig {
+  const config = defaultStyleConfig();
+  if (!isRecord(partial)) return config;
+  const rules = isRecord(partial.rules) ? partial.rules : {};
+  for (const rule of STYLE_RULES) {
+    const value = rules[rule];
+    if (!isRecord(value)) continue;
+    if (typeof value.enabled === 'boolean') config.rules[rule].enabled = value.enabled;
+    if (value.severity === 'error' || value.severity === 'warning' || value.severity === 'info') config.rules[rule].severity = value.severity;
+  }
+  for (const key of ['maxWordsPerMinute', 'maxWords', 'minDuration', 'maxDuration'] as const) {
+    const value = partial[key];
+    if (typeof value === 'number' && value > 0) config[key] = value;
+  }
+  for (const key of ['extraInterpretation', 'extraHeardContent'] as const) {
+    const value = partial[key];
+    if (Array.isArray(value)) config[key] = value.filter((w: unknown): w is string => typeof w === 'string' && w.trim() !== '');
+  }
+  return config;
+}
+
+function readAll(): Partial<Record<StyleLanguage, StyleLintConfig>> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function loadStyleConfig(language: StyleLanguage): StyleLintConfig {
+  return mergeStyleConfig(readAll()[language]);
+}
+
+export function saveStyleConfig(language: StyleLanguage, config: StyleLintConfig): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...readAll(), [language]: config }));
+}
+
+// --- Texto ---
+
+interface Word {
+  text: string;
+  from: number;
+  to: number;
+  initial: boolean; // Início de frase
+}
+
+const WORD = /\p{L}+(?:['’]\p{L}+)*/gu;
+
+function words(text: string): Word[] {
+  const result: Word[] = [];
+  for (const match of text.matchAll(WORD)) {
+    const before = text.slice(0, match.index).trimEnd();
+    result.push({ text: match[0], from: match.index!, to: match.index! + match[0].length, initial: before === '' || /[.!?…:—«"“(\[]$/.test(before) });
+  }
+  return result;
+}
+
+const fold = (text: string) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+const isCapitalized = (word: string) => word[0] !== word[0].toLowerCase();
+const matchCase = (original: string, replacement: string) =>
+  isCapitalized(original) ? replacement[0].toUpperCase() + replacement.slice(1) : replacement;
+
+function phrasePattern(phrases: string[]): RegExp | null {
+  const escaped = phrases.map(p => p.trim().toLowerCase()).filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(p => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+  return escaped.length > 0 ? new RegExp(`(?<![\\p{L}-])(?:${escaped.join('|')})(?![\\p{L}-])`, 'giu') : null;
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+// --- Regras ---
+
+type Emit = (entry: SrtEntry, rule: StyleRuleId, message: string, suggestion?: string, fix?: StyleFix) => void;
+
+function checkPresentTense(entry: SrtEntry, ruleSet: StyleRuleSet, emit: Emit): void {
+  const list = words(entry.text);
+  list.forEach((word, i) => {
+    // Nomes próprios a meio da frase ("Romeu") não são verbos
+    if (isCapitalized(word.text) && !word.initial) return;
+    // Um nome próprio antes do verbo conta como sujeito na 3.ª pessoa ("Anna walked")
+    const previous = list[i - 1];
+    const subject = previous && isCapitalized(previous.text) && !ruleSet.nameStopWords.has(previous.text.toLowerCase()) ? 'he' : previous?.text.toLowerCase();
+    const present = ruleSet.presentTense(word.text.toLowerCase(), subject);
+    if (present === undefined) return;
+    if (present === null) {
+      emit(entry, 'present-tense', `Tempo passado: "${word.text}"`, 'Use o presente');
+      return;
+    }
+    const replacement = matchCase(word.text, present);
+    emit(entry, 'present-tense', `Tempo passado: "${word.text}"`, `Use o presente: "${replacement}"`, { from: word.from, to: word.to, replacement });
+  });
+}
+
+function checkPhrases(entry: SrtEntry, pattern: RegExp | null, rule: StyleRuleId, label: string, suggestion: string, emit: Emit): void {
+  if (!pattern) return;
+  for (const match of entry.text.matchAll(pattern)) emit(entry, rule, `${label}: "${match[0]}"`, suggestion);
+}
+
+function shingles(text: string): Map<string, string> {
+  const list = words(text).map(w => w.text);
+  const result = new Map<string, string>(); // Forma normalizada → texto original
+  for (let i = 0; i + SHINGLE_WORDS <= list.length; i++) {
+    const group = list.slice(i, i + SHINGLE_WORDS);
+    if (group.some(w => w.length >= 4)) result.set(group.map(fold).join(' '), group.join(' '));
+  }
+  return result;
+}
+
+/**
+ * Linhas que repetem palavras das falas à volta (legendas de diálogo).
+ */
+function checkDialogueRepetition(entries: SrtEntry[], dialogue: SrtEntry[], emit: Emit): void {
+  const dialogueShingles = dialogue.map(d => ({ entry: d, shingles: shingles(d.text) }));
+  for (const entry of entries) {
+    const own = shingles(entry.text);
+    if (own.size === 0) continue;
+    const near = dialogueShingles.filter(d => d.entry.endTime >= entry.startTime - DIALOGUE_WINDOW && d.entry.startTime <= entry.endTime + DIALOGUE_WINDOW);
+    const repeated = [...own].find(([key]) => near.some(d => d.shingles.has(key)));
+    if (repeated) emit(entry, 'heard-content', `Repete o diálogo: "${repeated[1]}..."`, 'Descreva o que não se ouve');
+  }
+}
+
+/**
+ * A mesma personagem escrita de maneiras diferentes (acentos, maiúsculas, gralhas):
+ * as formas minoritárias são corrigidas para a mais usada.
+ */
+function checkCharacterNaming(entries: SrtEntry[], ruleSet: StyleRuleSet, emit: Emit): void {
+  const occurrences: { entry: SrtEntry; word: Word }[] = [];
+  const named = new Set<string>(); // Chaves que aparecem com maiúscula a meio da frase
+  for (const entry of entries) {
+    for (const word of words(entry.text)) {
+      if (!isCapitalized(word.text) || word.text.length < 2 || ruleSet.nameStopWords.has(word.text.toLowerCase())) continue;
+      occurrences.push({ entry, word });
+      if (!word.initial) named.add(fold(word.text));
+    }
+  }
+
+  const spellings = new Map<string, Map<string, number>>(); // Chave → grafia → ocorrências
+  for (const { word } of occurrences) {
+    const key = fold(word.text);
+    if (!named.has(key)) continue;
+    const counts = spellings.get(key) ?? new Map<string, number>();
+    counts.set(word.text, (counts.get(word.text) ?? 0) + 1);
+    spellings.set(key, counts);
+  }
+  const total = (key: string) => [...spellings.get(key)!.values()].reduce((sum, n) => sum + n, 0);
+  const preferred = (key: string) => [...spellings.get(key)!].sort((a, b) => b[1] - a[1])[0][0];
+
+  // Gralhas: nomes raros a uma letra de outro bastante mais frequente
+  const canonical = new Map<string, string>(); // Chave → chave correta
+  const keys = [...spellings.keys()];
+  for (const key of keys) {
+    if (key.length < 5 || total(key) > 2) continue;
+    const better = keys.find(other => other !== key && other.length >= 5 && total(other) >= Math.max(3, 2 * total(key)) && levenshtein(key, other) === 1);
+    if (better) canonical.set(key, better);
+  }
+
+  for (const { entry, word } of occurrences) {
+    const key = fold(word.text);
+    if (!spellings.has(key)) continue;
+    const target = preferred(canonical.get(key) ?? key);
+    if (target === word.text) continue;
+    const message = canonical.has(key) ? `Nome possivelmente errado: "${word.text}"` : `Nome escrito de outra forma: "${word.text}"`;
+    emit(entry, 'character-naming', message, `Use "${target}", como no resto do guião`, { from: word.from, to: word.to, replacement: target });
+  }
+}
+
+function checkTiming(entry: SrtEntry, config: StyleLintConfig, emit: Emit): void {
+  const duration = entry.endTime - entry.startTime;
+  if (duration <= 0) return; // Já no relatório da importação
+  const count = words(entry.text).length;
+  const wpm = count / (duration / 60);
+  if (wpm > config.maxWordsPerMinute) {
+    const fits = Math.floor(config.maxWordsPerMinute * duration / 60);
+    emit(entry, 'reading-speed', `Leitura a ${Math.round(wpm)} ppm (máximo ${config.maxWordsPerMinute})`, `Reduzir para ~${fits} palavras ou alongar a linha`);
+  }
+  if (count > config.maxWords) emit(entry, 'cue-length', `Linha com ${count} palavras (máximo ${config.maxWords})`, 'Dividir em duas linhas');
+  if (duration > config.maxDuration) emit(entry, 'cue-length', `Linha com ${duration.toFixed(1)}s (máximo ${config.maxDuration}s)`, 'Dividir em duas linhas');
+  if (duration < config.minDuration) emit(entry, 'cue-length', `Linha com ${duration.toFixed(1)}s (mínimo ${config.minDuration}s)`, 'Juntar à seguinte ou alongar');
+}
+
+export interface StyleLintOptions {
+  language: StyleLanguage;
+  config?: StyleLintConfig;
+  dialogue?: SrtEntry[]; // Legendas de diálogo: deteta descrições que repetem as falas
+}
+
+const SEVERITY_ORDER: Record<StyleSeverity, number> = { error: 0, warning: 1, info: 2 };
+
+/**
+ * Revê o guião com as regras da língua. Diagnósticos por ordem de tempo e, na mesma linha, de gravidade.
+ */
+export function lintScript(entries: SrtEntry[], options: StyleLintOptions): StyleDiagnostic[] {
+  const config = options.config ?? defaultStyleConfig();
+  const ruleSet = STYLE_RULE_SETS[options.language];
+  const diagnostics: StyleDiagnostic[] = [];
+  const emit: Emit = (entry, rule, message, suggestion, fix) => {
+    const { enabled, severity } = config.rules[rule];
+    if (enabled) diagnostics.push({ entryId: entry.id, startTime: entry.startTime, rule, severity, message, suggestion, fix });
+  };
+
+  const interpretation = phrasePattern([...ruleSet.interpretation, ...config.extraInterpretation]);
+  const heardContent = phrasePattern([...ruleSet.heardContent, ...config.extraHeardContent]);
+  for (const entry of entries) {
+    checkPresentTense(entry, ruleSet, emit);
+    checkPhrases(entry, interpretation, 'interpretation', 'Interpretação', 'Descreva o que se vê (gesto, expressão) em vez de o interpretar', emit);
+    checkPhrases(entry, heardContent, 'heard-content', 'Descreve o que se ouve', 'O público já ouve: descreva o que não se ouve', emit);
+    checkTiming(entry, config, emit);
+  }
+  if (options.dialogue && options.dialogue.length > 0) checkDialogueRepetition(entries, options.dialogue, emit);
+  checkCharacterNaming(entries, ruleSet, emit);
+
+  return diagnostics.sort((a, b) => a.startTime - b.startTime || SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
+
+/**
+ * Aplica as correções automáticas (as que se sobrepõem a outra na mesma linha ficam por aplicar).
+ */
+export function applyStyleFixes(entries: SrtEntry[], diagnostics: StyleDiagnostic[]): { entries: SrtEntry[]; applied: number } {
+  const fixesById = new Map<string, StyleFix[]>();
+  for (const d of diagnostics) {
+    if (d.fix) fixesById.set(d.entryId, [...(fixesById.get(d.entryId) ?? []), d.fix]);
+  }
+  let applied = 0;
+  const fixed = entries.map(entry => {
+    const fixes = fixesById.get(entry.id);
+    if (!fixes) return entry;
+    let text = entry.text;
+    let limit = Infinity;
+    for (const fix of [...fixes].sort((a, b) => b.from - a.from)) {
+      if (fix.to > limit) continue;
+      text = text.slice(0, fix.from) + fix.replacement + text.slice(fix.to);
+      limit = fix.from;
+      applied++;
+    }
+    return { ...entry, text };
+  });
+  return { entries: fixed, applied };
+}
+
+export function countBySeverity(diagnostics: StyleDiagnostic[]): Record<StyleSeverity, number> {
+  const counts: Record<StyleSeverity, number> = { error: 0, warning: 0, info: 0 };
+  diagnostics.forEach(d => counts[d.severity]++);
+  return counts;
+}
+
+/**
+ * Relatório CSV dos diagnósticos, para a revisão.
+ */
+export function styleLintReport(entries: SrtEntry[], diagnostics: StyleDiagnostic[], formatTime: (seconds: number) => string): string {
+  const textById = new Map(entries.map(e => [e.id, e.text]));
+  const rows = diagnostics.map(d => [
+    quoteCsv(d.entryId),
+    formatTime(d.startTime),
+    d.rule,
+    d.severity,
+    quoteCsv(d.message),
+    quoteCsv(d.suggestion ?? ''),
+    quoteCsv(textById.get(d.entryId) ?? '')
+  ]);
+  return csvReport(['linha', 'inicio', 'regra', 'gravidade', 'problema', 'sugestao', 'texto'], rows);
+}
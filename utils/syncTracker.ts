@@ -0,0 +1,119 @@
+import { MIN_MATCH_CONFIDENCE } from './audioMatcher';
+import { PlaybackRateEstimator } from './playbackRateEstimator';
+
+// Configuração do Rastreamento (após o lock inicial)
+const PHASE_GAIN = 0.3;            // Fração do erro de posição absorvida por match (filtro tipo PLL)
+const INNOVATION_GATE = 1.5;       // Erro (s) acima do qual o match é tratado como outlier / possível salto
+const CORRECTION_THRESHOLD = 0.6;  // Diferença (s) entre estimativa e relógio do estúdio que justifica corrigir (seekTo ignora < 0.5s)
+const JUMP_CONFIRMATIONS = 2;      // Outliers consistentes entre si necessários para aceitar um salto
+const JUMP_AGREEMENT = 1.0;        // Tolerância (s) entre outliers consecutivos do mesmo salto
+export const MIN_TRACKING_CONFIDENCE = MIN_MATCH_CONFIDENCE;
+const MIN_JUMP_CONFIDENCE = 55;    // Saltos exigem mais evidência do que correções
+const LOST_AFTER_MISSES = 8;       // Matches fracos seguidos (~16s) até desistir do rastreio
+
+export interface TrackerObservation {
+  clock: number;      // Relógio de parede (s) no instante a que o match se refere
+  time: number;       // Tempo de filme medido (já com compensação de latência)
+  confidence: number; // 0 a 100
+}
+
+/**
+ * - 'hold':    tudo dentro da tolerância;
+ * - 'correct': pequeno desvio, reposicionar o relógio em `time` (sem re-verificação);
+ * - 'jump':    salto confirmado (seek/rewind/cena cortada), reposicionar em `time`;
+ * - 'lost':    sem evidência há demasiado tempo, voltar ao scan global.
+ */
+export type TrackerDecision =
+  | { action: 'hold'; estimate: number }
+  | { action: 'correct'; time: number }
+  | { action: 'jump'; time: number }
+  | { action: 'lost' };
+
+/**
+ * Rastreia a posição do filme depois do lock. A posição é filtrada (correção parcial
+ * do erro em cada match) e a velocidade vem da regressão do PlaybackRateEstimator.
+ * Um match isolado fora da gate nunca causa seek: é preciso uma sequência consistente.
+ */
+export class SyncTracker {
+  private position = 0;  // Tempo de filme estimado em `clock`
+  private clock = 0;
+  private rate = 1;
+  private misses = 0;
+  private jumpEvidence: TrackerObservation[] = [];
+  private rateEstimator = new PlaybackRateEstimator();
+
+  reset(time: number, clock: number, rate: number = this.rate): void {
+    this.position = time;
+    this.clock = clock;
+    this.rate = rate;
+    this.misses = 0;
+    this.jumpEvidence = [];
+    this.rateEstimator.clear();
+    this.rateEstimator.add(clock, time);
+  }
+
+  /**
+   * Desloca a estimativa (ex: ajuste manual do utilizador) sem perder a velocidade.
+   */
+  shift(delta: number): void {
+    this.position += delta;
+    this.jumpEvidence = [];
+    this.rateEstimator.clear();
+    this.rateEstimator.add(this.clock, this.position);
+  }
+
+  getRate(): number {
+    return this.rate;
+  }
+
+  predict(clock: number): number {
+    return this.position + (clock - this.clock) * this.rate;
+  }
+
+  /**
+   * @param studioTime Tempo do relógio do estúdio no mesmo instante `obs.clock`
+   */
+  update(obs: TrackerObservation, studioTime: number): TrackerDecision {
+    if (obs.confidence <= MIN_TRACKING_CONFIDENCE) {
+      this.misses++;
+      return this.misses >= LOST_AFTER_MISSES ? { action: 'lost' } : { action: 'hold', estimate: this.predict(obs.clock) };
+    }
+    this.misses = 0;
+
+    const predicted = this.predict(obs.clock);
+    const innovation = obs.time - predicted;
+
+    if (Math.abs(innovation) >= INNOVATION_GATE) {
+      return this.registerJumpEvidence(obs, predicted);
+    }
+
+    // Match coerente: absorve parte do erro e refina a velocidade
+    this.jumpEvidence = [];
+    this.position = predicted + PHASE_GAIN * innovation;
+    this.clock = obs.clock;
+    this.rateEstimator.add(obs.clock, obs.time);
+    const estimate = this.rateEstimator.estimate();
+    if (estimate) this.rate = estimate.rate;
+
+    if (Math.abs(this.position - studioTime) > CORRECTION_THRESHOLD) {
+      return { action: 'correct', time: this.position };
+    }
+    return { action: 'hold', estimate: this.position };
+  }
+
+  private registerJumpEvidence(obs: TrackerObservation, predicted: number): TrackerDecision {
+    if (obs.confidence < MIN_JUMP_CONFIDENCE) {
+      return { action: 'hold', estimate: predicted };
+    }
+
+    const last = this.jumpEvidence[this.jumpEvidence.length - 1];
+    const agrees = last && Math.abs(obs.time - (last.time + (obs.clock - last.clock) * this.rate)) < JUMP_AGREEMENT;
+    this.jumpEvidence = agrees ? [...this.jumpEvidence, obs] : [obs];
+
+    if (this.jumpEvidence.length >= JUMP_CONFIRMATIONS) {
+      this.reset(obs.time, obs.clock);
+      return { action: 'jump', time: obs.time };
+    }
+    return { action: 'hold', estimate: predicted };
+  }
+}
@@ -0,0 +1,66 @@
+import { MatchCandidate, MIN_MATCH_CONFIDENCE } from './audioMatcher';
+
+// Configuração da Verificação (antes do lock inicial)
+const MIN_CANDIDATE_SCORE = 30;  // Score bruto mínimo para um pico entrar na verificação
+const VERIFY_AGREEMENT = 2.0;    // Tolerância (s) entre candidatos de checks consecutivos
+const CONFIRMATIONS = 2;         // Checks coerentes necessários quando o pico é inequívoco
+const STRONG_CONFIRMATIONS = 3;  // Checks coerentes que dispensam a unicidade do pico
+
+interface CandidateChain {
+  time: number;  // Último tempo de filme observado
+  clock: number; // Relógio de parede dessa observação
+  count: number; // Checks consecutivos coerentes
+}
+
+/**
+ * - 'pending': ainda sem evidência suficiente (`confirmations` = melhor cadeia atual);
+ * - 'locked':  um único alinhamento confirmado em `time` (no `clock` da última observação).
+ */
+export type VerificationResult =
+  | { status: 'pending'; confirmations: number }
+  | { status: 'locked'; time: number };
+
+/**
+ * Verificação do scan inicial: em vez de comparar só o melhor pico com o anterior,
+ * cada candidato do check atual é comparado com todos os do check anterior (projetados
+ * pela velocidade). Numa banda sonora repetitiva vários alinhamentos podem ser coerentes
+ * entre si; o lock só acontece quando resta um.
+ */
+export class SyncVerifier {
+  private chains: CandidateChain[] = [];
+
+  reset(): void {
+    this.chains = [];
+  }
+
+  /**
+   * @param candidates Picos do match, já com a compensação de latência aplicada
+   * @param confidence Confiança (com unicidade) do melhor pico
+   * @param clock Relógio de parede (s) a que os candidatos se referem
+   */
+  observe(candidates: MatchCandidate[], confidence: number, clock: number, rate: number): VerificationResult {
+    const previous = this.chains;
+    const used = new Set<CandidateChain>();
+
+    this.chains = candidates
+      .filter(c => c.score > MIN_CANDIDATE_SCORE)
+      .map(c => {
+        const match = previous.find(p => !used.has(p) && Math.abs(c.currentTime - (p.time + (clock - p.clock) * rate)) < VERIFY_AGREEMENT);
+        if (match) used.add(match);
+        return { time: c.currentTime, clock, count: match ? match.count + 1 : 1 };
+      });
+
+    const confirmed = this.chains.filter(c => c.count >= CONFIRMATIONS);
+    if (confirmed.length === 1) {
+      const chain = confirmed[0];
+      // O melhor pico é a cadeia confirmada e é inequívoco, ou a cadeia resistiu a checks suficientes
+      const isBestAndUnique = chain === this.chains[0] && candidates[0].score > MIN_CANDIDATE_SCORE && confidence > MIN_MATCH_CONFIDENCE;
+      if (isBestAndUnique || chain.count >= STRONG_CONFIRMATIONS) {
+        this.chains = [];
+        return { status: 'locked', time: chain.time };
+      }
+    }
+
+    return { status: 'pending', confirmations: this.chains.reduce((max, c) => Math.max(max, c.count), 0) };
+  }
+}
@@ -0,0 +1,143 @@
+import { SrtEntry } from './srt';
+import { SpeechRateModel, estimateSpeechDuration } from './speechRateModel';
+import { csvReport, quoteCsv } from './csvReport';
+
+// Configuração da Análise de Encaixe (leitura estimada vs. tempo disponível)
+const FIT_TOLERANCE = 0.15;     // Segundos de folga antes de marcar uma linha como longa
+const MAX_SUGGESTED_RATE = 2.0; // Acima disto a voz fica imperceptível: sugerir outra solução
+const RATE_STEP = 0.05;         // Velocidades sugeridas arredondadas para cima a este passo
+const START_GAP = 0.2;          // Silêncio deixado depois da leitura anterior ao antecipar uma linha
+
+/**
+ * - 'ok':       a leitura cabe na janela;
+ * - 'overflow': passa do `endTime`, mas acaba antes da linha seguinte;
+ * - 'overlap':  ainda está a ler quando a linha seguinte começa (e é cortada por ela).
+ */
+export type CueFitStatus = 'ok' | 'overflow' | 'overlap';
+
+/**
+ * - 'rate':    ler a esta velocidade;
+ * - 'start':   começar mais cedo (no espaço livre depois da leitura anterior), opcionalmente mais depressa;
+ * - 'shorten': nem assim cabe: reduzir o texto para ~`words` palavras.
+ */
+export type FitSuggestion =
+  | { kind: 'rate'; rate: number }
+  | { kind: 'start'; startTime: number; rate?: number }
+  | { kind: 'shorten'; words: number };
+
+export interface CueFit {
+  id: string;
+  startTime: number;
+  available: number; // Segundos até ao fim da janela (endTime ou início da linha seguinte)
+  estimated: number; // Segundos de leitura estimados
+  rate: number;      // Velocidade usada na estimativa
+  status: CueFitStatus;
+  suggestion?: FitSuggestion;
+}
+
+export interface TimingFitOptions {
+  defaultRate: number;
+  modelFor: (entry: SrtEntry) => SpeechRateModel; // Modelo da voz que vai ler a linha
+}
+
+const roundRateUp = (rate: number) => Math.ceil(rate / RATE_STEP - 1e-9) * RATE_STEP;
+
+/**
+ * Compara a leitura estimada de cada linha com a janela disponível e sugere como a fazer caber.
+ * As linhas são analisadas por ordem de início; o resultado segue essa ordem.
+ */
+export function analyzeTimingFit(entries: SrtEntry[], options: TimingFitOptions): CueFit[] {
+  const sorted = [...entries].sort((a, b) => a.startTime - b.startTime);
+  const fits: CueFit[] = [];
+  let previousSpeechEnd = 0; // Fim estimado da leitura anterior (tal como vai soar)
+
+  sorted.forEach((entry, i) => {
+    const next = sorted[i + 1];
+    const rate = entry.rate ?? options.defaultRate;
+    const model = options.modelFor(entry);
+    const estimated = estimateSpeechDuration(entry.text, model, rate);
+    const windowEnd = next ? Math.min(entry.endTime, next.startTime) : entry.endTime;
+    const available = Math.max(0, windowEnd - entry.startTime);
+    const speechEnd = entry.startTime + estimated;
+
+    let status: CueFitStatus = 'ok';
+    if (next && speechEnd > next.startTime + FIT_TOLERANCE) status = 'overlap';
+    else if (speechEnd > entry.endTime + FIT_TOLERANCE) status = 'overflow';
+
+    const fit: CueFit = { id: entry.id, startTime: entry.startTime, available, estimated, rate, status };
+    if (status !== 'ok') fit.suggestion = suggestFit(entry.text, model, rate, estimated, available, windowEnd, previousSpeechEnd);
+    fits.push(fit);
+
+    // Uma linha cortada pela seguinte só soa até ao início desta
+    previousSpeechEnd = Math.max(previousSpeechEnd, next ? Math.min(speechEnd, next.startTime) : speechEnd);
+  });
+
+  return fits;
+}
+
+function suggestFit(
+  text: string,
+  model: SpeechRateModel,
+  rate: number,
+  estimated: number,
+  available: number,
+  windowEnd: number,
+  previousSpeechEnd: number
+): FitSuggestion {
+  // 1. Mais depressa, na mesma janela
+  if (available > 0) {
+    const neededRate = roundRateUp(rate * estimated / available);
+    if (neededRate <= MAX_SUGGESTED_RATE) return { kind: 'rate', rate: neededRate };
+  }
+
+  // 2. Começar mais cedo, à mesma velocidade ou, no limite, mais depressa
+  const earliestStart = previousSpeechEnd + START_GAP;
+  const startAtRate = windowEnd - estimated;
+  if (startAtRate >= earliestStart) return { kind: 'start', startTime: startAtRate };
+  const widest = windowEnd - earliestStart;
+  if (widest > 0) {
+    const neededRate = roundRateUp(rate * estimated / widest);
+    if (neededRate <= MAX_SUGGESTED_RATE) return { kind: 'start', startTime: earliestStart, rate: neededRate };
+  }
+
+  // 3. Texto a mais: palavras que cabem à velocidade máxima na janela mais larga
+  const secondsAtMax = Math.max(widest, available) * MAX_SUGGESTED_RATE;
+  return { kind: 'shorten', words: Math.max(1, Math.floor(secondsAtMax / model.secondsPerWord)) };
+}
+
+/**
+ * Texto curto da sugestão, para o painel e o relatório.
+ */
+export function describeSuggestion(suggestion: FitSuggestion, formatTime: (seconds: number) => string): string {
+  switch (suggestion.kind) {
+    case 'rate': return `velocidade ${suggestion.rate.toFixed(2)}`;
+    case 'start': return `início ${formatTime(suggestion.startTime)}${suggestion.rate ? `, velocidade ${suggestion.rate.toFixed(2)}` : ''}`;
+    case 'shorten': return `reduzir para ~${suggestion.words} palavras`;
+  }
+}
+
+/**
+ * Resumo de uma linha longa: leitura estimada / tempo disponível e a sugestão.
+ */
+export function describeFit(fit: CueFit, formatTime: (seconds: number) => string): string {
+  const times = `${fit.estimated.toFixed(1)}s / ${fit.available.toFixed(1)}s`;
+  return fit.suggestion ? `${times} · ${describeSuggestion(fit.suggestion, formatTime)}` : times;
+}
+
+/**
+ * Relatório CSV de todas as linhas.
+ */
+export function timingFitReport(entries: SrtEntry[], fits: CueFit[], formatTime: (seconds: number) => string): string {
+  const textById = new Map(entries.map(e => [e.id, e.text]));
+  const rows = fits.map(fit => [
+    quoteCsv(fit.id),
+    formatTime(fit.startTime),
+    fit.available.toFixed(2),
+    fit.estimated.toFixed(2),
+    fit.rate.toFixed(2),
+    fit.status,
+    quoteCsv(fit.suggestion ? describeSuggestion(fit.suggestion, formatTime) : ''),
+    quoteCsv(textById.get(fit.id) ?? '')
+  ]);
+  return csvReport(['linha', 'inicio', 'disponivel_s', 'estimado_s', 'velocidade', 'estado', 'sugestao', 'texto'], rows);
+}
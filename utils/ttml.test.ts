@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import { parseTTML } from './ttml';
+
+const tt = (attributes: string, body: string) =>
+  `<?xml version="1.0" encoding="UTF-8"?>\n<tt xmlns="http://www.w3.org/ns/ttml" xmlns:ttp="http://www.w3.org/ns/ttml#parameter" ${attributes}><body>${body}</body></tt>`;
+
+describe('parseTTML', () => {
+  it('reads clock times with fractions and frames', () => {
+    const result = parseTTML(tt('ttp:frameRate="25"', '<div><p xml:id="c1" begin="00:00:01.500" end="00:00:03:12">One</p></div>'));
+    expect(result.warnings).toEqual([]);
+    expect(result.entries).toEqual([{ id: 'c1', startTime: 1.5, endTime: 3 + 12 / 25, text: 'One' }]);
+  });
+
+  it('applies frameRateMultiplier and subFrameRate to frame times', () => {
+    const result = parseTTML(tt('ttp:frameRate="30" ttp:frameRateMultiplier="1000 1001" ttp:subFrameRate="2"', '<div><p begin="00:00:00:15" end="00:00:01:00.1">Drop</p></div>'));
+    const fps = 30 * 1000 / 1001;
+    expect(result.entries[0].startTime).toBeCloseTo(15 / fps);
+    expect(result.entries[0].endTime).toBeCloseTo(1 + 0.5 / fps);
+  });
+
+  it('reads offset times in h, m, s, ms, f and t', () => {
+    const result = parseTTML(tt('ttp:frameRate="25" ttp:tickRate="10000000"', [
+      '<p begin="1h" end="3600.5s">h</p>',
+      '<p begin="2m" end="121000ms">m</p>',
+      '<p begin="50f" end="30000000t">f</p>'
+    ].join('')));
+    expect(result.entries.map(e => [e.startTime, e.endTime])).toEqual([[3600, 3600.5], [120, 121], [2, 3]]);
+  });
+
+  it('uses the frame rate as tick rate when only ttp:frameRate is given', () => {
+    const result = parseTTML(tt('ttp:frameRate="24"', '<p begin="24t" end="48t">Ticks</p>'));
+    expect(result.entries[0]).toMatchObject({ startTime: 1, endTime: 2 });
+  });
+
+  it('resolves nested div timing as offsets and clips to the parent end', () => {
+    const result = parseTTML(tt('', [
+      '<div begin="10s" end="20s">',
+      '<div begin="2s">',
+      '<p begin="1s" dur="2s">Nested</p>',
+      '<p begin="5s" end="15s">Clipped</p>',
+      '<p begin="0s">Open</p>',
+      '</div>',
+      '</div>'
+    ].join('')));
+    expect(result.warnings).toEqual([]);
+    expect(result.entries.map(e => [e.text, e.startTime, e.endTime])).toEqual([
+      ['Nested', 13, 15],
+      ['Clipped', 17, 20],
+      ['Open', 12, 20]
+    ]);
+  });
+
+  it('joins spans and line breaks and skips metadata', () => {
+    const result = parseTTML(tt('', '<p begin="0s" end="1s"><metadata>x</metadata><span>Ela</span><br/>sorri</p>'));
+    expect(result.entries[0].text).toBe('Ela sorri');
+  });
+
+  it('warns about open-ended, reversed, empty and unreadable paragraphs', () => {
+    const result = parseTTML(tt('ttp:timeBase="smpte"', [
+      '<p xml:id="open" begin="1s">No end</p>',
+      '<p xml:id="back" begin="3s" end="2s">Backwards</p>',
+      '<p xml:id="empty" begin="3s" end="4s"> </p>',
+      '<p xml:id="bad" begin="soon" end="5s">Bad</p>'
+    ].join('')));
+    expect(result.entries).toEqual([]);
+    expect(result.warnings.map(w => w.kind)).toEqual(['unsupported', 'malformed', 'duration', 'malformed', 'malformed']);
+  });
+
+  it('rejects invalid XML and documents without <tt>', () => {
+    expect(parseTTML('<tt><body>').warnings[0].message).toMatch(/^XML inválido/);
+    expect(parseTTML('<html/>').warnings[0].message).toBe('O elemento raiz é <html>, esperado <tt>');
+  });
+});
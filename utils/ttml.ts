@@ -0,0 +1,184 @@
+import { SrtEntry, ParseWarning, ParsedScript } from './srt';
+
+const TTP_NS = 'http://www.w3.org/ns/ttml#parameter';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const DEFAULT_FRAME_RATE = 30;  // TTML default when ttp:frameRate is absent
+const DEFAULT_TICK_RATE = 1;    // Only used when ttp:frameRate is also absent
+
+interface TimingParameters {
+  frameRate: number;   // Effective rate (frameRate × frameRateMultiplier)
+  subFrameRate: number;
+  tickRate: number;
+}
+
+interface TimeSpan {
+  begin: number;
+  end: number | null; // null = open-ended (inherits the parent's end)
+}
+
+/**
+ * Parses TTML / DFXP (and IMSC / EBU-TT, which are TTML profiles) with DOMParser.
+ * Each `<p>` becomes one entry; `begin`/`end`/`dur` are resolved against the
+ * enclosing `<body>`/`<div>` timing (parallel time containers) and `<br/>` becomes a space.
+ */
+export function parseTTML(data: string): ParsedScript {
+  const entries: SrtEntry[] = [];
+  const warnings: ParseWarning[] = [];
+
+  const doc = new DOMParser().parseFromString(data.replace(/^\uFEFF/, ''), 'application/xml');
+  const parseError = doc.getElementsByTagName('parsererror')[0];
+  if (parseError) {
+    warnings.push({ kind: 'malformed', message: `XML inválido: ${(parseError.textContent || '').trim().slice(0, 120)}` });
+    return { entries, warnings };
+  }
+
+  const root = doc.documentElement;
+  if (root.localName !== 'tt') {
+    warnings.push({ kind: 'malformed', message: `O elemento raiz é <${root.localName}>, esperado <tt>` });
+    return { entries, warnings };
+  }
+
+  const params = timingParameters(root, warnings);
+  const body = Array.from(root.children).find(el => el.localName === 'body');
+  if (!body) {
+    warnings.push({ kind: 'malformed', message: 'O documento não tem <body>' });
+    return { entries, warnings };
+  }
+
+  const paragraphs = Array.from(body.getElementsByTagNameNS('*', 'p'));
+  const usedIds = new Set<string>();
+  const spans = new Map<Element, TimeSpan | null>(); // Shared ancestors are resolved (and warned about) once
+  paragraphs.forEach((p, index) => {
+    const label = p.getAttributeNS(XML_NS, 'id') || p.getAttribute('xml:id') || `#${index + 1}`;
+    const span = resolveSpan(p, body, params, warnings, spans);
+    if (!span) return;
+    if (span.end === null) {
+      warnings.push({ kind: 'malformed', message: `Parágrafo ${label} sem tempo de fim, ignorado` });
+      return;
+    }
+    if (span.end <= span.begin) {
+      warnings.push({ kind: 'duration', message: `Parágrafo ${label} acaba antes de começar, ignorado` });
+      return;
+    }
+
+    const text = collectText(p).replace(/\s+/g, ' ').trim();
+    if (!text) {
+      warnings.push({ kind: 'malformed', message: `Parágrafo ${label} vazio, ignorado` });
+      return;
+    }
+
+    let id = label.startsWith('#') ? String(entries.length + 1) : label;
+    if (usedIds.has(id)) id = `${id}-${entries.length + 1}`;
+    usedIds.add(id);
+    entries.push({ id, startTime: span.begin, endTime: span.end, text });
+  });
+
+  if (paragraphs.length === 0) warnings.push({ kind: 'malformed', message: 'O documento não tem elementos <p>' });
+  return { entries, warnings };
+}
+
+function timingParameters(root: Element, warnings: ParseWarning[]): TimingParameters {
+  const attr = (name: string) => root.getAttributeNS(TTP_NS, name) || root.getAttribute(`ttp:${name}`);
+
+  const timeBase = attr('timeBase');
+  if (timeBase && timeBase !== 'media') {
+    warnings.push({ kind: 'unsupported', message: `ttp:timeBase="${timeBase}" tratado como tempo do media` });
+  }
+
+  const frameRateAttr = attr('frameRate');
+  let frameRate = frameRateAttr ? Number(frameRateAttr) : DEFAULT_FRAME_RATE;
+  const multiplier = attr('frameRateMultiplier');
+  if (multiplier) {
+    const [num, den] = multiplier.trim().split(/\s+/).map(Number);
+    if (num > 0 && den > 0) frameRate = frameRate * num / den;
+    else warnings.push({ kind: 'malformed', message: `ttp:frameRateMultiplier inválido "${multiplier}" ignorado` });
+  }
+
+  const tickRateAttr = attr('tickRate');
+  const tickRate = tickRateAttr ? Number(tickRateAttr) : frameRateAttr ? frameRate : DEFAULT_TICK_RATE;
+  const subFrameRate = Number(attr('subFrameRate') || 1);
+
+  return { frameRate, subFrameRate, tickRate };
+}
+
+/**
+ * Absolute begin/end of `element`: its times are offsets from the parent's begin.
+ * Null if the element (or an ancestor) has an unreadable time expression.
+ */
+function resolveSpan(element: Element, body: Element, params: TimingParameters, warnings: ParseWarning[], spans: Map<Element, TimeSpan | null>): TimeSpan | null {
+  const cached = spans.get(element);
+  if (cached !== undefined) return cached;
+
+  const parent: TimeSpan | null = element === body || !element.parentElement
+    ? { begin: 0, end: null }
+    : resolveSpan(element.parentElement, body, params, warnings, spans);
+
+  const read = (name: string): number | null | undefined => {
+    const value = element.getAttribute(name);
+    if (value === null) return undefined;
+    const seconds = parseTimeExpression(value, params);
+    if (seconds === null) {
+      const id = element.getAttributeNS(XML_NS, 'id') || element.getAttribute('xml:id');
+      warnings.push({ kind: 'malformed', message: `${name}="${value}" inválido em <${element.localName}${id ? ` xml:id="${id}"` : ''}>` });
+    }
+    return seconds;
+  };
+
+  let span: TimeSpan | null = null;
+  const begin = read('begin');
+  const end = read('end');
+  const dur = read('dur');
+  if (parent && begin !== null && end !== null && dur !== null) {
+    const absBegin = parent.begin + (begin ?? 0);
+    let absEnd = end !== undefined ? parent.begin + end : dur !== undefined ? absBegin + dur : parent.end;
+    if (absEnd !== null && parent.end !== null) absEnd = Math.min(absEnd, parent.end);
+    span = { begin: absBegin, end: absEnd };
+  }
+  spans.set(element, span);
+  return span;
+}
+
+/**
+ * TTML time expression to seconds: clock time (`hh:mm:ss.fff`, `hh:mm:ss:ff`)
+ * or offset time (`12.5s`, `500ms`, `3m`, `1h`, `25f`, `90000t`).
+ */
+function parseTimeExpression(value: string, params: TimingParameters): number | null {
+  const text = value.trim();
+
+  const clock = text.match(/^(\d{2,}):(\d{2}):(\d{2})(?:(\.\d+)|:(\d{2,})(?:\.(\d+))?)?$/);
+  if (clock) {
+    const [, h, m, s, fraction, frames, subFrames] = clock;
+    let seconds = Number(h) * 3600 + Number(m) * 60 + Number(s);
+    if (fraction) seconds += Number(fraction);
+    if (frames) seconds += (Number(frames) + (subFrames ? Number(subFrames) / params.subFrameRate : 0)) / params.frameRate;
+    return seconds;
+  }
+
+  const offset = text.match(/^(\d+(?:\.\d+)?)(h|ms|m|s|f|t)$/);
+  if (offset) {
+    const amount = Number(offset[1]);
+    switch (offset[2]) {
+      case 'h': return amount * 3600;
+      case 'm': return amount * 60;
+      case 's': return amount;
+      case 'ms': return amount / 1000;
+      case 'f': return amount / params.frameRate;
+      case 't': return amount / params.tickRate;
+    }
+  }
+  return null;
+}
+
+function collectText(node: Node): string {
+  let text = '';
+  node.childNodes.forEach(child => {
+    if (child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE) {
+      text += child.nodeValue ?? '';
+    } else if (child.nodeType === Node.ELEMENT_NODE) {
+      const name = (child as Element).localName;
+      if (name === 'br') text += ' ';
+      else if (name !== 'metadata') text += collectText(child);
+    }
+  });
+  return text;
+}
@@ -0,0 +1,58 @@
+/**
+ * Relógio do filme sem áudio de referência (sincronização por diálogo).
+ * Imita a parte do HTMLAudioElement que o estúdio usa (currentTime, playbackRate,
+ * play/pause, onplay/onpause), para que o resto do motor não distinga os dois casos.
+ */
+export class VirtualClock {
+  readonly duration: number;
+  onplay: (() => void) | null = null;
+  onpause: (() => void) | null = null;
+
+  private anchorTime = 0;   // Tempo do filme no último ajuste
+  private anchorClock = 0;  // Relógio de parede (s) no último ajuste
+  private rate = 1;
+  private isPaused = true;
+
+  constructor(duration: number, private now: () => number = () => performance.now() / 1000) {
+    this.duration = duration;
+  }
+
+  get currentTime(): number {
+    const elapsed = this.isPaused ? 0 : (this.now() - this.anchorClock) * this.rate;
+    return Math.min(this.duration, this.anchorTime + elapsed);
+  }
+
+  set currentTime(time: number) {
+    this.anchorTime = Math.max(0, Math.min(this.duration, time));
+    this.anchorClock = this.now();
+  }
+
+  get playbackRate(): number {
+    return this.rate;
+  }
+
+  set playbackRate(rate: number) {
+    this.currentTime = this.currentTime; // Fixa o tempo decorrido à velocidade anterior
+    this.rate = rate;
+  }
+
+  get paused(): boolean {
+    return this.isPaused;
+  }
+
+  play(): Promise<void> {
+    if (this.isPaused) {
+      this.anchorClock = this.now();
+      this.isPaused = false;
+      this.onplay?.();
+    }
+    return Promise.resolve();
+  }
+
+  pause(): void {
+    if (this.isPaused) return;
+    this.currentTime = this.currentTime;
+    this.isPaused = true;
+    this.onpause?.();
+  }
+}
@@ -0,0 +1,120 @@
+import { fft, nextPowerOfTwo } from './fft';
+import { resampleAverage, SPECTRAL_SAMPLE_RATE } from './spectralFingerprint';
+
+// Configuração da Deteção de Voz (VAD)
+export const VAD_SAMPLE_RATE = SPECTRAL_SAMPLE_RATE; // 8kHz: a banda da voz cabe toda
+export const VAD_FRAME_RATE = 10;   // 100ms por frame (a precisão típica dos tempos de legendas)
+const SPEECH_BAND_HZ: [number, number] = [300, 3400];
+const NOISE_FLOOR_PERCENTILE = 0.2; // Frames mais baixos da janela = ruído de fundo da sala
+const SPEECH_MARGIN_DB = 4;         // Acima do ruído de fundo começa a haver voz
+const SPEECH_FULL_DB = 12;          // A partir daqui a energia conta como voz plena
+const MAX_TONAL_FLATNESS = 0.45;    // Planura espectral acima disto é ruído (sem harmónicos)
+const HANGOVER_FRAMES = 2;          // Mantém a voz 200ms (pausas entre palavras)
+const SPEECH_THRESHOLD = 0.5;       // Frames abaixo disto contam como sem fala (lacunas para descrição)
+
+/**
+ * Probabilidade de voz (0 a 1) por frame de 100ms.
+ * Combina energia na banda da voz acima do ruído de fundo (adaptado à própria janela)
+ * com a tonalidade do espectro (voz vozeada tem harmónicos; ruído e efeitos não).
+ */
+export function detectVoiceActivity(pcm: Float32Array, sampleRate: number): Float32Array {
+  const samples = resampleAverage(pcm, sampleRate, VAD_SAMPLE_RATE);
+  const frameSize = Math.floor(VAD_SAMPLE_RATE / VAD_FRAME_RATE);
+  const frameCount = Math.floor(samples.length / frameSize);
+  const n = nextPowerOfTwo(frameSize);
+  const binHz = VAD_SAMPLE_RATE / n;
+  const lowBin = Math.ceil(SPEECH_BAND_HZ[0] / binHz);
+  const highBin = Math.min(n / 2 - 1, Math.floor(SPEECH_BAND_HZ[1] / binHz));
+
+  const window = new Float64Array(frameSize);
+  for (let i = 0; i < frameSize; i++) window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (frameSize - 1));
+
+  const energyDb = new Float64Array(frameCount);
+  const flatness = new Float64Array(frameCount);
+  const re = new Float64Array(n), im = new Float64Array(n);
+
+  for (let f = 0; f < frameCount; f++) {
+    re.fill(0); im.fill(0);
+    const offset = f * frameSize;
+    for (let i = 0; i < frameSize; i++) re[i] = samples[offset + i] * window[i];
+    fft(re, im);
+
+    let sum = 0, logSum = 0;
+    for (let k = lowBin; k <= highBin; k++) {
+      const power = re[k] * re[k] + im[k] * im[k] + 1e-12;
+      sum += power;
+      logSum += Math.log(power);
+    }
+    const bins = highBin - lowBin + 1;
+    energyDb[f] = 10 * Math.log10(sum / bins);
+    flatness[f] = Math.exp(logSum / bins) / (sum / bins); // Média geométrica / aritmética
+  }
+
+  const floorDb = percentile(energyDb, NOISE_FLOOR_PERCENTILE);
+  const raw = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    const loudness = clamp01((energyDb[f] - floorDb - SPEECH_MARGIN_DB) / (SPEECH_FULL_DB - SPEECH_MARGIN_DB));
+    const tonality = clamp01((MAX_TONAL_FLATNESS - flatness[f]) / MAX_TONAL_FLATNESS);
+    raw[f] = loudness * (0.5 + 0.5 * tonality);
+  }
+
+  // Hangover: uma pausa curta entre palavras continua a ser fala (como nas legendas)
+  const activity = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let value = raw[f];
+    for (let k = 1; k <= HANGOVER_FRAMES && f - k >= 0; k++) value = Math.max(value, raw[f - k]);
+    activity[f] = value;
+  }
+  return activity;
+}
+
+/**
+ * Trilho de fala esperado a partir das legendas de diálogo: 1 durante cada legenda, 0 fora.
+ * @param duration Segundos cobertos (por omissão, até ao fim da última legenda)
+ */
+export function subtitleActivity(cues: ReadonlyArray<{ startTime: number; endTime: number }>, duration?: number): Float32Array {
+  const end = duration ?? cues.reduce((max, c) => Math.max(max, c.endTime), 0);
+  const activity = new Float32Array(Math.ceil(end * VAD_FRAME_RATE));
+  for (const cue of cues) {
+    const start = Math.max(0, Math.floor(cue.startTime * VAD_FRAME_RATE));
+    const stop = Math.min(activity.length, Math.ceil(cue.endTime * VAD_FRAME_RATE));
+    activity.fill(1, start, stop);
+  }
+  return activity;
+}
+
+export interface DialogueGap {
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * Troços sem fala com pelo menos `minDuration` segundos, encolhidos `margin` de cada lado
+ * (a descrição não deve colar à última/primeira palavra do diálogo).
+ */
+export function findDialogueGaps(activity: Float32Array, minDuration: number, margin: number): DialogueGap[] {
+  const gaps: DialogueGap[] = [];
+  let gapStart = -1;
+  for (let f = 0; f <= activity.length; f++) {
+    const silent = f < activity.length && activity[f] < SPEECH_THRESHOLD;
+    if (silent && gapStart < 0) gapStart = f;
+    if (!silent && gapStart >= 0) {
+      // O início do ficheiro e o fim não têm diálogo a respeitar
+      const startTime = gapStart === 0 ? 0 : gapStart / VAD_FRAME_RATE + margin;
+      const endTime = f === activity.length ? f / VAD_FRAME_RATE : f / VAD_FRAME_RATE - margin;
+      if (endTime - startTime >= minDuration) gaps.push({ startTime, endTime });
+      gapStart = -1;
+    }
+  }
+  return gaps;
+}
+
+function percentile(values: Float64Array, p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = Float64Array.from(values).sort();
+  return sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+}
+
+function clamp01(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
@@ -0,0 +1,51 @@
+// Escolha da voz do TTS para uma língua (e, opcionalmente, um nome de voz pedido na linha)
+
+/**
+ * - 'name':  a voz pedida pelo nome;
+ * - 'exact': mesma língua e região (pt-PT para pt-PT);
+ * - 'base':  só a mesma língua (pt-BR para pt-PT): lê, mas com outro sotaque;
+ * - 'none':  nenhuma voz da língua: o browser lê com a voz por omissão.
+ */
+export type VoiceMatch = 'name' | 'exact' | 'base' | 'none';
+
+export interface VoiceChoice {
+  voice: SpeechSynthesisVoice | null;
+  match: VoiceMatch;
+}
+
+// As vozes reportam 'pt-PT', 'pt_PT' ou só 'pt' consoante o sistema
+const normalizeLang = (lang: string) => lang.replace(/_/g, '-').toLowerCase();
+const baseLang = (lang: string) => normalizeLang(lang).split('-')[0];
+
+// Entre vozes equivalentes: a por omissão do sistema, depois as locais (sem rede, arranque mais rápido)
+const preference = (voice: SpeechSynthesisVoice) => (voice.default ? 2 : 0) + (voice.localService ? 1 : 0);
+const best = (voices: SpeechSynthesisVoice[]) =>
+  voices.reduce<SpeechSynthesisVoice | null>((chosen, v) => !chosen || preference(v) > preference(chosen) ? v : chosen, null);
+
+/**
+ * Melhor voz instalada para `lang`. Uma voz pedida pelo nome (exato ou parcial) ganha a todas,
+ * seja de que língua for.
+ */
+export function pickVoice(voices: SpeechSynthesisVoice[], lang: string, voiceName?: string): VoiceChoice {
+  const wanted = voiceName?.toLowerCase();
+  if (wanted) {
+    const named = voices.find(v => v.name.toLowerCase() === wanted) || voices.find(v => v.name.toLowerCase().includes(wanted));
+    if (named) return { voice: named, match: 'name' };
+  }
+
+  const exact = best(voices.filter(v => normalizeLang(v.lang) === normalizeLang(lang)));
+  if (exact) return { voice: exact, match: 'exact' };
+  const base = best(voices.filter(v => baseLang(v.lang) === baseLang(lang)));
+  if (base) return { voice: base, match: 'base' };
+  return { voice: null, match: 'none' };
+}
+
+/**
+ * Aviso para a UI/log quando a escolha não é a voz pedida para a língua; null se está tudo certo.
+ */
+export function voiceWarning(choice: VoiceChoice, lang: string, voiceName?: string): string | null {
+  if (choice.match === 'none') return `Nenhuma voz ${lang} instalada: o browser vai ler com a voz por omissão`;
+  if (voiceName && choice.match !== 'name') return `Voz "${voiceName}" não encontrada, a usar ${choice.voice!.name}`;
+  if (choice.match === 'base') return `Nenhuma voz ${lang} instalada, a usar ${choice.voice!.name} (${choice.voice!.lang})`;
+  return null;
+}
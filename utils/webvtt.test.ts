@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { parseWebVTT, parseVttTimestamp, serializeWebVTT } from './webvtt';
+
+describe('parseWebVTT', () => {
+  it('reads identifiers, short timestamps and multi-line payloads', () => {
+    const result = parseWebVTT('WEBVTT - AD script\n\nintro\n00:01.000 --> 00:03.500\nShe opens the door\nand looks out.\n\n01:00:00.000 --> 01:00:02.000\nNight.\n');
+    expect(result.warnings).toEqual([]);
+    expect(result.entries).toEqual([
+      { id: 'intro', startTime: 1, endTime: 3.5, text: 'She opens the door and looks out.' },
+      { id: '2', startTime: 3600, endTime: 3602, text: 'Night.' }
+    ]);
+    expect(result.entryLines).toEqual([4, 8]);
+  });
+
+  it('accepts known cue settings and warns about unknown ones', () => {
+    const result = parseWebVTT('WEBVTT\n\n00:00:01.000 --> 00:00:02.000 line:0 position:10% align:start size:50% vertical:rl region:r1 speed:2\nText\n');
+    expect(result.entries).toHaveLength(1);
+    expect(result.warnings).toEqual([{ kind: 'unsupported', line: 3, message: 'Definição de linha desconhecida "speed:2" ignorada' }]);
+  });
+
+  it('turns voice and lang spans into speech attributes and strips the other tags', () => {
+    const result = parseWebVTT('WEBVTT\n\n00:00:01.000 --> 00:00:02.000\n<v.narrator Joana &amp; Rui><lang pt-BR><c.yellow>Ela</c> <i>sorri</i> &lt;3</lang></v>\n\n00:00:03.000 --> 00:00:04.000\n<ruby>漢<rt>kan</rt></ruby> <00:00:03.500>ok\n');
+    expect(result.entries[0]).toMatchObject({ text: 'Ela sorri <3', voice: 'Joana & Rui', lang: 'pt-BR' });
+    expect(result.entries[1]).toMatchObject({ text: '漢 ok' });
+    expect(result.entries[1].voice).toBeUndefined();
+  });
+
+  it('skips NOTE, STYLE and REGION blocks', () => {
+    const result = parseWebVTT('WEBVTT\n\nNOTE a comment\n--> not a cue\n\nSTYLE\n::cue { color: red }\n\nREGION\nid:r1\n\n00:00:01.000 --> 00:00:02.000\nText\n');
+    expect(result.warnings).toEqual([]);
+    expect(result.entries.map(e => e.text)).toEqual(['Text']);
+  });
+
+  it('warns about a missing header, bad timings and duplicate identifiers', () => {
+    const result = parseWebVTT('WEBVTT-ish\n\na\n00:00:01.000 --> 00:00:02.000\nOne\n\na\n00:00:03.000 --> 00:00:04.000\nTwo\n\n00:00:05.000 --> 00:00:04.000\nBackwards\n\n00:00:06,000 --> 00:00:07.000\nComma\n');
+    expect(result.warnings.map(w => [w.kind, w.line])).toEqual([
+      ['malformed', 1],
+      ['malformed', 7],
+      ['duration', 11],
+      ['malformed', 14]
+    ]);
+    expect(result.warnings[0].message).toBe('Falta o cabeçalho "WEBVTT"');
+    expect(result.entries.map(e => e.id)).toEqual(['a', 'a-2']);
+  });
+});
+
+describe('parseVttTimestamp', () => {
+  it('parses hours, minutes and milliseconds', () => {
+    expect(parseVttTimestamp('01:02:03.456')).toBeCloseTo(3723.456);
+    expect(parseVttTimestamp('02:03.456')).toBeCloseTo(123.456);
+    expect(parseVttTimestamp('00:60.000')).toBeNull();
+    expect(parseVttTimestamp('00:01.5')).toBeNull();
+  });
+});
+
+describe('serializeWebVTT', () => {
+  it('round-trips voices and escaped text', () => {
+    const vtt = serializeWebVTT([{ id: '2', startTime: 2, endTime: 3, text: 'B & <C>' }, { id: '1', startTime: 0, endTime: 1, text: 'A', voice: 'Joana' }]);
+    const parsed = parseWebVTT(vtt);
+    expect(parsed.warnings).toEqual([]);
+    expect(parsed.entries).toEqual([
+      { id: '1', startTime: 0, endTime: 1, text: 'A', voice: 'Joana' },
+      { id: '2', startTime: 2, endTime: 3, text: 'B & <C>' }
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { SrtEntry, ParseWarning, ParsedScript, formatTimestamp, cueLines } from './srt';
+import { taggedText } from './speechAttributes';
+
+const TIMING_LINE = /^(\S+)\s+-->\s+(\S+)(.*)$/;
+const KNOWN_SETTINGS = new Set(['vertical', 'line', 'position', 'size', 'align', 'region']);
+
+/**
+ * Parses a WebVTT file. Cue settings are validated and dropped; class and ruby tags
+ * are stripped, keeping their text. The first voice span (`<v Name>`) and language
+ * span (`<lang pt-BR>`) of a cue become its `voice` and `lang` speech attributes.
+ * NOTE, STYLE and REGION blocks are skipped.
+ */
+export function parseWebVTT(data: string): ParsedScript {
+  const lines = data.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+  const entries: SrtEntry[] = [];
+  const entryLines: number[] = [];
+  const warnings: ParseWarning[] = [];
+
+  if (!/^WEBVTT([ \t].*)?$/.test(lines[0] ?? '')) {
+    warnings.push({ kind: 'malformed', line: 1, message: 'Falta o cabeçalho "WEBVTT"' });
+  }
+
+  const usedIds = new Set<string>();
+  let i = 1;
+  while (i < lines.length) {
+    // Blocks are separated by blank lines
+    while (i < lines.length && lines[i].trim() === '') i++;
+    if (i >= lines.length) break;
+
+    const blockStart = i;
+    const block: string[] = [];
+    while (i < lines.length && lines[i].trim() !== '') block.push(lines[i++]);
+
+    const keyword = block[0].split(/[ \t]/)[0];
+    if (keyword === 'NOTE' || keyword === 'STYLE' || keyword === 'REGION') continue;
+
+    // Optional cue identifier before the timing line
+    const timingIndex = block[0].includes('-->') ? 0 : 1;
+    const timing = block[timingIndex]?.match(TIMING_LINE);
+    if (!timing) {
+      warnings.push({ kind: 'malformed', line: blockStart + 1, message: `Bloco sem tempos ignorado: "${block[0].slice(0, 40)}"` });
+      continue;
+    }
+
+    const lineNumber = blockStart + timingIndex + 1;
+    const startTime = parseVttTimestamp(timing[1]);
+    const endTime = parseVttTimestamp(timing[2]);
+    if (startTime === null || endTime === null) {
+      warnings.push({ kind: 'malformed', line: lineNumber, message: `Tempo inválido em "${block[timingIndex].slice(0, 60)}"` });
+      continue;
+    }
+    if (endTime <= startTime) {
+      warnings.push({ kind: 'duration', line: lineNumber, message: `Linha acaba antes de começar (${timing[1]} --> ${timing[2]}), ignorada` });
+      continue;
+    }
+
+    for (const setting of timing[3].trim().split(/\s+/).filter(Boolean)) {
+      const name = setting.split(':')[0];
+      if (!setting.includes(':') || !KNOWN_SETTINGS.has(name)) {
+        warnings.push({ kind: 'unsupported', line: lineNumber, message: `Definição de linha desconhecida "${setting}" ignorada` });
+      }
+    }
+
+    const payload = block.slice(timingIndex + 1);
+    const text = payload.map(cueText).join(' ').trim();
+    if (!text) {
+      warnings.push({ kind: 'malformed', line: lineNumber, message: 'Linha vazia ignorada' });
+      continue;
+    }
+
+    let id = timingIndex === 1 ? block[0].trim() : String(entries.length + 1);
+    if (usedIds.has(id)) {
+      warnings.push({ kind: 'malformed', line: blockStart + 1, message: `Identificador de linha "${id}" repetido, renomeado` });
+      id = `${id}-${entries.length + 1}`;
+    }
+    usedIds.add(id);
+    entries.push({ id, startTime, endTime, text, ...spanAttributes(payload.join(' ')) });
+    entryLines.push(lineNumber);
+  }
+
+  return { entries, warnings, entryLines };
+}
+
+/**
+ * Serializes entries as WebVTT in time order. Entry ids become cue identifiers
+ * (unless they contain `-->` or repeat); `&`, `<` and `>` in the text are escaped.
+ * The `voice` attribute is written as a voice span, the others as a speech tag.
+ */
+export function serializeWebVTT(entries: SrtEntry[]): string {
+  const usedIds = new Set<string>();
+  const cues = [...entries]
+    .sort((a, b) => a.startTime - b.startTime)
+    .map((entry, i) => {
+      let id = entry.id.trim();
+      if (!id || id.includes('-->') || id.includes('\n') || usedIds.has(id)) id = `cue-${i + 1}`;
+      usedIds.add(id);
+      const text = cueLines(taggedText(entry, ['voice'])).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+      const voice = entry.voice ? `<v ${entry.voice.replace(/[<>&]/g, '')}>` : '';
+      return `${id}\n${formatTimestamp(entry.startTime, '.')} --> ${formatTimestamp(entry.endTime, '.')}\n${voice}${text}\n`;
+    });
+  return ['WEBVTT\n', ...cues].join('\n');
+}
+
+/**
+ * `hh:mm:ss.ttt` or `mm:ss.ttt` to seconds (null if malformed).
+ */
+export function parseVttTimestamp(value: string): number | null {
+  const match = value.match(/^(?:(\d+):)?([0-5]\d):([0-5]\d)\.(\d{3})$/);
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  return (Number(h ?? 0) * 3600) + (Number(m) * 60) + Number(s) + Number(ms) / 1000;
+}
+
+function spanAttributes(payload: string): Pick<SrtEntry, 'voice' | 'lang'> {
+  const voice = payload.match(/<v(?:\.[^\s>]*)?[ \t]+([^>]+)>/)?.[1].trim();
+  const lang = payload.match(/<lang(?:\.[^\s>]*)?[ \t]+([^>\s]+)>/)?.[1];
+  return { ...(voice && { voice: decodeEntities(voice) }), ...(lang && { lang }) };
+}
+
+/**
+ * Strips cue tags (`<v Name>`, `<c.class>`, `<i>`, `<00:00:01.000>` …) and decodes entities.
+ * Ruby annotations (`<rt>`) are dropped; the base text stays.
+ */
+function cueText(line: string): string {
+  return decodeEntities(line.replace(/<rt>.*?<\/rt>/g, '').replace(/<[^>]*>/g, ''));
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lrm;|&rlm;/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,184 @@
+import { LiveFingerprint, MatchMethod, MatchResult, fingerprintTransferables } from './audioMatcher';
+import { AlignmentMap } from './alignmentMap';
+import type { MatcherRequest, MatcherResponse } from './audioMatcher.worker';
+
+// Distribui Omit pelos membros da união (Omit simples colapsa a união)
+type RequestWithoutId = MatcherRequest extends infer R ? R extends MatcherRequest ? Omit<R, 'id'> : never : never;
+
+interface PendingRequest {
+  type: MatcherRequest['type'];
+  resolve: (result: unknown) => void; // `result` da resposta 'done', com o tipo pedido em post<T>
+  reject: (error: Error) => void;
+  onProgress?: (progress: number) => void;
+}
+
+/**
+ * Erro devolvido aos pedidos pendentes quando o matcher é cancelado (ex: saída do estúdio).
+ */
+export class MatcherCancelledError extends Error {
+  constructor() {
+    super('Operação do matcher cancelada');
+    this.name = 'MatcherCancelledError';
+  }
+}
+
+/**
+ * Mesma API do AudioMatcher, mas assíncrona e executada num Web Worker,
+ * para não bloquear o loop de requestAnimationFrame nem o checkTTS.
+ * Os Float32Array enviados são transferidos (ficam inutilizáveis do lado de quem chama).
+ */
+export class WorkerAudioMatcher {
+  private worker: Worker | null = null;
+  private pending = new Map<number, PendingRequest>();
+  private nextId = 1;
+  private method: MatchMethod;
+  private hasMaster = false;
+  private hasDialogue = false;
+
+  constructor(method: MatchMethod = 'envelope') {
+    this.method = method;
+  }
+
+  getMethod(): MatchMethod {
+    return this.method;
+  }
+
+  setMethod(method: MatchMethod): void {
+    this.method = method;
+    // Sem pedido pendente: não há resposta a esperar, nem promessa a rejeitar num cancel()
+    this.worker?.postMessage({ id: 0, type: 'setMethod', method } satisfies MatcherRequest);
+  }
+
+  hasMasterFingerprint(): boolean {
+    return this.hasMaster;
+  }
+
+  hasDialogueTrack(): boolean {
+    return this.hasDialogue;
+  }
+
+  /**
+   * Carrega os tempos das legendas de diálogo (modelo do método 'dialogue').
+   */
+  async loadDialogueTrack(entries: ReadonlyArray<{ startTime: number; endTime: number }>): Promise<void> {
+    this.hasDialogue = false;
+    const cues = entries.map(e => ({ startTime: e.startTime, endTime: e.endTime }));
+    await this.post({ type: 'dialogue', cues });
+    this.hasDialogue = true;
+  }
+
+  /**
+   * Constrói a matriz no worker. O canal 0 é copiado e transferido.
+   * @param onProgress Recebe 0 a 1 ao longo da construção
+   */
+  async generateMasterFingerprint(audioBuffer: AudioBuffer, onProgress?: (progress: number) => void): Promise<void> {
+    this.hasMaster = false;
+    const pcm = audioBuffer.getChannelData(0).slice();
+    await this.post({ type: 'generate', pcm, sampleRate: audioBuffer.sampleRate }, [pcm.buffer], onProgress);
+    this.hasMaster = true;
+  }
+
+  /**
+   * Matriz atual no formato binário versionado (para a cache persistente).
+   */
+  exportMasterFingerprint(): Promise<ArrayBuffer> {
+    return this.post({ type: 'export' });
+  }
+
+  /**
+   * Carrega uma matriz serializada. Rejeita se estiver corrompida ou desatualizada.
+   * O buffer é transferido.
+   */
+  async importMasterFingerprint(data: ArrayBuffer): Promise<void> {
+    this.hasMaster = false;
+    await this.post({ type: 'import', data }, [data]);
+    this.hasMaster = true;
+  }
+
+  createLiveFingerprint(pcmData: Float32Array, sampleRate: number): Promise<LiveFingerprint> {
+    return this.post({ type: 'live', pcm: pcmData, sampleRate }, [pcmData.buffer]);
+  }
+
+  /**
+   * Como createLiveFingerprint, mas o worker devolve `pcmData` (mesmo buffer, transferido de volta),
+   * para o chamador o reutilizar sem realocar a cada check.
+   */
+  createLiveFingerprintReusing(pcmData: Float32Array, sampleRate: number): Promise<{ live: LiveFingerprint; pcm: Float32Array }> {
+    return this.post({ type: 'live', pcm: pcmData, sampleRate, returnPcm: true }, [pcmData.buffer]);
+  }
+
+  findMatch(live: LiveFingerprint, searchHintTime: number = -1, scanWidthSeconds: number = 120, playbackRateHint: number = 1): Promise<MatchResult> {
+    return this.post({ type: 'match', live, searchHintTime, scanWidthSeconds, playbackRateHint }, fingerprintTransferables(live));
+  }
+
+  /**
+   * Alinha a versão do espectador (`referencePcm`) com a versão do guião (`scriptPcm`),
+   * ambas mono e à mesma frequência. Os arrays são transferidos.
+   * @param onProgress Recebe 0 a 1 ao longo da construção
+   */
+  buildAlignmentMap(scriptPcm: Float32Array, referencePcm: Float32Array, sampleRate: number, onProgress?: (progress: number) => void): Promise<AlignmentMap> {
+    return this.post({ type: 'align', scriptPcm, referencePcm, sampleRate }, [scriptPcm.buffer, referencePcm.buffer], onProgress);
+  }
+
+  /**
+   * Cancela os pedidos pendentes. Se a matriz (ou um alinhamento) estava a ser construída, o worker é terminado
+   * (única forma de parar o cálculo) e recriado no próximo pedido.
+   */
+  cancel(): void {
+    if (this.pending.size === 0) return;
+    const wasGenerating = [...this.pending.values()].some(p => p.type === 'generate' || p.type === 'align');
+    this.pending.forEach(p => p.reject(new MatcherCancelledError()));
+    this.pending.clear();
+    if (wasGenerating) this.terminate();
+  }
+
+  /**
+   * Termina o worker e descarta a matriz.
+   */
+  terminate(): void {
+    this.pending.forEach(p => p.reject(new MatcherCancelledError()));
+    this.pending.clear();
+    this.worker?.terminate();
+    this.worker = null;
+    this.hasMaster = false;
+    this.hasDialogue = false;
+  }
+
+  private ensureWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./audioMatcher.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent<MatcherResponse>) => this.handleResponse(e.data);
+      this.worker.onerror = (e) => {
+        console.error('[WorkerAudioMatcher]', e);
+        this.pending.forEach(p => p.reject(new Error(e.message || 'Erro no worker do matcher')));
+        this.pending.clear();
+      };
+      // Um worker novo não conhece o método escolhido
+      this.worker.postMessage({ id: 0, type: 'setMethod', method: this.method } satisfies MatcherRequest);
+    }
+    return this.worker;
+  }
+
+  private post<T>(request: RequestWithoutId, transfer: Transferable[] = [], onProgress?: (progress: number) => void): Promise<T> {
+    const worker = this.ensureWorker();
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(id, { type: request.type, resolve: result => resolve(result as T), reject, onProgress });
+      worker.postMessage({ ...request, id }, transfer);
+    });
+  }
+
+  private handleResponse(response: MatcherResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return; // Pedido cancelado (ou setMethod interno)
+
+    if (response.type === 'progress') {
+      pending.onProgress?.(response.progress);
+      return;
+    }
+
+    this.pending.delete(response.id);
+    if (response.type === 'error') pending.reject(new Error(response.message));
+    else pending.resolve(response.result);
+  }
+}